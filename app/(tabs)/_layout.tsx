@@ -1,15 +1,19 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Platform } from 'react-native';
 import { Tabs } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useAuth } from '../../hooks/useAuth';
+import { uploadQueueService } from '../../services/uploadQueue';
 
 export default function TabLayout() {
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
   const isParent = user?.role === 'parent';
 
+  // Keep retrying recordings that were saved while offline
+  useEffect(() => uploadQueueService.startAutoSync(), []);
+
   const tabBarStyle = {
     height: Platform.select({
       ios: insets.bottom + 60,
@@ -66,10 +70,10 @@ export default function TabLayout() {
       <Tabs.Screen
         name="recorder"
         options={{
-          title: isParent ? 'Students' : 'Record',
+          title: isParent ? 'Assign' : 'Record',
           tabBarIcon: ({ color, size }) => (
             <MaterialIcons 
-              name={isParent ? "people" : "mic"} 
+              name={isParent ? "assignment" : "mic"} 
               size={size} 
               color={color} 
             />
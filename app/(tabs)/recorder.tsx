@@ -1,16 +1,43 @@
 import React, { useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { AudioRecorder } from '../../components/audio/AudioRecorder';
+import { AssignmentComposer } from '../../components/assignments/AssignmentComposer';
+import { useAuth } from '../../hooks/useAuth';
 
 export default function RecorderTab() {
   const [refreshKey, setRefreshKey] = useState(0);
+  const { user } = useAuth();
+  const router = useRouter();
+  const { studentId, assignmentId, bookId } = useLocalSearchParams<{
+    studentId?: string;
+    assignmentId?: string;
+    bookId?: string;
+  }>();
+
+  const clearAssignment = () => {
+    router.setParams({ assignmentId: undefined });
+  };
 
   const handleRecordingSaved = () => {
     // Trigger refresh by updating key for this component
     setRefreshKey(prev => prev + 1);
+    router.setParams({ assignmentId: undefined, bookId: undefined });
     
     // Also notify other tabs that data has changed
     console.log('📊 Recording saved, other tabs should refresh when focused');
   };
 
-  return <AudioRecorder key={refreshKey} onRecordingSaved={handleRecordingSaved} />;
-}
\ No newline at end of file
+  if (user?.role === 'parent') {
+    return <AssignmentComposer initialStudentId={studentId} />;
+  }
+
+  return (
+    <AudioRecorder
+      key={refreshKey}
+      assignmentId={assignmentId}
+      bookId={bookId}
+      onRecordingSaved={handleRecordingSaved}
+      onExitAssignment={clearAssignment}
+    />
+  );
+}
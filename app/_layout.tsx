@@ -10,6 +10,10 @@ export default function RootLayout() {
         <Stack screenOptions={{ headerShown: false }}>
           <Stack.Screen name="index" />
           <Stack.Screen name="(tabs)" />
+          <Stack.Screen name="profile" />
+          <Stack.Screen name="points-history" />
+          <Stack.Screen name="rewards" />
+          <Stack.Screen name="fluency" />
         </Stack>
       </AuthProvider>
     </PaperProvider>
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { FluencyReport } from '../components/fluency/FluencyReport';
+
+export default function FluencyRoute() {
+  const { studentId, studentName } = useLocalSearchParams<{ studentId?: string; studentName?: string }>();
+  return <FluencyReport studentId={studentId} studentName={studentName} />;
+}
@@ -0,0 +1,8 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import { PointsHistory } from '../components/points/PointsHistory';
+
+export default function PointsHistoryRoute() {
+  const { studentId, studentName } = useLocalSearchParams<{ studentId?: string; studentName?: string }>();
+  return <PointsHistory studentId={studentId} studentName={studentName} />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import { ProfileScreen } from '../components/profile/ProfileScreen';
+
+export default function ProfileRoute() {
+  return <ProfileScreen />;
+}
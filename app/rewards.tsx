@@ -0,0 +1,6 @@
+import React from 'react';
+import { RewardShop } from '../components/rewards/RewardShop';
+
+export default function RewardsRoute() {
+  return <RewardShop />;
+}
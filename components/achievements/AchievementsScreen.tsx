@@ -7,32 +7,18 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useAuth } from '../../hooks/useAuth';
 import { gamificationService } from '../../services/gamification';
 import { useAlert } from '../ui/CustomAlert';
-
-interface Achievement {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  points_reward: number;
-  diamonds_reward: number;
-  requirement_type: string;
-  requirement_value: number;
-  earned: boolean;
-  earned_at?: string;
-  progress?: number;
-}
+import { ACHIEVEMENT_CATEGORIES } from '../../constants/AchievementCategories';
+import { AchievementWithProgress } from '../../types/achievements';
 
 export function AchievementsScreen() {
-  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [achievements, setAchievements] = useState<AchievementWithProgress[]>([]);
   const [loading, setLoading] = useState(true);
-  const [userStats, setUserStats] = useState<any>(null);
 
   const { user } = useAuth();
   const { showAlert, AlertModal } = useAlert();
 
   useEffect(() => {
     loadAchievements();
-    loadUserStats();
   }, []);
 
   const loadAchievements = async () => {
@@ -47,63 +33,19 @@ export function AchievementsScreen() {
     }
   };
 
-  const loadUserStats = async () => {
-    try {
-      const stats = await gamificationService.getStudentProgress();
-      setUserStats(stats);
-    } catch (error: any) {
-      console.error('❌ Load stats error:', error);
-    }
-  };
-
-  const getProgressPercentage = (achievement: Achievement) => {
-    if (achievement.earned) return 1;
-    if (!userStats) return 0;
-    
-    let current = 0;
-    switch (achievement.requirement_type) {
-      case 'total_recordings':
-        current = userStats.totalRecordings || 0;
-        break;
-      case 'streak':
-        current = userStats.currentStreak || 0;
-        break;
-      case 'points':
-        current = userStats.points || 0;
-        break;
-      case 'perfect_week':
-        current = userStats.perfectWeeks || 0;
-        break;
-      default:
-        current = 0;
-    }
-    
-    return Math.min(current / achievement.requirement_value, 1);
+  const getProgressText = (achievement: AchievementWithProgress) => {
+    if (achievement.earned) return 'Completed!';
+    return `${achievement.progress.current}/${achievement.progress.target}`;
   };
 
-  const getProgressText = (achievement: Achievement) => {
-    if (achievement.earned) return 'Completed!';
-    if (!userStats) return '0/0';
-    
-    let current = 0;
-    switch (achievement.requirement_type) {
-      case 'total_recordings':
-        current = userStats.totalRecordings || 0;
-        break;
-      case 'streak':
-        current = userStats.currentStreak || 0;
-        break;
-      case 'points':
-        current = userStats.points || 0;
-        break;
-      case 'perfect_week':
-        current = userStats.perfectWeeks || 0;
-        break;
-      default:
-        current = 0;
+  const getEtaText = (achievement: AchievementWithProgress) => {
+    const { etaDays, current } = achievement.progress;
+    if (etaDays === null) {
+      return current > 0 ? 'Read a bit more to speed this up' : 'Start reading to work on this one';
     }
-    
-    return `${current}/${achievement.requirement_value}`;
+    if (etaDays <= 1) return 'You could unlock this today!';
+    if (etaDays < 14) return `About ${etaDays} days at your pace`;
+    return `About ${Math.round(etaDays / 7)} weeks at your pace`;
   };
 
   const getIconName = (iconString: string): any => {
@@ -123,7 +65,17 @@ export function AchievementsScreen() {
   };
 
   const earnedAchievements = achievements.filter(a => a.earned);
-  const unlockedAchievements = achievements.filter(a => !a.earned);
+  // Closest to earning first, so the next win is at the top of each group
+  const unlockedAchievements = achievements
+    .filter(a => !a.earned)
+    .sort((a, b) => b.progress.ratio - a.progress.ratio);
+  const closestAchievement = unlockedAchievements[0];
+  const categoryGroups = ACHIEVEMENT_CATEGORIES
+    .map(category => ({
+      ...category,
+      achievements: unlockedAchievements.filter(a => a.category === category.value),
+    }))
+    .filter(group => group.achievements.length > 0);
 
   if (loading) {
     return (
@@ -179,6 +131,11 @@ export function AchievementsScreen() {
                   <Text style={styles.overviewLabel}>Diamonds</Text>
                 </View>
               </View>
+              {closestAchievement && closestAchievement.progress.ratio > 0 && (
+                <Text style={styles.closestText}>
+                  🎯 Closest: {closestAchievement.name} ({Math.round(closestAchievement.progress.ratio * 100)}%)
+                </Text>
+              )}
             </Card.Content>
           </Card>
 
@@ -222,12 +179,12 @@ export function AchievementsScreen() {
               </View>
             )}
 
-            {/* In Progress Achievements */}
-            {unlockedAchievements.length > 0 && (
-              <View style={styles.section}>
-                <Text style={styles.sectionTitle}>🎯 In Progress</Text>
-                {unlockedAchievements.map((achievement) => {
-                  const progress = getProgressPercentage(achievement);
+            {/* In Progress Achievements, grouped by category */}
+            {categoryGroups.map((group) => (
+              <View key={group.value} style={styles.section}>
+                <Text style={styles.sectionTitle}>{group.emoji} {group.label}</Text>
+                {group.achievements.map((achievement) => {
+                  const progress = achievement.progress.ratio;
                   const progressText = getProgressText(achievement);
                   
                   return (
@@ -260,12 +217,13 @@ export function AchievementsScreen() {
                           color="#9C27B0"
                           style={styles.achievementProgress}
                         />
+                        <Text style={styles.etaText}>{getEtaText(achievement)}</Text>
                       </Card.Content>
                     </Card>
                   );
                 })}
               </View>
-            )}
+            ))}
           </ScrollView>
         </View>
       </SafeAreaView>
@@ -346,6 +304,12 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  closestText: {
+    fontSize: 13,
+    color: '#7B1FA2',
+    textAlign: 'center',
+    marginTop: 12,
+  },
   scrollView: {
     flex: 1,
   },
@@ -436,4 +400,9 @@ const styles = StyleSheet.create({
     borderRadius: 2,
     marginTop: 8,
   },
+  etaText: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 6,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,697 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, Platform } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText, Chip } from 'react-native-paper';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { assignmentService } from '../../services/assignments';
+import { familyService } from '../../services/family';
+import { bookService } from '../../services/books';
+import { bookLookupService } from '../../services/bookLookup';
+import { countWords } from '../../services/fluency';
+import { useAlert } from '../ui/CustomAlert';
+import { IsbnScanner } from '../books/IsbnScanner';
+import { ReadingAssignment } from '../../types/assignments';
+import { GuardianLinkWithProfile } from '../../types/family';
+import { Book } from '../../types/books';
+
+interface AssignmentComposerProps {
+  initialStudentId?: string;
+}
+
+const emptyForm = {
+  book_title: '',
+  title: '',
+  description: '',
+  passage_text: '',
+  target_minutes: '',
+  points_reward: '10',
+};
+
+export function AssignmentComposer({ initialStudentId }: AssignmentComposerProps) {
+  const [students, setStudents] = useState<GuardianLinkWithProfile[]>([]);
+  const [studentId, setStudentId] = useState<string | undefined>(initialStudentId);
+  const [formData, setFormData] = useState(emptyForm);
+  const [dueDate, setDueDate] = useState<Date | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [studentAssignments, setStudentAssignments] = useState<ReadingAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [bookSuggestions, setBookSuggestions] = useState<Book[]>([]);
+  const [scanning, setScanning] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  const loadStudents = useCallback(async () => {
+    try {
+      const linkedStudents = await familyService.getLinkedStudents();
+      setStudents(linkedStudents);
+      if (linkedStudents.length === 1) {
+        setStudentId(current => current || linkedStudents[0].student_id);
+      }
+    } catch (error: any) {
+      console.error('❌ Load students error:', error);
+      showAlert('Error', 'Failed to load your students');
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadStudents();
+  }, [loadStudents]);
+
+  useEffect(() => {
+    if (initialStudentId) {
+      setStudentId(initialStudentId);
+    }
+  }, [initialStudentId]);
+
+  useEffect(() => {
+    if (studentId) {
+      loadStudentAssignments(studentId);
+    } else {
+      setStudentAssignments([]);
+    }
+  }, [studentId]);
+
+  // Suggest catalog books while the title is typed, so assignments share one entry per book
+  useEffect(() => {
+    const query = formData.book_title.trim();
+    if (selectedBook || query.length < 2) {
+      setBookSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setBookSuggestions(await bookService.searchBooks(query, 4));
+      } catch (error: any) {
+        console.error('❌ Book search error:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [formData.book_title, selectedBook]);
+
+  const selectBook = (book: Book) => {
+    setSelectedBook(book);
+    setFormData(prev => ({ ...prev, book_title: book.title }));
+  };
+
+  const handleScanned = async (code: string) => {
+    setScanning(false);
+    try {
+      const { book } = await bookLookupService.lookup(code);
+      if (!book.title) {
+        showAlert('Book Not Found', 'We could not find that barcode. Type the book title instead.');
+        return;
+      }
+      selectBook(await bookService.findOrCreateBook(book));
+    } catch (error: any) {
+      console.error('❌ ISBN lookup error:', error);
+      showAlert('Scan Error', error.message || 'Failed to read that barcode');
+    }
+  };
+
+  const loadStudentAssignments = async (id: string) => {
+    try {
+      const assignments = await assignmentService.getParentAssignments(id);
+      setStudentAssignments(assignments);
+    } catch (error: any) {
+      console.error('❌ Load student assignments error:', error);
+    }
+  };
+
+  const selectedStudent = students.find(s => s.student_id === studentId);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!studentId) {
+      newErrors.student = 'Pick a student';
+    }
+
+    if (!formData.book_title.trim()) {
+      newErrors.book_title = 'Book title is required';
+    }
+
+    if (!formData.title.trim()) {
+      newErrors.title = 'Assignment title is required';
+    }
+
+    const minutes = Number(formData.target_minutes);
+    if (formData.target_minutes && (!Number.isFinite(minutes) || minutes <= 0)) {
+      newErrors.target_minutes = 'Enter a number of minutes';
+    }
+
+    const points = Number(formData.points_reward);
+    if (!Number.isInteger(points) || points < 1 || points > 500) {
+      newErrors.points_reward = 'Points must be between 1 and 500';
+    }
+
+    if (dueDate && dueDate.getTime() < new Date().setHours(0, 0, 0, 0)) {
+      newErrors.due_date = 'Due date cannot be in the past';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const openPreview = () => {
+    if (!validateForm()) return;
+    setPreviewing(true);
+  };
+
+  const onDateChange = (event: DateTimePickerEvent, date?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (event.type === 'set' && date) {
+      setDueDate(date);
+    }
+  };
+
+  // new Date('YYYY-MM-DD') is UTC midnight, a day early west of UTC, so build the local day
+  const onWebDateChange = (text: string) => {
+    const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      setDueDate(null);
+      return;
+    }
+    const [year, month, day] = match.slice(1).map(Number);
+    const parsed = new Date(year, month - 1, day);
+    setDueDate(parsed.getMonth() === month - 1 && parsed.getDate() === day ? parsed : null);
+  };
+
+  const createAssignment = async () => {
+    if (!studentId) return;
+    setSaving(true);
+
+    try {
+      const minutes = Number(formData.target_minutes);
+      await assignmentService.createAssignment({
+        student_id: studentId,
+        title: formData.title.trim(),
+        description: formData.description.trim() || undefined,
+        passage_text: formData.passage_text.trim() || undefined,
+        book_title: formData.book_title.trim(),
+        book_id: selectedBook?.id,
+        target_duration: minutes > 0 ? Math.round(minutes * 60) : undefined,
+        points_reward: Number(formData.points_reward),
+        due_date: dueDate ? dueDate.toISOString() : undefined,
+      });
+
+      showAlert(
+        'Assignment Sent! 📚',
+        `${selectedStudent?.full_name || 'Your student'} will find "${formData.book_title.trim()}" in their Books tab.`
+      );
+
+      setFormData(emptyForm);
+      setSelectedBook(null);
+      setDueDate(null);
+      setPreviewing(false);
+      loadStudentAssignments(studentId);
+    } catch (error: any) {
+      console.error('❌ Create assignment error:', error);
+      showAlert('Error', error.message || 'Failed to create assignment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatDueDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'completed':
+        return '#4CAF50';
+      case 'reviewed':
+        return '#2196F3';
+      default:
+        return '#FF9800';
+    }
+  };
+
+  if (loading) {
+    return (
+      <LinearGradient colors={['#2196F3', '#1976D2']} style={styles.container}>
+        <SafeAreaView style={styles.safeArea} edges={['top']}>
+          <View style={styles.centerContent}>
+            <Text style={styles.loadingText}>Loading students...</Text>
+          </View>
+        </SafeAreaView>
+      </LinearGradient>
+    );
+  }
+
+  return (
+    <LinearGradient colors={['#2196F3', '#1976D2']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Assign Reading 📖</Text>
+            <Text style={styles.subtitle}>Pick a book and set a goal for your reader</Text>
+          </View>
+
+          {students.length === 0 ? (
+            <Card style={styles.card}>
+              <Card.Content style={styles.emptyContent}>
+                <MaterialIcons name="people-outline" size={48} color="#ccc" />
+                <Text style={styles.emptyTitle}>No linked students yet</Text>
+                <Text style={styles.emptySubtitle}>
+                  Generate an invite code on your Dashboard and ask your child to enter it.
+                </Text>
+              </Card.Content>
+            </Card>
+          ) : previewing ? (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>
+                  Preview for {selectedStudent?.full_name || 'your student'}
+                </Text>
+                <View style={styles.previewCard}>
+                  <Text style={styles.previewBook}>{formData.book_title.trim()}</Text>
+                  <Text style={styles.previewTitle}>{formData.title.trim()}</Text>
+                  {!!formData.description.trim() && (
+                    <Text style={styles.previewDescription}>{formData.description.trim()}</Text>
+                  )}
+                  {!!formData.passage_text.trim() && (
+                    <Text style={styles.previewPassage} numberOfLines={4}>
+                      {formData.passage_text.trim()}
+                    </Text>
+                  )}
+                  <View style={styles.previewMeta}>
+                    <View style={styles.metaRow}>
+                      <MaterialIcons name="star" size={16} color="#FFD700" />
+                      <Text style={styles.metaText}>{formData.points_reward} points</Text>
+                    </View>
+                    {!!formData.passage_text.trim() && (
+                      <View style={styles.metaRow}>
+                        <MaterialIcons name="spellcheck" size={16} color="#666" />
+                        <Text style={styles.metaText}>{countWords(formData.passage_text)} word passage</Text>
+                      </View>
+                    )}
+                    {!!formData.target_minutes && (
+                      <View style={styles.metaRow}>
+                        <MaterialIcons name="schedule" size={16} color="#666" />
+                        <Text style={styles.metaText}>~{formData.target_minutes} min read</Text>
+                      </View>
+                    )}
+                    {dueDate && (
+                      <View style={styles.metaRow}>
+                        <MaterialIcons name="event" size={16} color="#666" />
+                        <Text style={styles.metaText}>Due {formatDueDate(dueDate)}</Text>
+                      </View>
+                    )}
+                  </View>
+                </View>
+                <View style={styles.buttonRow}>
+                  <Button mode="outlined" onPress={() => setPreviewing(false)} disabled={saving} style={styles.flexButton}>
+                    Edit
+                  </Button>
+                  <Button
+                    mode="contained"
+                    icon="send"
+                    onPress={createAssignment}
+                    loading={saving}
+                    disabled={saving}
+                    style={[styles.flexButton, styles.sendButton]}
+                  >
+                    Send
+                  </Button>
+                </View>
+              </Card.Content>
+            </Card>
+          ) : (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>Student</Text>
+                <View style={styles.studentChips}>
+                  {students.map((student) => (
+                    <Chip
+                      key={student.student_id}
+                      selected={student.student_id === studentId}
+                      onPress={() => setStudentId(student.student_id)}
+                      icon="account"
+                    >
+                      {student.full_name || 'Student'}
+                    </Chip>
+                  ))}
+                </View>
+                <HelperText type="error" visible={!!errors.student}>
+                  {errors.student}
+                </HelperText>
+
+                <TextInput
+                  label="Book Title"
+                  value={formData.book_title}
+                  onChangeText={(text) => {
+                    setSelectedBook(null);
+                    setFormData(prev => ({ ...prev, book_title: text }));
+                  }}
+                  mode="outlined"
+                  style={styles.input}
+                  error={!!errors.book_title}
+                  right={selectedBook
+                    ? <TextInput.Icon icon="book-check" />
+                    : <TextInput.Icon icon="barcode-scan" onPress={() => setScanning(true)} />}
+                />
+                {bookSuggestions.length > 0 && (
+                  <View style={styles.studentChips}>
+                    {bookSuggestions.map((book) => (
+                      <Chip key={book.id} icon="book" onPress={() => selectBook(book)}>
+                        {book.author ? `${book.title} • ${book.author}` : book.title}
+                      </Chip>
+                    ))}
+                  </View>
+                )}
+                <HelperText type="error" visible={!!errors.book_title}>
+                  {errors.book_title}
+                </HelperText>
+
+                <TextInput
+                  label="Assignment (e.g., Chapters 1-2)"
+                  value={formData.title}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, title: text }))}
+                  mode="outlined"
+                  style={styles.input}
+                  error={!!errors.title}
+                />
+                <HelperText type="error" visible={!!errors.title}>
+                  {errors.title}
+                </HelperText>
+
+                <TextInput
+                  label="Notes for your reader (Optional)"
+                  value={formData.description}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, description: text }))}
+                  mode="outlined"
+                  multiline
+                  numberOfLines={3}
+                  style={styles.input}
+                />
+
+                <TextInput
+                  label="Passage text (Optional)"
+                  value={formData.passage_text}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, passage_text: text }))}
+                  mode="outlined"
+                  multiline
+                  numberOfLines={5}
+                  style={[styles.input, styles.inputSpacing]}
+                />
+                <HelperText type="info" visible>
+                  Paste the exact text to score how accurately it was read.
+                </HelperText>
+
+                <View style={styles.inputRow}>
+                  <View style={styles.flexInput}>
+                    <TextInput
+                      label="Target minutes"
+                      value={formData.target_minutes}
+                      onChangeText={(text) => setFormData(prev => ({ ...prev, target_minutes: text }))}
+                      mode="outlined"
+                      keyboardType="numeric"
+                      style={styles.input}
+                      error={!!errors.target_minutes}
+                    />
+                    <HelperText type="error" visible={!!errors.target_minutes}>
+                      {errors.target_minutes}
+                    </HelperText>
+                  </View>
+                  <View style={styles.flexInput}>
+                    <TextInput
+                      label="Points reward"
+                      value={formData.points_reward}
+                      onChangeText={(text) => setFormData(prev => ({ ...prev, points_reward: text }))}
+                      mode="outlined"
+                      keyboardType="numeric"
+                      style={styles.input}
+                      error={!!errors.points_reward}
+                    />
+                    <HelperText type="error" visible={!!errors.points_reward}>
+                      {errors.points_reward}
+                    </HelperText>
+                  </View>
+                </View>
+
+                {Platform.OS === 'web' ? (
+                  <TextInput
+                    label="Due date (YYYY-MM-DD, optional)"
+                    onChangeText={onWebDateChange}
+                    mode="outlined"
+                    style={styles.input}
+                    error={!!errors.due_date}
+                  />
+                ) : (
+                  <View style={styles.dueDateRow}>
+                    <Button mode="outlined" icon="calendar" onPress={() => setShowDatePicker(true)}>
+                      {dueDate ? `Due ${formatDueDate(dueDate)}` : 'Set due date'}
+                    </Button>
+                    {dueDate && (
+                      <Button mode="text" onPress={() => setDueDate(null)}>
+                        Clear
+                      </Button>
+                    )}
+                  </View>
+                )}
+                {showDatePicker && (
+                  <DateTimePicker
+                    value={dueDate || new Date()}
+                    mode="date"
+                    minimumDate={new Date()}
+                    onChange={onDateChange}
+                  />
+                )}
+                <HelperText type="error" visible={!!errors.due_date}>
+                  {errors.due_date}
+                </HelperText>
+
+                <Button
+                  mode="contained"
+                  icon="eye"
+                  onPress={openPreview}
+                  style={styles.sendButton}
+                  contentStyle={styles.buttonContent}
+                >
+                  Preview Assignment
+                </Button>
+              </Card.Content>
+            </Card>
+          )}
+
+          {selectedStudent && studentAssignments.length > 0 && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>
+                  {selectedStudent.full_name || 'Student'}&apos;s Assignments
+                </Text>
+                {studentAssignments.map((assignment) => (
+                  <View key={assignment.id} style={styles.assignmentRow}>
+                    <View style={styles.assignmentInfo}>
+                      <Text style={styles.assignmentBook}>{assignment.book_title}</Text>
+                      <Text style={styles.assignmentTitle}>{assignment.title}</Text>
+                    </View>
+                    <Chip
+                      compact
+                      textStyle={[styles.statusText, { color: getStatusColor(assignment.status) }]}
+                    >
+                      {assignment.status}
+                    </Chip>
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+      <IsbnScanner visible={scanning} onScanned={handleScanned} onClose={() => setScanning(false)} />
+      <AlertModal />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+    opacity: 0.9,
+    marginTop: 4,
+  },
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyContent: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 12,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  studentChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  inputSpacing: {
+    marginTop: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  dueDateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  flexButton: {
+    flex: 1,
+  },
+  sendButton: {
+    backgroundColor: '#2196F3',
+  },
+  buttonContent: {
+    paddingVertical: 8,
+  },
+  previewCard: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 12,
+    padding: 16,
+  },
+  previewBook: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  previewTitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  previewDescription: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  previewPassage: {
+    fontSize: 13,
+    color: '#555',
+    fontStyle: 'italic',
+    marginTop: 8,
+    lineHeight: 18,
+  },
+  previewMeta: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  assignmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  assignmentInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  assignmentBook: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  assignmentTitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
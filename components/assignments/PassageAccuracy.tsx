@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { AccuracyResult, AlignedWord } from '../../types/accuracy';
+
+interface PassageAccuracyProps {
+  result: AccuracyResult;
+}
+
+const getAccuracyColor = (accuracy: number) => {
+  // Common reading-level bands: 95%+ independent, 90%+ with support, below is frustration
+  if (accuracy >= 95) return '#4CAF50';
+  if (accuracy >= 90) return '#FF9800';
+  return '#F44336';
+};
+
+const getWordStyle = (word: AlignedWord) => [
+  word.status === 'skipped' && styles.skippedWord,
+  word.status === 'substituted' && styles.substitutedWord,
+  word.repeated && styles.repeatedWord,
+];
+
+export function PassageAccuracy({ result }: PassageAccuracyProps) {
+  const color = getAccuracyColor(result.accuracy);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={[styles.accuracy, { color }]}>{result.accuracy}%</Text>
+        <View style={styles.headerText}>
+          <Text style={styles.label}>Accuracy</Text>
+          <Text style={styles.counts}>
+            {result.correct_count}/{result.passage_word_count} words • {result.skipped_count} skipped • {result.substituted_count} changed • {result.repeated_count} repeated
+          </Text>
+        </View>
+      </View>
+
+      <Text style={styles.passage}>
+        {result.alignment.map((word, index) => (
+          <Text key={index}>
+            <Text style={getWordStyle(word)}>{word.word}</Text>
+            {word.status === 'substituted' && !!word.spoken && (
+              <Text style={styles.spokenWord}> ({word.spoken})</Text>
+            )}
+            {index < result.alignment.length - 1 ? ' ' : ''}
+          </Text>
+        ))}
+      </Text>
+
+      <View style={styles.legend}>
+        <Text style={[styles.legendItem, styles.skippedWord]}>skipped</Text>
+        <Text style={[styles.legendItem, styles.substitutedWord]}>changed (said)</Text>
+        <Text style={[styles.legendItem, styles.repeatedWord]}>repeated</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+    gap: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  accuracy: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  counts: {
+    fontSize: 12,
+    color: '#666',
+  },
+  passage: {
+    fontSize: 15,
+    color: '#333',
+    lineHeight: 24,
+  },
+  skippedWord: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  substitutedWord: {
+    color: '#F44336',
+    fontWeight: 'bold',
+  },
+  repeatedWord: {
+    backgroundColor: '#FFE082',
+  },
+  spokenWord: {
+    fontSize: 13,
+    color: '#F44336',
+    fontStyle: 'italic',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+  },
+  legendItem: {
+    fontSize: 12,
+  },
+});
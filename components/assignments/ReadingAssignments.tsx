@@ -1,38 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
 import { Card, Text, Button, Badge, Chip, ProgressBar } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../hooks/useAuth';
 import { assignmentService } from '../../services/assignments';
 import { useAlert } from '../ui/CustomAlert';
-
-interface Assignment {
-  id: string;
-  title: string;
-  description?: string;
-  book_title: string;
-  target_duration?: number;
-  points_reward: number;
-  due_date?: string;
-  status: string;
-  created_at: string;
-}
+import { BookLibrary } from '../books/BookLibrary';
+import { ReadingAssignment } from '../../types/assignments';
 
 export function ReadingAssignments() {
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [assignments, setAssignments] = useState<ReadingAssignment[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('pending');
 
   const { user } = useAuth();
   const { showAlert, AlertModal } = useAlert();
+  const router = useRouter();
 
-  useEffect(() => {
-    loadAssignments();
-  }, [filter]);
-
-  const loadAssignments = async () => {
+  const loadAssignments = React.useCallback(async () => {
     try {
       const assignmentData = await assignmentService.getStudentAssignments(filter);
       setAssignments(assignmentData);
@@ -42,12 +31,22 @@ export function ReadingAssignments() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [filter, showAlert]);
 
-  const startReading = (assignment: Assignment) => {
+  // Reload on focus too, to pick up assignments completed from the recorder
+  useFocusEffect(
+    React.useCallback(() => {
+      loadAssignments();
+    }, [loadAssignments])
+  );
+
+  const startReading = (assignment: ReadingAssignment) => {
     // Navigate to recorder with assignment context
     console.log('Starting reading for:', assignment.book_title);
-    showAlert('Ready to Read!', `Let's start reading "${assignment.book_title}". Tap Record when ready!`);
+    router.push({
+      pathname: '/(tabs)/recorder',
+      params: { assignmentId: assignment.id },
+    });
   };
 
   const getStatusColor = (status: string) => {
@@ -105,13 +104,18 @@ export function ReadingAssignments() {
   return (
     <LinearGradient colors={['#FF9800', '#F57C00']} style={styles.container}>
       <SafeAreaView style={styles.safeArea} edges={['top']}>
-        <View style={styles.content}>
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
           {/* Header */}
           <View style={styles.header}>
             <Text style={styles.title}>Your Reading Books 📚</Text>
             <Text style={styles.subtitle}>Choose a book to read aloud</Text>
           </View>
 
+          {/* Bookshelves */}
+          <BookLibrary />
+
+          <Text style={styles.sectionTitle}>Assignments</Text>
+
           {/* Filter Chips */}
           <ScrollView 
             horizontal 
@@ -146,7 +150,7 @@ export function ReadingAssignments() {
           </ScrollView>
 
           {/* Assignments List */}
-          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          <View style={styles.assignmentList}>
             {assignments.length === 0 ? (
               <Card style={styles.emptyCard}>
                 <Card.Content style={styles.emptyContent}>
@@ -227,8 +231,8 @@ export function ReadingAssignments() {
                 </Card>
               ))
             )}
-          </ScrollView>
-        </View>
+          </View>
+        </ScrollView>
       </SafeAreaView>
       <AlertModal />
     </LinearGradient>
@@ -243,7 +247,6 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   content: {
-    flex: 1,
     padding: 16,
   },
   centerContent: {
@@ -273,6 +276,12 @@ const styles = StyleSheet.create({
     opacity: 0.9,
     marginTop: 4,
   },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 8,
+  },
   filterScroll: {
     marginBottom: 16,
   },
@@ -293,7 +302,7 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
-  scrollContent: {
+  assignmentList: {
     gap: 12,
     paddingBottom: 16,
   },
@@ -1,13 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
-import { Text, Card, IconButton, Menu, Divider } from 'react-native-paper';
+import { Text, Card, IconButton, Menu, Divider, Chip, Button, Searchbar, ProgressBar } from 'react-native-paper';
 import { Audio } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { audioService } from '../../services/audio';
+import { uploadQueueService } from '../../services/uploadQueue';
+import { isUploadPaused } from '../../services/resumableUpload';
+import { transcriptionService } from '../../services/transcription';
+import { commentService } from '../../services/comments';
+import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '../ui/CustomAlert';
-import { AudioRecord, PlaybackState } from '../../types/audio';
+import { StarRating } from '../ui/StarRating';
+import { TranscriptView } from './TranscriptView';
+import { PlaybackScrubber } from './PlaybackScrubber';
+import { RecordingComments } from './RecordingComments';
+import { getReadingQualityOption } from '../../constants/ReadingQuality';
+import { AudioRecord, PendingRecording, PlaybackState } from '../../types/audio';
+import { RecordingTranscript } from '../../types/transcription';
+import { CommentThread } from '../../types/comments';
+
+const SKIP_SECONDS = 10;
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// While playing, the position is saved each time it moves this far
+const POSITION_SAVE_SECONDS = 5;
 
 export function AudioHistory() {
   const [records, setRecords] = useState<AudioRecord[]>([]);
@@ -21,10 +38,70 @@ export function AudioHistory() {
     duration: 0,
   });
   const [playingRecordId, setPlayingRecordId] = useState<string | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [savedPositions, setSavedPositions] = useState<Record<string, number>>({});
   const [menuVisible, setMenuVisible] = useState<string | null>(null);
-
+  const [pendingRecordings, setPendingRecordings] = useState<PendingRecording[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [uploadedBytes, setUploadedBytes] = useState<Record<string, number>>({});
+  const [transcripts, setTranscripts] = useState<Record<string, RecordingTranscript>>({});
+  const [comments, setComments] = useState<Record<string, CommentThread[]>>({});
+  const [canTranscribe, setCanTranscribe] = useState(false);
+  const [transcribingId, setTranscribingId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const pendingCountRef = useRef(0);
+  const lastSavedPositionRef = useRef(0);
+
+  const { user } = useAuth();
+  const isParent = user?.role === 'parent';
   const { showAlert, AlertModal } = useAlert();
 
+  // Transcripts are extra, so a failure here leaves the list usable
+  const loadTranscripts = useCallback(async (audioRecords: AudioRecord[]) => {
+    try {
+      setTranscripts(await transcriptionService.getTranscripts(audioRecords.map(record => record.id)));
+    } catch (error: any) {
+      console.error('❌ Load transcripts error:', error);
+    }
+  }, []);
+
+  const loadComments = useCallback(async (audioRecords: AudioRecord[]) => {
+    try {
+      setComments(await commentService.getComments(audioRecords.map(record => record.id)));
+    } catch (error: any) {
+      console.error('❌ Load comments error:', error);
+    }
+  }, []);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      const audioRecords = await audioService.getUserAudioRecords();
+      setRecords(audioRecords);
+      loadTranscripts(audioRecords);
+      loadComments(audioRecords);
+    } catch (error: any) {
+      console.error('❌ Load records error:', error);
+      showAlert('Load Error', 'Failed to load audio records');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [loadTranscripts, loadComments, showAlert]);
+
+  const loadPending = useCallback(async () => {
+    try {
+      const queue = await uploadQueueService.getPending();
+      // Something left the queue, so the server list has changed
+      if (queue.length < pendingCountRef.current) {
+        loadRecords();
+      }
+      pendingCountRef.current = queue.length;
+      setPendingRecordings(queue);
+    } catch (error: any) {
+      console.error('❌ Load pending recordings error:', error);
+    }
+  }, [loadRecords]);
+
   useEffect(() => {
     loadRecords();
     return () => {
@@ -35,25 +112,116 @@ export function AudioHistory() {
     };
   }, []);
 
-  const loadRecords = async () => {
+  useEffect(() => {
+    transcriptionService.isAvailable().then(setCanTranscribe);
+  }, []);
+
+  useEffect(() => {
+    audioService.getPlaybackPositions().then(setSavedPositions);
+  }, []);
+
+  useEffect(() => {
+    loadPending();
+    return uploadQueueService.subscribe(() => {
+      loadPending();
+    });
+  }, [loadPending]);
+
+  useEffect(() => {
+    return uploadQueueService.subscribeProgress(({ id, sent }) => {
+      setUploadedBytes(prev => ({ ...prev, [id]: sent }));
+    });
+  }, []);
+
+  const reloadComments = async (recordId: string) => {
     try {
-      const audioRecords = await audioService.getUserAudioRecords();
-      setRecords(audioRecords);
+      const threads = await commentService.getComments([recordId]);
+      setComments(current => ({ ...current, [recordId]: threads[recordId] || [] }));
     } catch (error: any) {
-      console.error('❌ Load records error:', error);
-      showAlert('Load Error', 'Failed to load audio records');
+      console.error('❌ Reload comments error:', error);
+    }
+  };
+
+  const transcribeRecord = async (record: AudioRecord) => {
+    setTranscribingId(record.id);
+    try {
+      const transcript = await transcriptionService.transcribeRecording(record);
+      if (transcript) {
+        setTranscripts(current => ({ ...current, [record.id]: transcript }));
+      }
+    } catch (error: any) {
+      console.error('❌ Transcribe error:', error);
+      showAlert('Transcription Failed', error.message || 'Could not transcribe this recording');
     } finally {
-      setLoading(false);
-      setRefreshing(false);
+      setTranscribingId(null);
     }
   };
 
   const onRefresh = () => {
     setRefreshing(true);
     loadRecords();
+    uploadQueueService.processQueue(true);
+  };
+
+  const retryUpload = async (item: PendingRecording) => {
+    setRetryingId(item.id);
+    try {
+      if (item.status === 'paused') {
+        await uploadQueueService.resume(item.id);
+      } else {
+        await uploadQueueService.submit(item.id);
+      }
+      showAlert('Uploaded', `"${item.title}" is saved and your points were added!`);
+    } catch (error: any) {
+      if (isUploadPaused(error)) return;
+      console.error('❌ Retry upload error:', error);
+      showAlert('Upload Failed', 'Still could not upload this recording. We will keep trying automatically.');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const pauseUpload = async (item: PendingRecording) => {
+    try {
+      await uploadQueueService.pause(item.id);
+    } catch (error: any) {
+      console.error('❌ Pause upload error:', error);
+    }
   };
 
-    const playAudio = async (record: AudioRecord) => {
+  const discardPending = async (item: PendingRecording) => {
+    try {
+      await uploadQueueService.discard(item.id);
+    } catch (error: any) {
+      console.error('❌ Discard pending recording error:', error);
+      showAlert('Error', 'Failed to remove this recording');
+    }
+  };
+
+  // Remember where a recording was left off, or forget it with null
+  const rememberPosition = (recordId: string, position: number | null) => {
+    setSavedPositions(prev => {
+      const next = { ...prev };
+      if (position === null) {
+        delete next[recordId];
+      } else {
+        next[recordId] = position;
+      }
+      return next;
+    });
+    audioService.savePlaybackPosition(recordId, position);
+  };
+
+  // Saved position to pick up from, if it is still inside the part being played
+  const getResumePosition = (record: AudioRecord) => {
+    const playbackWindow = audioService.getPlaybackWindow(record);
+    const saved = savedPositions[record.id];
+    if (saved === undefined || saved <= playbackWindow.start) return undefined;
+    if (playbackWindow.end !== undefined && saved >= playbackWindow.end) return undefined;
+    return saved;
+  };
+
+    const playAudio = async (record: AudioRecord, startAt?: number) => {
     try {
       console.log('🎵 Starting playback for:', record.title);
       
@@ -85,15 +253,20 @@ export function AudioHistory() {
         throw new Error('Invalid audio file URL');
       }
 
-      // Create and load sound
+      // Create and load sound, starting where it was left off or where the reading starts
       console.log('🎵 Creating audio sound object');
+      const playbackWindow = audioService.getPlaybackWindow(record);
+      const startPosition = startAt ?? getResumePosition(record) ?? playbackWindow.start;
+      lastSavedPositionRef.current = startPosition;
       const { sound } = await Audio.Sound.createAsync(
         { uri: audioUrl },
         { 
+          positionMillis: startPosition * 1000,
           shouldPlay: false, // Don't auto-play, we'll start manually
           volume: 1.0,
-          rate: 1.0,
+          rate: playbackRate,
           shouldCorrectPitch: true,
+          pitchCorrectionQuality: Audio.PitchCorrectionQuality.High,
         }
       );
 
@@ -104,16 +277,31 @@ export function AudioHistory() {
       // Set up playback status listener
       sound.setOnPlaybackStatusUpdate((status) => {
         if (status.isLoaded) {
+          const position = (status.positionMillis || 0) / 1000;
           setPlaybackState({
             isPlaying: status.isPlaying || false,
-            isPaused: !status.isPlaying && status.positionMillis! > 0,
-            position: (status.positionMillis || 0) / 1000,
+            isPaused: !status.isPlaying,
+            position,
             duration: (status.durationMillis || 0) / 1000,
           });
 
+          if (status.isPlaying && Math.abs(position - lastSavedPositionRef.current) >= POSITION_SAVE_SECONDS) {
+            lastSavedPositionRef.current = position;
+            rememberPosition(record.id, position);
+          }
+
+          // Silence after the reading was trimmed, so stop where it ends
+          const reachedEnd = playbackWindow.end !== undefined
+            && status.isPlaying
+            && status.positionMillis / 1000 >= playbackWindow.end;
+          if (reachedEnd) {
+            sound.stopAsync();
+          }
+
           // Auto cleanup when finished
-          if (status.didJustFinish) {
+          if (status.didJustFinish || reachedEnd) {
             console.log('🏁 Playback finished');
+            rememberPosition(record.id, null);
             setPlayingRecordId(null);
             setPlaybackState({
               isPlaying: false,
@@ -173,6 +361,7 @@ export function AudioHistory() {
     try {
       if (playback) {
         await playback.pauseAsync();
+        if (playingRecordId) rememberPosition(playingRecordId, playbackState.position);
         console.log('⏸️ Audio paused');
       }
     } catch (error: any) {
@@ -194,6 +383,7 @@ export function AudioHistory() {
   const stopAudio = async () => {
     try {
       if (playback) {
+        if (playingRecordId) rememberPosition(playingRecordId, playbackState.position);
         await playback.stopAsync();
         await playback.unloadAsync();
         setPlayback(null);
@@ -211,6 +401,43 @@ export function AudioHistory() {
     }
   };
 
+  // Jump to a point in the reading, given in seconds from where it starts
+  const seekAudio = async (record: AudioRecord, windowPosition: number) => {
+    try {
+      if (!playback) return;
+      const playbackWindow = audioService.getPlaybackWindow(record);
+      const end = playbackWindow.end ?? playbackState.duration;
+      const position = Math.min(end, Math.max(playbackWindow.start, playbackWindow.start + windowPosition));
+      await playback.setPositionAsync(position * 1000);
+      lastSavedPositionRef.current = position;
+      rememberPosition(record.id, position);
+    } catch (error: any) {
+      console.error('❌ Seek audio error:', error);
+    }
+  };
+
+  // Jump to a comment, starting the recording there if it isn't playing
+  const playFrom = (record: AudioRecord, position: number) => {
+    if (playingRecordId === record.id) {
+      seekAudio(record, position - audioService.getPlaybackWindow(record).start);
+    } else {
+      playAudio(record, position);
+    }
+  };
+
+  // Step through the speeds, keeping the reader's pitch
+  const cyclePlaybackRate = async () => {
+    const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playbackRate) + 1) % PLAYBACK_RATES.length];
+    setPlaybackRate(nextRate);
+    try {
+      if (playback) {
+        await playback.setRateAsync(nextRate, true, Audio.PitchCorrectionQuality.High);
+      }
+    } catch (error: any) {
+      console.error('❌ Set playback rate error:', error);
+    }
+  };
+
   const deleteRecord = async (record: AudioRecord) => {
     try {
       // Stop playback if this record is playing
@@ -219,6 +446,7 @@ export function AudioHistory() {
       }
 
       await audioService.deleteAudioRecord(record.id, record.file_path);
+      rememberPosition(record.id, null);
       showAlert('Deleted', 'Recording deleted successfully');
       loadRecords(); // Refresh list
     } catch (error: any) {
@@ -237,8 +465,104 @@ export function AudioHistory() {
     });
   };
 
+  const renderPending = (item: PendingRecording) => {
+    const isRetrying = retryingId === item.id || item.status === 'uploading';
+    const isPaused = item.status === 'paused';
+    const isCancelling = item.status === 'cancelling';
+    const sent = uploadedBytes[item.id] ?? item.uploaded_bytes ?? 0;
+    const progress = item.file_size ? Math.min(1, sent / item.file_size) : 0;
+
+    return (
+      <Card key={item.id} style={[styles.recordCard, styles.pendingCard]}>
+        <Card.Content style={styles.cardContent}>
+          <View style={styles.recordHeader}>
+            <View style={styles.recordInfo}>
+              <Text style={styles.recordTitle}>{item.title}</Text>
+              <Text style={styles.recordDate}>{formatDate(item.created_at)}</Text>
+              <Chip compact icon={isPaused ? 'pause' : 'cloud-upload'} style={styles.pendingChip}>
+                {isCancelling ? 'Cancelling...' : isPaused ? 'Paused' : isRetrying ? 'Uploading...' : 'Waiting to upload'}
+              </Chip>
+            </View>
+
+            <Menu
+              visible={menuVisible === item.id}
+              onDismiss={() => setMenuVisible(null)}
+              anchor={
+                <IconButton
+                  icon="dots-vertical"
+                  onPress={() => setMenuVisible(item.id)}
+                />
+              }
+            >
+              <Menu.Item
+                onPress={() => {
+                  setMenuVisible(null);
+                  discardPending(item);
+                }}
+                title="Discard"
+                leadingIcon="delete"
+              />
+            </Menu>
+          </View>
+
+          {(isRetrying || isPaused) && progress > 0 && (
+            <View style={styles.uploadProgress}>
+              <ProgressBar progress={progress} color="#667eea" style={styles.uploadBar} />
+              <Text style={styles.metaText}>
+                {audioService.formatFileSize(sent)} of {audioService.formatFileSize(item.file_size)}
+              </Text>
+            </View>
+          )}
+
+          {item.attempts > 0 && (
+            <Text style={styles.pendingError}>
+              {item.attempts} failed attempt{item.attempts > 1 ? 's' : ''}
+              {item.last_error ? ` • ${item.last_error}` : ''}
+            </Text>
+          )}
+
+          <Divider style={styles.divider} />
+
+          <View style={styles.recordFooter}>
+            <View style={styles.recordMeta}>
+              <Text style={styles.metaText}>
+                {audioService.formatDuration(item.duration)}
+              </Text>
+              <Text style={styles.metaText}>+{item.points_earned} pts</Text>
+            </View>
+
+            {isCancelling ? null : isRetrying && !isPaused ? (
+              <Button
+                mode="outlined"
+                icon="pause"
+                compact
+                onPress={() => pauseUpload(item)}
+              >
+                Pause
+              </Button>
+            ) : (
+              <Button
+                mode="contained"
+                icon={isPaused ? 'play' : 'refresh'}
+                compact
+                onPress={() => retryUpload(item)}
+                style={styles.retryButton}
+              >
+                {isPaused ? 'Resume' : 'Retry now'}
+              </Button>
+            )}
+          </View>
+        </Card.Content>
+      </Card>
+    );
+  };
+
   const renderRecord = (record: AudioRecord) => {
     const isPlaying = playingRecordId === record.id;
+    const playbackWindow = audioService.getPlaybackWindow(record);
+    const windowPosition = Math.max(0, playbackState.position - playbackWindow.start);
+    const windowDuration = (playbackWindow.end ?? playbackState.duration) - playbackWindow.start;
+    const resumePosition = getResumePosition(record);
     
     return (
       <Card key={record.id} style={styles.recordCard}>
@@ -262,6 +586,17 @@ export function AudioHistory() {
                 />
               }
             >
+              {canTranscribe && !transcripts[record.id] && (
+                <Menu.Item
+                  onPress={() => {
+                    setMenuVisible(null);
+                    transcribeRecord(record);
+                  }}
+                  title="Transcribe"
+                  leadingIcon="text-recognition"
+                  disabled={transcribingId === record.id}
+                />
+              )}
               <Menu.Item
                 onPress={() => {
                   setMenuVisible(null);
@@ -273,6 +608,39 @@ export function AudioHistory() {
             </Menu>
           </View>
 
+          {!!record.parent_rating && (
+            <View style={styles.feedbackContainer}>
+              <View style={styles.feedbackHeader}>
+                <MaterialIcons name="rate-review" size={16} color="#2196F3" />
+                <Text style={styles.feedbackTitle}>Parent Review</Text>
+                <StarRating rating={record.parent_rating} size={16} />
+              </View>
+              {getReadingQualityOption(record.reading_quality) && (
+                <Chip
+                  compact
+                  style={styles.qualityChip}
+                  textStyle={{ color: getReadingQualityOption(record.reading_quality)!.color }}
+                >
+                  {getReadingQualityOption(record.reading_quality)!.label}
+                </Chip>
+              )}
+              {!!record.parent_feedback && (
+                <Text style={styles.feedbackText}>&ldquo;{record.parent_feedback}&rdquo;</Text>
+              )}
+            </View>
+          )}
+
+          {!!transcripts[record.id] && (
+            <TranscriptView
+              transcript={transcripts[record.id]}
+              position={isPlaying ? playbackState.position : undefined}
+            />
+          )}
+
+          {transcribingId === record.id && (
+            <Text style={styles.transcribingText}>Transcribing...</Text>
+          )}
+
           <Divider style={styles.divider} />
 
           <View style={styles.recordFooter}>
@@ -285,6 +653,16 @@ export function AudioHistory() {
                   {audioService.formatFileSize(record.file_size)}
                 </Text>
               )}
+              {record.quality_score != null && (
+                <Text style={styles.metaText}>
+                  Sound {record.quality_score}/100
+                </Text>
+              )}
+              {!isPlaying && resumePosition !== undefined && (
+                <Text style={styles.resumeText}>
+                  Resume at {audioService.formatDuration(resumePosition - playbackWindow.start)}
+                </Text>
+              )}
             </View>
 
             <View style={styles.playbackControls}>
@@ -330,24 +708,57 @@ export function AudioHistory() {
           </View>
 
           {/* Playback Progress */}
-          {isPlaying && playbackState.duration > 0 && (
-            <View style={styles.progressContainer}>
-              <View 
-                style={[
-                  styles.progressBar, 
-                  { width: `${(playbackState.position / playbackState.duration) * 100}%` }
-                ]} 
+          {isPlaying && windowDuration > 0 && (
+            <View>
+              <PlaybackScrubber
+                position={windowPosition}
+                duration={windowDuration}
+                onSeek={position => seekAudio(record, position)}
+                markers={comments[record.id]?.map(comment => comment.position - playbackWindow.start)}
               />
-              <Text style={styles.progressText}>
-                {audioService.formatDuration(playbackState.position)} / {audioService.formatDuration(playbackState.duration)}
-              </Text>
+              <View style={styles.seekControls}>
+                <IconButton
+                  icon="rewind-10"
+                  size={24}
+                  iconColor="#667eea"
+                  onPress={() => seekAudio(record, windowPosition - SKIP_SECONDS)}
+                />
+                <Button compact mode="outlined" style={styles.rateButton} onPress={cyclePlaybackRate}>
+                  {playbackRate}x
+                </Button>
+                <IconButton
+                  icon="fast-forward-10"
+                  size={24}
+                  iconColor="#667eea"
+                  onPress={() => seekAudio(record, windowPosition + SKIP_SECONDS)}
+                />
+              </View>
             </View>
           )}
+
+          {(isParent || !!comments[record.id]?.length) && (
+            <RecordingComments
+              record={record}
+              comments={comments[record.id] || []}
+              position={isPlaying ? playbackState.position : undefined}
+              onSeek={position => playFrom(record, position)}
+              onTakeAudio={stopAudio}
+              onChanged={() => reloadComments(record.id)}
+            />
+          )}
         </Card.Content>
       </Card>
     );
   };
 
+  const query = searchQuery.trim().toLowerCase();
+  const filteredRecords = query
+    ? records.filter(record =>
+        record.title.toLowerCase().includes(query) ||
+        transcripts[record.id]?.text.toLowerCase().includes(query)
+      )
+    : records;
+
   if (loading) {
     return (
       <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
@@ -366,7 +777,7 @@ export function AudioHistory() {
         <View style={styles.content}>
           <Text style={styles.title}>Recording History</Text>
           
-          {records.length === 0 ? (
+          {records.length === 0 && pendingRecordings.length === 0 ? (
             <View style={styles.emptyContainer}>
               <MaterialIcons name="mic-none" size={64} color="#ffffff" style={styles.emptyIcon} />
               <Text style={styles.emptyTitle}>No Recordings Yet</Text>
@@ -382,7 +793,19 @@ export function AudioHistory() {
                 <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
               }
             >
-              {records.map(renderRecord)}
+              {records.length > 0 && (
+                <Searchbar
+                  placeholder="Search titles and transcripts"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  style={styles.searchBar}
+                />
+              )}
+              {!searchQuery.trim() && pendingRecordings.map(renderPending)}
+              {filteredRecords.map(renderRecord)}
+              {!!searchQuery.trim() && filteredRecords.length === 0 && (
+                <Text style={styles.noMatchesText}>No recordings match &ldquo;{searchQuery.trim()}&rdquo;</Text>
+              )}
             </ScrollView>
           )}
         </View>
@@ -459,6 +882,30 @@ const styles = StyleSheet.create({
   cardContent: {
     padding: 16,
   },
+  pendingCard: {
+    borderWidth: 1,
+    borderColor: '#FF9800',
+  },
+  pendingChip: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#FFF3E0',
+  },
+  pendingError: {
+    fontSize: 12,
+    color: '#e74c3c',
+    marginTop: 8,
+  },
+  uploadProgress: {
+    marginTop: 8,
+    gap: 4,
+  },
+  uploadBar: {
+    height: 6,
+    borderRadius: 3,
+  },
+  retryButton: {
+    backgroundColor: '#667eea',
+  },
   recordHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -484,6 +931,49 @@ const styles = StyleSheet.create({
     color: '#555',
     lineHeight: 20,
   },
+  feedbackContainer: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+    gap: 6,
+  },
+  feedbackHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  feedbackTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#1976D2',
+    flex: 1,
+  },
+  qualityChip: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#ffffff',
+  },
+  feedbackText: {
+    fontSize: 14,
+    color: '#333',
+    fontStyle: 'italic',
+    lineHeight: 20,
+  },
+  searchBar: {
+    borderRadius: 12,
+  },
+  noMatchesText: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  transcribingText: {
+    fontSize: 13,
+    color: '#667eea',
+    fontStyle: 'italic',
+    marginTop: 12,
+  },
   divider: {
     marginVertical: 12,
   },
@@ -501,6 +991,11 @@ const styles = StyleSheet.create({
     color: '#888',
     fontWeight: '500',
   },
+  resumeText: {
+    fontSize: 12,
+    color: '#667eea',
+    fontWeight: '500',
+  },
   playbackControls: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -508,22 +1003,13 @@ const styles = StyleSheet.create({
   playButton: {
     margin: 0,
   },
-  progressContainer: {
-    marginTop: 12,
-    height: 4,
-    backgroundColor: '#f0f0f0',
-    borderRadius: 2,
-    position: 'relative',
-  },
-  progressBar: {
-    height: 4,
-    backgroundColor: '#667eea',
-    borderRadius: 2,
+  seekControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
   },
-  progressText: {
-    fontSize: 12,
-    color: '#666',
-    textAlign: 'center',
-    marginTop: 4,
+  rateButton: {
+    minWidth: 64,
+    marginHorizontal: 8,
   },
 });
\ No newline at end of file
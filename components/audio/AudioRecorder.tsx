@@ -1,21 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text, Button, TextInput, Card, HelperText, IconButton } from 'react-native-paper';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Button, TextInput, Card, HelperText, IconButton, Chip, SegmentedButtons, ProgressBar } from 'react-native-paper';
 import { Audio } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
 import { audioService } from '../../services/audio';
 import { gamificationService } from '../../services/gamification';
+import { assignmentService } from '../../services/assignments';
+import { bookService, validatePageRange, getPagesRead } from '../../services/books';
+import { analyzeFluency, estimateWords, findSpeechBounds, MIN_SPEECH_SECONDS } from '../../services/fluency';
+import { isAlreadySaved, isSubmitCancelled, uploadQueueService } from '../../services/uploadQueue';
+import { isUploadPaused } from '../../services/resumableUpload';
+import {
+  assessQuality,
+  getLiveWarning,
+  LiveAudioWarning,
+  QUALITY_ISSUE_MESSAGES,
+  QUALITY_ISSUE_SUMMARIES,
+} from '../../services/recordingQuality';
+import { DEFAULT_RECORDING_PROFILE, getRecordingProfile, RECORDING_PROFILES } from '../../constants/RecordingProfiles';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '../ui/CustomAlert';
-import { RecordingState } from '../../types/audio';
+import { LevelUpCelebration } from '../ui/LevelUpCelebration';
+import { LevelMeter } from './LevelMeter';
+import {
+  AudioQualityReport,
+  RecordingProfileId,
+  RecordingState,
+  RecordingSubmitResult,
+  SubmitStage,
+} from '../../types/audio';
+import { ReadingAssignment } from '../../types/assignments';
+import { LevelUpEvent } from '../../types/leveling';
+import { LibraryBook } from '../../types/books';
+import { MeteringSample } from '../../types/fluency';
 
 interface AudioRecorderProps {
   onRecordingSaved: () => void;
+  assignmentId?: string;
+  bookId?: string;
+  onExitAssignment?: () => void;
 }
 
-export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
+// A recording handed to the upload queue that this screen is still following
+interface PendingSave {
+  id: string;
+  wordsPerMinute?: number;
+}
+
+const SAVE_STAGES: { stage: SubmitStage; label: string }[] = [
+  { stage: 'uploading', label: 'Upload' },
+  { stage: 'saving', label: 'Save & Points' },
+];
+
+export function AudioRecorder({ onRecordingSaved, assignmentId, bookId, onExitAssignment }: AudioRecorderProps) {
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [recordingState, setRecordingState] = useState<RecordingState>({
     isRecording: false,
@@ -27,6 +66,26 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
   const [description, setDescription] = useState('');
   const [isSaving, setIsSaving] = useState(false);
   const [titleError, setTitleError] = useState('');
+  const [assignment, setAssignment] = useState<ReadingAssignment | null>(null);
+  const [levelUp, setLevelUp] = useState<LevelUpEvent | null>(null);
+  const [readingShelf, setReadingShelf] = useState<LibraryBook[]>([]);
+  const [selectedBookId, setSelectedBookId] = useState<string | undefined>(bookId);
+  const [chapter, setChapter] = useState('');
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
+  const [pageError, setPageError] = useState('');
+  const [speechBounds, setSpeechBounds] = useState<ReturnType<typeof findSpeechBounds>>(null);
+  const [lowSpeechConfirmed, setLowSpeechConfirmed] = useState(false);
+  const [inputLevel, setInputLevel] = useState<number | null>(null);
+  const [liveWarning, setLiveWarning] = useState<LiveAudioWarning>(null);
+  const [qualityReport, setQualityReport] = useState<AudioQualityReport | null>(null);
+  const [profileId, setProfileId] = useState<RecordingProfileId>(DEFAULT_RECORDING_PROFILE);
+  const [pendingSave, setPendingSave] = useState<PendingSave | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadPaused, setUploadPaused] = useState(false);
+  const [saveStage, setSaveStage] = useState<SubmitStage>('uploading');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const meteringRef = useRef<MeteringSample[]>([]);
 
   const { user } = useAuth();
   const { showAlert, AlertModal } = useAlert();
@@ -48,10 +107,85 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
     };
   }, [recordingState.isRecording, recordingState.isPaused]);
 
+  useEffect(() => {
+    const loadShelf = async () => {
+      try {
+        const library = await bookService.getLibrary();
+        setReadingShelf(library.filter(entry => entry.status === 'reading'));
+      } catch (error: any) {
+        console.error('❌ Load reading shelf error:', error);
+      }
+    };
+
+    loadShelf();
+  }, []);
+
+  useEffect(() => {
+    audioService.getRecordingProfileId().then(setProfileId);
+  }, []);
+
+  useEffect(() => {
+    setSelectedBookId(bookId);
+  }, [bookId]);
+
+  useEffect(() => {
+    if (!pendingSave) return;
+
+    return uploadQueueService.subscribeProgress((progress) => {
+      if (progress.id === pendingSave.id) {
+        setSaveStage(progress.stage);
+        setUploadProgress(progress.total ? progress.sent / progress.total : 0);
+      }
+    });
+  }, [pendingSave]);
+
+  useEffect(() => {
+    if (!assignmentId) {
+      setAssignment(null);
+      return;
+    }
+
+    const loadAssignment = async () => {
+      try {
+        const assignmentData = await assignmentService.getAssignment(assignmentId);
+        if (assignmentData?.status === 'pending') {
+          setAssignment(assignmentData);
+          setSelectedBookId(assignmentData.book_id);
+          setTitle(`${assignmentData.book_title} - ${assignmentData.title}`);
+        } else {
+          setAssignment(null);
+        }
+      } catch (error: any) {
+        console.error('❌ Load assignment error:', error);
+      }
+    };
+
+    loadAssignment();
+  }, [assignmentId]);
+
+  const activeBookId = assignment?.book_id || selectedBookId;
+  const activeBook = readingShelf.find(entry => entry.book_id === activeBookId);
+
+  // Time spent actually reading once stopped; while recording (or without metering) the full length
+  const readingSeconds = speechBounds ? speechBounds.speech_seconds : recordingState.duration;
+  const tooLittleSpeech = !!speechBounds && speechBounds.speech_seconds < MIN_SPEECH_SECONDS;
+
+  // The queued copy has the details as they were when Save was tapped
+  const formLocked = isSaving || !!pendingSave;
+
+  // Pick up where the last session on this book stopped
+  useEffect(() => {
+    const furthestPage = activeBook?.progress.furthestPage || 0;
+    const pageCount = activeBook?.book.page_count;
+    setStartPage(furthestPage > 0 && (!pageCount || furthestPage < pageCount) ? String(furthestPage + 1) : '');
+    setEndPage('');
+    setPageError('');
+  }, [activeBook]);
+
   const initializeRecording = async () => {
     try {
       await audioService.initializeAudio();
-      const newRecording = await audioService.createRecording();
+      const newRecording = await audioService.createRecording(profileId);
       setRecording(newRecording);
       return newRecording;
     } catch (error: any) {
@@ -64,7 +198,19 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
     try {
       const newRecording = await initializeRecording();
       if (!newRecording) return;
-      
+
+      // Sample the input level for the meter, quality checks and fluency analysis;
+      // paused time is not reported
+      meteringRef.current = [];
+      newRecording.setProgressUpdateInterval(100);
+      newRecording.setOnRecordingStatusUpdate((status) => {
+        if (status.isRecording && status.metering !== undefined) {
+          meteringRef.current.push({ t: status.durationMillis / 1000, db: status.metering });
+          setInputLevel(status.metering);
+          setLiveWarning(getLiveWarning(meteringRef.current));
+        }
+      });
+
       await newRecording.startAsync();
       
       setRecordingState({
@@ -118,6 +264,11 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
         }));
         
         setRecording(null);
+        setSpeechBounds(findSpeechBounds(meteringRef.current, recordingState.duration));
+        setQualityReport(assessQuality(meteringRef.current, recordingState.duration));
+        setLowSpeechConfirmed(false);
+        setInputLevel(null);
+        setLiveWarning(null);
         console.log('⏹️ Recording stopped:', uri);
       }
     } catch (error: any) {
@@ -125,6 +276,12 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
     }
   };
 
+  const selectProfile = (value: string) => {
+    const nextProfileId = value as RecordingProfileId;
+    setProfileId(nextProfileId);
+    audioService.setRecordingProfileId(nextProfileId);
+  };
+
   const discardRecording = () => {
     setRecordingState({
       isRecording: false,
@@ -132,9 +289,16 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
       duration: 0,
       uri: undefined,
     });
-    setTitle('');
+    setTitle(assignment ? `${assignment.book_title} - ${assignment.title}` : '');
     setDescription('');
     setTitleError('');
+    setChapter('');
+    setEndPage('');
+    setPageError('');
+    setSpeechBounds(null);
+    setQualityReport(null);
+    setLowSpeechConfirmed(false);
+    meteringRef.current = [];
     console.log('🗑️ Recording discarded');
   };
 
@@ -148,7 +312,29 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
       return;
     }
 
+    const start = startPage.trim() ? Number(startPage) : undefined;
+    const end = endPage.trim() ? Number(endPage) : undefined;
+    const rangeError = activeBookId ? validatePageRange(start, end, activeBook?.book.page_count) : null;
+    if (rangeError) {
+      setPageError(rangeError);
+      return;
+    }
+
     setTitleError('');
+    setPageError('');
+
+    // Ask once before saving a recording that is mostly silence
+    if (tooLittleSpeech && !lowSpeechConfirmed) {
+      setLowSpeechConfirmed(true);
+      showAlert(
+        'We Barely Heard You 🤫',
+        assignment
+          ? 'This recording has very little reading in it. Record again, or tap Save again to send it to your parent anyway.'
+          : 'This recording has very little reading in it, so it won\'t earn points. Record again, or tap Save again to keep it anyway.'
+      );
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -156,106 +342,171 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
       console.log('📁 Recording URI:', recordingState.uri);
       console.log('⏱️ Duration:', recordingState.duration);
 
-      // Verify local file exists and has content
-      const fileInfo = await fetch(recordingState.uri);
-      if (!fileInfo.ok) {
-        throw new Error('Local recording file is not accessible');
-      }
-      
-      const blob = await fileInfo.blob();
-      console.log('📊 File size:', blob.size, 'bytes');
-      
-      if (blob.size === 0) {
-        throw new Error('Recording file is empty. Please record again.');
-      }
+      const fluency = analyzeFluency(
+        meteringRef.current,
+        recordingState.duration,
+        estimateWords({ passageText: assignment?.passage_text, pagesRead: getPagesRead(start, end) })
+      );
 
-      // Generate filename with user info for uniqueness
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const fileName = `recording-${timestamp}.m4a`;
-      console.log('📝 Generated filename:', fileName);
-
-      // Upload audio file
-      console.log('📤 Starting file upload...');
-      const filePath = await audioService.uploadAudioFile(recordingState.uri, fileName);
-      console.log('✅ Upload completed. File path:', filePath);
-
-      // Calculate points based on duration
-      const durationMinutes = Math.ceil(recordingState.duration / 60);
-      const basePoints = 10;
-      const durationBonus = Math.min(durationMinutes * 2, 20); // Max 20 bonus points
-      const totalPoints = basePoints + durationBonus;
-
-      // Save record to database
-      console.log('🎯 Starting database save process...');
-      const recordData = {
+      // Keep the recording on the device first so a failed upload never loses it
+      const pending = await uploadQueueService.enqueue({
+        uri: recordingState.uri,
         title: title.trim(),
         description: description.trim() || undefined,
-        file_path: filePath,
-        file_size: blob.size,
-        duration: recordingState.duration,
-        points_earned: totalPoints,
-      };
-      console.log('📝 Record data:', recordData);
-
-      const savedRecord = await audioService.saveAudioRecord(recordData);
-      console.log('✅ Record saved to database with ID:', savedRecord.id);
-
-      // Award points and update gamification
-      console.log('🎮 Updating gamification...');
-      await gamificationService.awardPoints(totalPoints, savedRecord.id);
-      await gamificationService.updateStreak();
-      
-      // Check for new achievements
-      const newAchievements = await gamificationService.checkAndAwardAchievements();
-      
-      let successMessage = `Great job reading! You earned ${totalPoints} points!`;
-      if (newAchievements.length > 0) {
-        successMessage += ` 🎉 You unlocked ${newAchievements.length} new achievement${newAchievements.length > 1 ? 's' : ''}!`;
-      }
+        duration: speechBounds ? speechBounds.trim_end - speechBounds.trim_start : recordingState.duration,
+        points_earned: gamificationService.calculateRecordingPoints(readingSeconds, assignment?.points_reward).totalPoints,
+        assignment_id: assignment?.id,
+        book_id: activeBookId,
+        start_page: activeBookId ? start : undefined,
+        end_page: activeBookId ? end : undefined,
+        chapter: (activeBookId && chapter.trim()) || undefined,
+        trim_start: speechBounds?.trim_start,
+        trim_end: speechBounds?.trim_end,
+        quality: qualityReport || undefined,
+        fluency: fluency || undefined,
+        profile: profileId,
+      });
 
-      // Verify the record was saved correctly
-      console.log('🔍 Verifying saved record...');
-      const verifyRecords = await audioService.getUserAudioRecords();
-      const newRecord = verifyRecords.find(r => r.id === savedRecord.id);
-      if (newRecord) {
-        console.log('✅ Record verification successful:', newRecord.title);
-      } else {
-        console.warn('⚠️ Record not found in verification check');
-      }
+      const save = { id: pending.id, wordsPerMinute: fluency?.words_per_minute };
+      setPendingSave(save);
+      await submitPending(save, uploadQueueService.submit(pending.id));
+    } catch (error: any) {
+      console.error('❌ Save recording error:', error);
+      showAlert('Save Error', error.message || 'Failed to save your recording. Please try again.');
+      setIsSaving(false);
+    }
+  };
 
-                  // Success! Show points earned
-      console.log('🎉 Success! Points earned:', totalPoints);
-      
-      // Show success confirmation with detailed info
-      const achievementText = newAchievements.length > 0 
+  // Wait for a queued recording to go through and report how it went
+  const submitPending = async (save: PendingSave, submission: Promise<RecordingSubmitResult>) => {
+    setIsSaving(true);
+    setUploadPaused(false);
+
+    // Assignments pay their fixed reward instead of the reading-time formula
+    const { basePoints, durationBonus, totalPoints } = gamificationService.calculateRecordingPoints(
+      readingSeconds,
+      assignment?.points_reward
+    );
+
+    try {
+      const result = await submission;
+      const { newAchievements, pointsEarned } = result;
+      console.log('🎉 Success! Points earned:', pointsEarned);
+
+      const achievementText = newAchievements.length > 0
         ? `\n🏆 Plus ${newAchievements.length} new achievement${newAchievements.length > 1 ? 's' : ''}!`
         : '';
-      
-      showAlert(
-        '🎉 Recording Saved Successfully!', 
-        `Great job reading! You earned ${totalPoints} points (${basePoints} base + ${durationBonus} duration bonus).${achievementText}\n\nKeep up the excellent work! 📚✨`
-      );
-      
-      // Reset form
-      discardRecording();
-      onRecordingSaved();
 
-    } catch (error: any) {
-      console.error('❌ Save recording error:', error);
-      console.error('❌ Full error object:', JSON.stringify(error, null, 2));
-      
-      // Still show success to user since recording was likely saved
-      // The error might be in secondary operations like achievements
+      // The server has the final say on points; only show the breakdown when it agrees
+      const pointsText = assignment
+        ? `You finished "${assignment.book_title}" and earned ${pointsEarned} points!`
+        : pointsEarned === totalPoints
+          ? `You earned ${pointsEarned} points (${basePoints} base + ${durationBonus} reading time bonus).`
+          : `You earned ${pointsEarned} points.`;
+
+      const streakText = result.currentStreak > 1
+        ? `\n🔥 That's a ${result.currentStreak}-day reading streak!`
+        : '';
+
+      const paceText = save.wordsPerMinute
+        ? `\n📈 You read about ${save.wordsPerMinute} words per minute.`
+        : '';
+
       showAlert(
-        '✅ Recording Saved!', 
-        `Your reading has been recorded successfully! You earned ${totalPoints} points. 🌟`
+        '🎉 Recording Saved Successfully!',
+        `Great job reading! ${pointsText}${achievementText}${streakText}${paceText}\n\nKeep up the excellent work! 📚✨`
       );
-      
-      discardRecording();
-      onRecordingSaved();
+
+      if (result.levelUp) {
+        setLevelUp(result.levelUp);
+      }
+    } catch (uploadError: any) {
+      // Paused on purpose: keep the form so the student can resume or come back later
+      if (isUploadPaused(uploadError)) {
+        setUploadPaused(true);
+        return;
+      }
+
+      // Cancelled: nothing is kept on the server, but the recording stays here to try again
+      if (isSubmitCancelled(uploadError)) {
+        clearPendingSave();
+        showAlert('Save Cancelled', 'Nothing was saved. Your recording is still here if you want to try again.');
+        return;
+      }
+
+      // Too late to cancel: the server already had it, so the queue finishes the save
+      if (isAlreadySaved(uploadError)) {
+        showAlert(
+          'Already Saved',
+          'Your reading reached the server before it could be cancelled, so it was kept. Your points will be added shortly.'
+        );
+      } else {
+        console.warn('⚠️ Upload failed, recording kept in queue:', uploadError);
+        showAlert(
+          '📥 Saved on Your Device',
+          'We could not upload your reading right now. It will upload automatically when you are back online, and your points will be added then.'
+        );
+      }
     } finally {
       setIsSaving(false);
     }
+
+    finishSave();
+  };
+
+  const pauseUpload = async () => {
+    if (!pendingSave) return;
+    try {
+      await uploadQueueService.pause(pendingSave.id);
+    } catch (error: any) {
+      console.error('❌ Pause upload error:', error);
+    }
+  };
+
+  const resumeUpload = () => {
+    if (!pendingSave) return;
+    submitPending(pendingSave, uploadQueueService.resume(pendingSave.id));
+  };
+
+  const cancelSave = async () => {
+    if (!pendingSave) return;
+    setIsCancelling(true);
+    try {
+      await uploadQueueService.cancel(pendingSave.id);
+      // A paused upload isn't running, so nothing else will report the cancel
+      if (uploadPaused) {
+        clearPendingSave();
+        showAlert('Save Cancelled', 'Nothing was saved. Your recording is still here if you want to try again.');
+      }
+    } catch (error: any) {
+      console.error('❌ Cancel save error:', error);
+      showAlert('Could Not Cancel', error.message || 'Your reading is almost saved. Please wait a moment.');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Leave a paused upload in the queue; Recording History can resume it
+  const finishUploadLater = () => {
+    finishSave();
+    showAlert(
+      '⏸️ Upload Paused',
+      'Your reading is saved on this device. Resume the upload from Recording History whenever you are ready, and your points will be added then.'
+    );
+  };
+
+  const clearPendingSave = () => {
+    setPendingSave(null);
+    setUploadPaused(false);
+    setUploadProgress(0);
+    setSaveStage('uploading');
+  };
+
+  const finishSave = () => {
+    clearPendingSave();
+    setAssignment(null);
+    discardRecording();
+    onRecordingSaved();
   };
 
   return (
@@ -267,6 +518,74 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
           
           <Card style={styles.recorderCard}>
             <Card.Content style={styles.cardContent}>
+              {/* Assignment Banner */}
+              {assignment && (
+                <View style={styles.assignmentBanner}>
+                  <MaterialIcons name="menu-book" size={20} color="#FF9800" />
+                  <View style={styles.assignmentInfo}>
+                    <Text style={styles.assignmentBook}>{assignment.book_title}</Text>
+                    <Text style={styles.assignmentMeta}>
+                      {assignment.title}
+                      {assignment.target_duration
+                        ? ` • Goal ${audioService.formatDuration(assignment.target_duration)}`
+                        : ''}
+                    </Text>
+                  </View>
+                  {!recordingState.isRecording && !formLocked && (
+                    <IconButton
+                      icon="close"
+                      size={18}
+                      onPress={() => {
+                        setAssignment(null);
+                        setTitle('');
+                        onExitAssignment?.();
+                      }}
+                    />
+                  )}
+                </View>
+              )}
+
+              {/* Book Picker */}
+              {!assignment && readingShelf.length > 0 && !recordingState.isRecording && (
+                <View style={styles.bookPicker}>
+                  <Text style={styles.bookPickerLabel}>Which book are you reading?</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.bookChips}>
+                    {readingShelf.map((entry) => (
+                      <Chip
+                        key={entry.id}
+                        icon="book"
+                        selected={entry.book_id === selectedBookId}
+                        onPress={() => {
+                          const deselect = entry.book_id === selectedBookId;
+                          setSelectedBookId(deselect ? undefined : entry.book_id);
+                          if (!deselect && !title.trim()) setTitle(entry.book.title);
+                        }}
+                        disabled={formLocked}
+                      >
+                        {entry.book.title}
+                      </Chip>
+                    ))}
+                  </ScrollView>
+                </View>
+              )}
+
+              {/* Recording Quality */}
+              {!recordingState.isRecording && !recordingState.uri && (
+                <View style={styles.profilePicker}>
+                  <SegmentedButtons
+                    value={profileId}
+                    onValueChange={selectProfile}
+                    buttons={RECORDING_PROFILES.map(profile => ({
+                      value: profile.id,
+                      label: profile.label,
+                    }))}
+                  />
+                  <Text style={styles.profileDescription}>
+                    {getRecordingProfile(profileId).description}
+                  </Text>
+                </View>
+              )}
+
               {/* Recording Status */}
               <View style={styles.statusContainer}>
                 <View style={[
@@ -287,12 +606,56 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
                 {audioService.formatDuration(recordingState.duration)}
               </Text>
 
+              {/* Target Duration Progress */}
+              {!!assignment?.target_duration && recordingState.duration > 0 && (
+                <Text style={[
+                  styles.targetText,
+                  recordingState.duration >= assignment.target_duration && styles.targetReached,
+                ]}>
+                  {recordingState.duration >= assignment.target_duration
+                    ? '🎯 Reading goal reached!'
+                    : `${audioService.formatDuration(assignment.target_duration - recordingState.duration)} left to reach your goal`}
+                </Text>
+              )}
+
+              {/* Live Level Meter */}
+              {recordingState.isRecording && !recordingState.isPaused && inputLevel !== null && (
+                <>
+                  <LevelMeter level={inputLevel} />
+                  {!!liveWarning && (
+                    <View style={styles.liveWarning}>
+                      <MaterialIcons name="warning" size={18} color="#e67e22" />
+                      <Text style={styles.liveWarningText}>{QUALITY_ISSUE_MESSAGES[liveWarning]}</Text>
+                    </View>
+                  )}
+                </>
+              )}
+
+              {/* Sound Quality */}
+              {!!qualityReport && !recordingState.isRecording && (
+                <View style={styles.qualitySummary}>
+                  <Text style={styles.qualityScore}>Sound quality: {qualityReport.score}/100</Text>
+                  {qualityReport.issues.map((issue) => (
+                    <Text key={issue} style={styles.qualityIssue}>• {QUALITY_ISSUE_SUMMARIES[issue]}</Text>
+                  ))}
+                </View>
+              )}
+
+              {/* Speech Detected */}
+              {!!speechBounds && !recordingState.isRecording && (
+                <Text style={[styles.speechText, tooLittleSpeech && styles.speechWarning]}>
+                  {tooLittleSpeech
+                    ? `Only ${Math.round(speechBounds.speech_seconds)}s of reading heard. Read out loud, close to the microphone.`
+                    : `🗣️ ${audioService.formatDuration(speechBounds.speech_seconds)} of reading • quiet start and end trimmed`}
+                </Text>
+              )}
+
               {/* Points Preview */}
               {recordingState.duration > 0 && (
                 <View style={styles.pointsPreview}>
                   <MaterialIcons name="star" size={20} color="#FFD700" />
                   <Text style={styles.pointsText}>
-                    {10 + Math.min(Math.ceil(recordingState.duration / 60) * 2, 20)} points
+                    {gamificationService.calculateRecordingPoints(readingSeconds, assignment?.points_reward).totalPoints} points
                   </Text>
                 </View>
               )}
@@ -347,7 +710,7 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
                   </>
                 )}
 
-                {recordingState.uri && (
+                {recordingState.uri && !pendingSave && (
                   <IconButton
                     icon="delete"
                     size={36}
@@ -368,12 +731,50 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
                     mode="outlined"
                     style={styles.input}
                     error={!!titleError}
-                    disabled={isSaving}
+                    disabled={formLocked}
                   />
                   <HelperText type="error" visible={!!titleError}>
                     {titleError}
                   </HelperText>
 
+                  {!!activeBookId && (
+                    <>
+                      <TextInput
+                        label="Chapter (Optional)"
+                        value={chapter}
+                        onChangeText={setChapter}
+                        mode="outlined"
+                        style={styles.input}
+                        disabled={formLocked}
+                      />
+                      <View style={styles.pageRow}>
+                        <TextInput
+                          label="From page"
+                          value={startPage}
+                          onChangeText={setStartPage}
+                          mode="outlined"
+                          keyboardType="number-pad"
+                          style={[styles.input, styles.pageInput]}
+                          error={!!pageError}
+                          disabled={formLocked}
+                        />
+                        <TextInput
+                          label={activeBook?.book.page_count ? `To page (of ${activeBook.book.page_count})` : 'To page'}
+                          value={endPage}
+                          onChangeText={setEndPage}
+                          mode="outlined"
+                          keyboardType="number-pad"
+                          style={[styles.input, styles.pageInput]}
+                          error={!!pageError}
+                          disabled={formLocked}
+                        />
+                      </View>
+                      <HelperText type="error" visible={!!pageError}>
+                        {pageError}
+                      </HelperText>
+                    </>
+                  )}
+
                   <TextInput
                     label="Notes about your reading (Optional)"
                     value={description}
@@ -382,20 +783,75 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
                     multiline
                     numberOfLines={3}
                     style={styles.input}
-                    disabled={isSaving}
+                    disabled={formLocked}
                   />
 
-                  <Button
-                    mode="contained"
-                    onPress={validateAndSave}
-                    loading={isSaving}
-                    disabled={isSaving}
-                    style={styles.saveButton}
-                    contentStyle={styles.buttonContent}
-                    icon="content-save"
-                  >
-                    Save Reading & Earn Points
-                  </Button>
+                  {pendingSave ? (
+                    <View style={styles.uploadPanel}>
+                      <View style={styles.stageRow}>
+                        {SAVE_STAGES.map(({ stage, label }, index) => {
+                          const currentIndex = SAVE_STAGES.findIndex(entry => entry.stage === saveStage);
+                          return (
+                            <Text
+                              key={stage}
+                              style={[
+                                styles.stageLabel,
+                                index < currentIndex && styles.stageDone,
+                                index === currentIndex && styles.stageCurrent,
+                              ]}
+                            >
+                              {index < currentIndex ? '✓ ' : ''}{label}
+                            </Text>
+                          );
+                        })}
+                      </View>
+                      <Text style={styles.uploadText}>
+                        {saveStage === 'uploading'
+                          ? `${uploadPaused ? 'Upload paused at' : 'Uploading your reading...'} ${Math.round(uploadProgress * 100)}%`
+                          : 'Saving your reading and adding your points...'}
+                      </Text>
+                      <ProgressBar
+                        progress={uploadProgress}
+                        indeterminate={saveStage !== 'uploading' && !uploadPaused}
+                        color="#667eea"
+                        style={styles.uploadBar}
+                      />
+                      <View style={styles.uploadActions}>
+                        {/* Once the reading session is submitted the save can't be undone */}
+                        {saveStage === 'uploading' && (
+                          <Button mode="text" onPress={cancelSave} loading={isCancelling} disabled={isCancelling} icon="close">
+                            Cancel
+                          </Button>
+                        )}
+                        {uploadPaused ? (
+                          <>
+                            <Button mode="outlined" onPress={finishUploadLater} disabled={isCancelling} icon="clock-outline">
+                              Later
+                            </Button>
+                            <Button mode="contained" onPress={resumeUpload} disabled={isCancelling} icon="play">
+                              Resume
+                            </Button>
+                          </>
+                        ) : saveStage === 'uploading' && (
+                          <Button mode="outlined" onPress={pauseUpload} disabled={isCancelling} icon="pause">
+                            Pause
+                          </Button>
+                        )}
+                      </View>
+                    </View>
+                  ) : (
+                    <Button
+                      mode="contained"
+                      onPress={validateAndSave}
+                      loading={isSaving}
+                      disabled={formLocked}
+                      style={styles.saveButton}
+                      contentStyle={styles.buttonContent}
+                      icon="content-save"
+                    >
+                      Save Reading & Earn Points
+                    </Button>
+                  )}
                 </View>
               )}
             </Card.Content>
@@ -407,7 +863,7 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
               <Text style={styles.tipsTitle}>📖 Reading Tips</Text>
               <Text style={styles.tipsText}>
                 • Read clearly and at a comfortable pace{'\n'}
-                • Longer recordings earn more bonus points{'\n'}
+                • More time reading earns more bonus points{'\n'}
                 • Read daily to maintain your streak!{'\n'}
                 • Maximum bonus: 20 points per recording
               </Text>
@@ -416,6 +872,7 @@ export function AudioRecorder({ onRecordingSaved }: AudioRecorderProps) {
         </View>
       </SafeAreaView>
       <AlertModal />
+      <LevelUpCelebration levelUp={levelUp} onDismiss={() => setLevelUp(null)} />
     </LinearGradient>
   );
 }
@@ -458,6 +915,91 @@ const styles = StyleSheet.create({
     padding: 32,
     alignItems: 'center',
   },
+  assignmentBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    backgroundColor: '#FFF3E0',
+    borderRadius: 8,
+    paddingLeft: 12,
+    marginBottom: 16,
+  },
+  bookPicker: {
+    alignSelf: 'stretch',
+    marginBottom: 16,
+  },
+  bookPickerLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  bookChips: {
+    gap: 8,
+  },
+  assignmentInfo: {
+    flex: 1,
+    marginLeft: 8,
+    paddingVertical: 8,
+  },
+  assignmentBook: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  assignmentMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  targetText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  liveWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#FFF3E0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  liveWarningText: {
+    fontSize: 13,
+    color: '#e67e22',
+    fontWeight: 'bold',
+    flexShrink: 1,
+  },
+  qualitySummary: {
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  qualityScore: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  qualityIssue: {
+    fontSize: 12,
+    color: '#e67e22',
+    textAlign: 'center',
+  },
+  speechText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  speechWarning: {
+    color: '#e74c3c',
+    fontWeight: 'bold',
+  },
+  targetReached: {
+    color: '#27ae60',
+    fontWeight: 'bold',
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -539,6 +1081,56 @@ const styles = StyleSheet.create({
   input: {
     backgroundColor: 'white',
   },
+  pageRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pageInput: {
+    flex: 1,
+  },
+  profilePicker: {
+    width: '100%',
+    marginBottom: 16,
+    gap: 6,
+  },
+  profileDescription: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+  },
+  uploadPanel: {
+    marginTop: 8,
+    gap: 8,
+  },
+  uploadText: {
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'center',
+  },
+  uploadBar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  stageRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  stageLabel: {
+    fontSize: 13,
+    color: '#999',
+  },
+  stageDone: {
+    color: '#4CAF50',
+  },
+  stageCurrent: {
+    color: '#667eea',
+    fontWeight: 'bold',
+  },
+  uploadActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 12,
+  },
   saveButton: {
     marginTop: 16,
     backgroundColor: '#27ae60',
@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { CLIPPING_DB, QUIET_SPEECH_DB } from '../../services/recordingQuality';
+import { SILENCE_THRESHOLD_DB } from '../../services/fluency';
+
+interface LevelMeterProps {
+  // Current input level in dBFS
+  level: number;
+}
+
+// The meter spans -60 dB (empty) to 0 dB (full)
+const FLOOR_DB = -60;
+
+const toFraction = (db: number) => Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+
+const getLevelColor = (db: number) => {
+  if (db >= CLIPPING_DB) return '#e74c3c';
+  if (db >= QUIET_SPEECH_DB) return '#27ae60';
+  if (db > SILENCE_THRESHOLD_DB) return '#f39c12';
+  return '#bdc3c7';
+};
+
+export function LevelMeter({ level }: LevelMeterProps) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Mic level</Text>
+      <View style={styles.track}>
+        <View style={[styles.goodZone, { left: `${toFraction(QUIET_SPEECH_DB) * 100}%` }]} />
+        <View
+          style={[
+            styles.fill,
+            { width: `${toFraction(level) * 100}%`, backgroundColor: getLevelColor(level) },
+          ]}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  track: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  goodZone: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: `${(1 - toFraction(CLIPPING_DB)) * 100}%`,
+    backgroundColor: '#E8F5E9',
+  },
+  fill: {
+    height: 10,
+    borderRadius: 5,
+  },
+});
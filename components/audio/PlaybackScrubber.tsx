@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import { Text } from 'react-native-paper';
+import { audioService } from '../../services/audio';
+
+interface PlaybackScrubberProps {
+  // Seconds into the part being played
+  position: number;
+  duration: number;
+  onSeek: (position: number) => void;
+  // Positions to flag on the track, such as comments
+  markers?: number[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Tap or drag along the track to seek. The sound only moves on release so
+// dragging doesn't flood it with seeks; the label follows the finger meanwhile.
+export function PlaybackScrubber({ position, duration, onSeek, markers = [] }: PlaybackScrubberProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const positionAt = (event: GestureResponderEvent) =>
+    trackWidth > 0 ? clamp(event.nativeEvent.locationX / trackWidth, 0, 1) * duration : 0;
+
+  const shownPosition = clamp(dragPosition ?? position, 0, duration);
+  const fraction = duration > 0 ? shownPosition / duration : 0;
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={styles.touchArea}
+        onLayout={(event: LayoutChangeEvent) => setTrackWidth(event.nativeEvent.layout.width)}
+        onStartShouldSetResponder={() => duration > 0}
+        onMoveShouldSetResponder={() => duration > 0}
+        onResponderTerminationRequest={() => false}
+        onResponderGrant={event => setDragPosition(positionAt(event))}
+        onResponderMove={event => setDragPosition(positionAt(event))}
+        onResponderRelease={event => {
+          onSeek(positionAt(event));
+          setDragPosition(null);
+        }}
+        onResponderTerminate={() => setDragPosition(null)}
+      >
+        <View style={styles.track} pointerEvents="none">
+          <View style={[styles.fill, { width: `${fraction * 100}%` }]} />
+        </View>
+        {duration > 0 && markers.filter(marker => marker >= 0 && marker <= duration).map((marker, index) => (
+          <View
+            key={index}
+            style={[styles.marker, { left: `${(marker / duration) * 100}%` }]}
+            pointerEvents="none"
+          />
+        ))}
+        <View
+          style={[styles.thumb, dragPosition !== null && styles.thumbActive, { left: `${fraction * 100}%` }]}
+          pointerEvents="none"
+        />
+      </View>
+      <View style={styles.labels}>
+        <Text style={styles.label}>{audioService.formatDuration(shownPosition)}</Text>
+        <Text style={styles.label}>{audioService.formatDuration(duration)}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  touchArea: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#f0f0f0',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: '#667eea',
+  },
+  marker: {
+    position: 'absolute',
+    width: 4,
+    height: 12,
+    borderRadius: 2,
+    marginLeft: -2,
+    backgroundColor: '#f39c12',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    marginLeft: -7,
+    backgroundColor: '#667eea',
+  },
+  thumbActive: {
+    transform: [{ scale: 1.3 }],
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 12,
+    color: '#666',
+  },
+});
@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Button, TextInput, IconButton } from 'react-native-paper';
+import { Audio } from 'expo-av';
+import { MaterialIcons } from '@expo/vector-icons';
+import { audioService } from '../../services/audio';
+import { commentService } from '../../services/comments';
+import { useAuth } from '../../hooks/useAuth';
+import { useAlert } from '../ui/CustomAlert';
+import { AudioRecord } from '../../types/audio';
+import { CommentThread, RecordingComment, SectionClip } from '../../types/comments';
+
+interface RecordingCommentsProps {
+  record: AudioRecord;
+  comments: CommentThread[];
+  // Playback position in seconds into the file, or undefined when this recording isn't playing
+  position?: number;
+  onSeek: (position: number) => void;
+  // Called before a clip plays or a section is recorded, so the recording itself can stop
+  onTakeAudio: () => void;
+  onChanged: () => void;
+}
+
+// A comment counts as current while playback is this close to it
+const CURRENT_COMMENT_SECONDS = 2;
+
+export function RecordingComments({ record, comments, position, onSeek, onTakeAudio, onChanged }: RecordingCommentsProps) {
+  const { user } = useAuth();
+  const isParent = user?.role === 'parent';
+  const windowStart = audioService.getPlaybackWindow(record).start;
+
+  const [draftPosition, setDraftPosition] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyDraft, setReplyDraft] = useState('');
+  const [sectionRecording, setSectionRecording] = useState<Audio.Recording | null>(null);
+  const [sectionSeconds, setSectionSeconds] = useState(0);
+  const [clip, setClip] = useState<SectionClip | null>(null);
+  const [clipSound, setClipSound] = useState<Audio.Sound | null>(null);
+  const [playingClipPath, setPlayingClipPath] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  // Unload the previous clip whenever it is replaced or the comments unmount
+  useEffect(() => {
+    return () => {
+      clipSound?.unloadAsync();
+    };
+  }, [clipSound]);
+
+  const formatTime = (seconds: number) => audioService.formatDuration(Math.max(0, seconds - windowStart));
+
+  const postComment = async () => {
+    if (draftPosition === null) return;
+    setSending(true);
+    try {
+      await commentService.addComment(record, draftPosition, draft);
+      setDraft('');
+      setDraftPosition(null);
+      onChanged();
+    } catch (error: any) {
+      console.error('❌ Post comment error:', error);
+      showAlert('Error', error.message || 'Failed to save comment');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const openReply = (comment: RecordingComment) => {
+    setReplyingTo(replyingTo === comment.id ? null : comment.id);
+    setReplyDraft('');
+    setClip(null);
+  };
+
+  const startSectionRecording = async () => {
+    try {
+      onTakeAudio();
+      await audioService.initializeAudio();
+      const newRecording = await audioService.createRecording(await audioService.getRecordingProfileId());
+      newRecording.setOnRecordingStatusUpdate((status) => {
+        if (status.isRecording) setSectionSeconds(status.durationMillis / 1000);
+      });
+      await newRecording.startAsync();
+      setClip(null);
+      setSectionSeconds(0);
+      setSectionRecording(newRecording);
+      console.log('🎤 Section re-record started');
+    } catch (error: any) {
+      console.error('❌ Start section recording error:', error);
+      showAlert('Recording Error', 'Could not start recording');
+    }
+  };
+
+  const stopSectionRecording = async () => {
+    try {
+      if (!sectionRecording) return;
+      await sectionRecording.stopAndUnloadAsync();
+      const uri = sectionRecording.getURI();
+      setSectionRecording(null);
+      if (uri) setClip({ uri, duration: sectionSeconds });
+      console.log('⏹️ Section re-record stopped:', uri);
+    } catch (error: any) {
+      console.error('❌ Stop section recording error:', error);
+    }
+  };
+
+  const sendReply = async (comment: RecordingComment) => {
+    setSending(true);
+    try {
+      await commentService.reply(comment, replyDraft, clip || undefined);
+      setReplyingTo(null);
+      setReplyDraft('');
+      setClip(null);
+      onChanged();
+    } catch (error: any) {
+      console.error('❌ Send reply error:', error);
+      showAlert('Error', error.message || 'Failed to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const deleteComment = async (comment: RecordingComment) => {
+    try {
+      await commentService.deleteComment(comment);
+      onChanged();
+    } catch (error: any) {
+      console.error('❌ Delete comment error:', error);
+      showAlert('Error', 'Failed to delete comment');
+    }
+  };
+
+  const toggleClip = async (path: string, uri?: string) => {
+    try {
+      if (clipSound && playingClipPath === path) {
+        setClipSound(null);
+        setPlayingClipPath(null);
+        return;
+      }
+
+      onTakeAudio();
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        playThroughEarpieceAndroid: false,
+        shouldDuckAndroid: true,
+        staysActiveInBackground: false,
+      });
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: uri || await audioService.getAudioFileUrl(path) },
+        { shouldPlay: true }
+      );
+      sound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded && status.didJustFinish) {
+          setPlayingClipPath(null);
+        }
+      });
+      setClipSound(sound);
+      setPlayingClipPath(path);
+    } catch (error: any) {
+      console.error('❌ Play clip error:', error);
+      showAlert('Playback Error', 'Failed to play this clip');
+    }
+  };
+
+  const renderClipButton = (path: string, duration: number | null, uri?: string) => (
+    <Button
+      compact
+      mode="outlined"
+      icon={playingClipPath === path ? 'stop' : 'play'}
+      style={styles.clipButton}
+      onPress={() => toggleClip(path, uri)}
+    >
+      Section re-read{duration ? ` (${audioService.formatDuration(duration)})` : ''}
+    </Button>
+  );
+
+  const renderReplyForm = (comment: CommentThread) => (
+    <View style={styles.replyForm}>
+      <TextInput
+        label="Your reply"
+        value={replyDraft}
+        onChangeText={setReplyDraft}
+        mode="outlined"
+        dense
+        multiline
+        style={styles.input}
+      />
+      <View style={styles.replyActions}>
+        {sectionRecording ? (
+          <Button compact mode="contained" icon="stop" buttonColor="#e74c3c" onPress={stopSectionRecording}>
+            Stop {audioService.formatDuration(sectionSeconds)}
+          </Button>
+        ) : clip ? (
+          <View style={styles.clipRow}>
+            {renderClipButton(clip.uri, clip.duration, clip.uri)}
+            <IconButton icon="close" size={18} onPress={() => setClip(null)} />
+          </View>
+        ) : (
+          <Button compact mode="outlined" icon="microphone" onPress={startSectionRecording}>
+            Re-record section
+          </Button>
+        )}
+        <Button
+          compact
+          mode="contained"
+          icon="send"
+          onPress={() => sendReply(comment)}
+          loading={sending}
+          disabled={sending || !!sectionRecording || (!replyDraft.trim() && !clip)}
+        >
+          Send
+        </Button>
+      </View>
+    </View>
+  );
+
+  const renderComment = (comment: CommentThread) => {
+    const isCurrent = position !== undefined && Math.abs(position - comment.position) < CURRENT_COMMENT_SECONDS;
+
+    return (
+      <View key={comment.id} style={[styles.comment, isCurrent && styles.currentComment]}>
+        <View style={styles.commentHeader}>
+          <Button compact icon="map-marker" onPress={() => onSeek(comment.position)}>
+            {formatTime(comment.position)}
+          </Button>
+          <Text style={styles.commentBody}>{comment.body}</Text>
+          {comment.author_id === user?.id && (
+            <IconButton icon="delete-outline" size={18} onPress={() => deleteComment(comment)} />
+          )}
+        </View>
+
+        {comment.replies.map(reply => (
+          <View key={reply.id} style={styles.reply}>
+            <MaterialIcons name="subdirectory-arrow-right" size={16} color="#999" />
+            <View style={styles.replyContent}>
+              {!!reply.body && <Text style={styles.replyBody}>{reply.body}</Text>}
+              {!!reply.clip_path && renderClipButton(reply.clip_path, reply.clip_duration)}
+            </View>
+            {reply.author_id === user?.id && (
+              <IconButton icon="delete-outline" size={16} onPress={() => deleteComment(reply)} />
+            )}
+          </View>
+        ))}
+
+        {!isParent && record.user_id === user?.id && (
+          replyingTo === comment.id ? renderReplyForm(comment) : (
+            <Button compact icon="reply" style={styles.replyButton} onPress={() => openReply(comment)}>
+              Reply
+            </Button>
+          )
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {comments.length > 0 && <Text style={styles.label}>Comments</Text>}
+      {comments.map(renderComment)}
+
+      {isParent && (
+        draftPosition !== null ? (
+          <View style={styles.replyForm}>
+            <TextInput
+              label={`Comment at ${formatTime(draftPosition)}`}
+              value={draft}
+              onChangeText={setDraft}
+              mode="outlined"
+              dense
+              multiline
+              style={styles.input}
+            />
+            <View style={styles.replyActions}>
+              <Button compact onPress={() => setDraftPosition(null)}>Cancel</Button>
+              <Button
+                compact
+                mode="contained"
+                icon="send"
+                onPress={postComment}
+                loading={sending}
+                disabled={sending || !draft.trim()}
+              >
+                Post
+              </Button>
+            </View>
+          </View>
+        ) : position !== undefined ? (
+          <Button compact icon="comment-plus-outline" style={styles.replyButton} onPress={() => setDraftPosition(position)}>
+            Comment at {formatTime(position)}
+          </Button>
+        ) : (
+          <Text style={styles.hintText}>Play the recording to comment on a moment in it.</Text>
+        )
+      )}
+
+      <AlertModal />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#666',
+    marginBottom: 4,
+  },
+  comment: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#f39c12',
+    backgroundColor: '#FFF8E1',
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingRight: 4,
+    marginBottom: 8,
+  },
+  currentComment: {
+    backgroundColor: '#FFE0B2',
+  },
+  commentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  commentBody: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  reply: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: 16,
+    gap: 6,
+  },
+  replyContent: {
+    flex: 1,
+    gap: 4,
+  },
+  replyBody: {
+    fontSize: 13,
+    color: '#555',
+  },
+  replyButton: {
+    alignSelf: 'flex-start',
+  },
+  replyForm: {
+    paddingHorizontal: 8,
+    paddingBottom: 4,
+    gap: 8,
+  },
+  replyActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  clipButton: {
+    alignSelf: 'flex-start',
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { findWordAt } from '../../services/transcription';
+import { RecordingTranscript } from '../../types/transcription';
+
+interface TranscriptViewProps {
+  transcript: RecordingTranscript;
+  // Playback position in seconds, or undefined when this recording isn't playing
+  position?: number;
+  // Words shown before "Show more"
+  previewWords?: number;
+}
+
+export function TranscriptView({ transcript, position, previewWords = 40 }: TranscriptViewProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!transcript.text.trim()) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.emptyText}>No speech was recognized in this recording.</Text>
+      </View>
+    );
+  }
+
+  const words = transcript.words.length > 0
+    ? transcript.words
+    : transcript.text.split(/\s+/).filter(Boolean).map(word => ({ word, start: 0, end: 0 }));
+  const currentIndex = position !== undefined ? findWordAt(words, position) : -1;
+
+  // Follow along while playing so the highlighted word is always visible
+  const showAll = expanded || currentIndex >= previewWords;
+  const shown = showAll ? words : words.slice(0, previewWords);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Transcript</Text>
+      <Text style={styles.text}>
+        {shown.map((word, index) => (
+          <Text key={index} style={index === currentIndex ? styles.currentWord : undefined}>
+            {word.word}{index < shown.length - 1 ? ' ' : ''}
+          </Text>
+        ))}
+        {!showAll && '…'}
+      </Text>
+      {words.length > previewWords && (
+        <Text style={styles.toggle} onPress={() => setExpanded(!expanded)}>
+          {showAll ? 'Show less' : 'Show more'}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#F5F5F5',
+    borderRadius: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#667eea',
+    marginBottom: 4,
+  },
+  text: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 22,
+  },
+  currentWord: {
+    backgroundColor: '#FFE082',
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#888',
+    fontStyle: 'italic',
+  },
+  toggle: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#667eea',
+    marginTop: 6,
+  },
+});
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { TextInput, Button, Text, HelperText } from 'react-native-paper';
+import { TextInput, Button, Text, HelperText, SegmentedButtons } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '../ui/CustomAlert';
+import { UserRole } from '../../types/auth';
 
 export function AuthForm() {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -13,6 +14,7 @@ export function AuthForm() {
     password: '',
     full_name: '',
   });
+  const [role, setRole] = useState<UserRole>('student');
   const [errors, setErrors] = useState<Record<string, string>>({});
   
   const { signIn, signUp, loading } = useAuth();
@@ -51,6 +53,7 @@ export function AuthForm() {
           email: formData.email.trim(),
           password: formData.password,
           full_name: formData.full_name.trim(),
+          role,
         });
         showAlert(
           'Account Created Successfully!', 
@@ -95,6 +98,7 @@ export function AuthForm() {
   const toggleAuthMode = () => {
     setIsSignUp(!isSignUp);
     setFormData({ email: '', password: '', full_name: '' });
+    setRole('student');
     setErrors({});
   };
 
@@ -131,6 +135,16 @@ export function AuthForm() {
                   <HelperText type="error" visible={!!errors.full_name}>
                     {errors.full_name}
                   </HelperText>
+
+                  <SegmentedButtons
+                    value={role}
+                    onValueChange={(value) => setRole(value as UserRole)}
+                    buttons={[
+                      { value: 'student', label: 'I am a reader', icon: 'book-open-variant' },
+                      { value: 'parent', label: 'I am a parent', icon: 'account-child' },
+                    ]}
+                    style={styles.roleSelector}
+                  />
                 </>
               )}
 
@@ -237,6 +251,9 @@ const styles = StyleSheet.create({
   input: {
     backgroundColor: 'white',
   },
+  roleSelector: {
+    marginBottom: 12,
+  },
   submitButton: {
     marginTop: 16,
     backgroundColor: '#667eea',
@@ -0,0 +1,418 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Image } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText, IconButton } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { bookService } from '../../services/books';
+import { bookLookupService } from '../../services/bookLookup';
+import { gamificationService } from '../../services/gamification';
+import { useAlert } from '../ui/CustomAlert';
+import { IsbnScanner } from './IsbnScanner';
+import { BookShelf, LibraryBook } from '../../types/books';
+
+const SHELVES: { value: BookShelf; label: string; empty: string }[] = [
+  { value: 'reading', label: '📖 Currently Reading', empty: 'Add a book you are reading to start your shelf.' },
+  { value: 'finished', label: '✅ Finished', empty: 'Books you finish will show up here.' },
+];
+
+const emptyForm = {
+  title: '',
+  author: '',
+  page_count: '',
+  reading_level: '',
+  isbn: '',
+  cover_url: '',
+};
+
+export function BookLibrary() {
+  const [library, setLibrary] = useState<LibraryBook[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupNote, setLookupNote] = useState('');
+
+  const router = useRouter();
+  const { showAlert, AlertModal } = useAlert();
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadLibrary();
+    }, [])
+  );
+
+  const loadLibrary = async () => {
+    try {
+      setLibrary(await bookService.getLibrary());
+    } catch (error: any) {
+      console.error('❌ Load library error:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setFormError('');
+    setLookupNote('');
+    setShowForm(false);
+  };
+
+  // Fill the form from the scanned ISBN; the reader checks it before saving
+  const handleScanned = async (code: string) => {
+    setScanning(false);
+    setLookingUp(true);
+    try {
+      const { book, source } = await bookLookupService.lookup(code);
+      setFormData({
+        title: book.title || '',
+        author: book.author || '',
+        page_count: book.page_count ? String(book.page_count) : '',
+        reading_level: book.reading_level || '',
+        isbn: book.isbn || '',
+        cover_url: book.cover_url || '',
+      });
+      setFormError('');
+      setLookupNote(source
+        ? `Found in ${source}. Check the details, then add it.`
+        : 'We could not find this book. Type in its title to add it.');
+      setShowForm(true);
+    } catch (error: any) {
+      console.error('❌ ISBN lookup error:', error);
+      showAlert('Scan Error', error.message || 'Failed to read that barcode');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const addBook = async () => {
+    const pages = Number(formData.page_count);
+    if (!formData.title.trim()) {
+      setFormError('Book title is required');
+      return;
+    }
+    if (formData.page_count && (!Number.isInteger(pages) || pages <= 0)) {
+      setFormError('Pages must be a whole number');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const book = await bookService.findOrCreateBook({
+        title: formData.title,
+        author: formData.author,
+        page_count: pages || undefined,
+        reading_level: formData.reading_level,
+        isbn: formData.isbn,
+        cover_url: formData.cover_url,
+      });
+      await bookService.addToLibrary(book.id);
+      resetForm();
+      await loadLibrary();
+    } catch (error: any) {
+      console.error('❌ Add book error:', error);
+      showAlert('Error', error.message || 'Failed to add this book');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const moveBook = async (entry: LibraryBook) => {
+    const status: BookShelf = entry.status === 'reading' ? 'finished' : 'reading';
+    try {
+      await bookService.setShelf(entry.id, status);
+      await loadLibrary();
+
+      if (status === 'finished') {
+        const unlocked = await gamificationService.checkAndAwardAchievements(['book_finished']);
+        showAlert(
+          '🎉 Book Finished!',
+          unlocked.length > 0
+            ? `You finished "${entry.book.title}" and unlocked ${unlocked.map(a => a.name).join(', ')}!`
+            : `You finished "${entry.book.title}". Great reading!`
+        );
+      }
+    } catch (error: any) {
+      console.error('❌ Move book error:', error);
+      showAlert('Error', 'Failed to update your bookshelf');
+    }
+  };
+
+  const readBook = (entry: LibraryBook) => {
+    router.push({
+      pathname: '/(tabs)/recorder',
+      params: { bookId: entry.book_id },
+    });
+  };
+
+  const formatProgress = (entry: LibraryBook) => {
+    if (entry.progress.sessions === 0) return 'Not read aloud yet';
+    const sessions = `${entry.progress.sessions} session${entry.progress.sessions === 1 ? '' : 's'}`;
+    const minutes = `${Math.max(1, Math.round(entry.progress.totalSeconds / 60))} min`;
+    return entry.progress.completion !== null
+      ? `${sessions} • ${minutes} • ${Math.round(entry.progress.completion * 100)}%`
+      : `${sessions} • ${minutes}`;
+  };
+
+  return (
+    <View style={styles.container}>
+      {SHELVES.map((shelf) => {
+        const books = library.filter(entry => entry.status === shelf.value);
+        return (
+          <View key={shelf.value}>
+            <Text style={styles.shelfTitle}>{shelf.label} ({books.length})</Text>
+            {books.length === 0 ? (
+              <Text style={styles.shelfEmpty}>{shelf.empty}</Text>
+            ) : (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.shelfRow}
+              >
+                {books.map((entry) => (
+                  <Card key={entry.id} style={styles.bookCard}>
+                    <Card.Content style={styles.bookContent}>
+                      {entry.book.cover_url ? (
+                        <Image source={{ uri: entry.book.cover_url }} style={styles.cover} />
+                      ) : (
+                        <View style={[styles.cover, styles.coverPlaceholder]}>
+                          <MaterialIcons name="menu-book" size={32} color="#FF9800" />
+                        </View>
+                      )}
+                      <Text style={styles.bookTitle} numberOfLines={2}>{entry.book.title}</Text>
+                      {!!entry.book.author && (
+                        <Text style={styles.bookAuthor} numberOfLines={1}>{entry.book.author}</Text>
+                      )}
+                      <Text style={styles.bookProgress}>{formatProgress(entry)}</Text>
+                      <View style={styles.bookActions}>
+                        {entry.status === 'reading' && (
+                          <IconButton icon="microphone" size={18} onPress={() => readBook(entry)} />
+                        )}
+                        <IconButton
+                          icon={entry.status === 'reading' ? 'check' : 'book-open-variant'}
+                          size={18}
+                          onPress={() => moveBook(entry)}
+                        />
+                      </View>
+                    </Card.Content>
+                  </Card>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        );
+      })}
+
+      {showForm ? (
+        <Card style={styles.formCard}>
+          <Card.Content style={styles.form}>
+            {!!lookupNote && (
+              <View style={styles.lookupNote}>
+                {!!formData.cover_url && (
+                  <Image source={{ uri: formData.cover_url }} style={styles.lookupCover} />
+                )}
+                <Text style={styles.lookupText}>{lookupNote}</Text>
+              </View>
+            )}
+            <TextInput
+              label="Book Title"
+              value={formData.title}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, title: text }))}
+              mode="outlined"
+              style={styles.input}
+              error={!!formError && !formData.title.trim()}
+            />
+            <TextInput
+              label="Author (Optional)"
+              value={formData.author}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, author: text }))}
+              mode="outlined"
+              style={styles.input}
+            />
+            <View style={styles.inputRow}>
+              <TextInput
+                label="Pages"
+                value={formData.page_count}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, page_count: text }))}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={[styles.input, styles.flexInput]}
+              />
+              <TextInput
+                label="Reading Level"
+                value={formData.reading_level}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, reading_level: text }))}
+                mode="outlined"
+                style={[styles.input, styles.flexInput]}
+              />
+            </View>
+            <TextInput
+              label="ISBN (Optional)"
+              value={formData.isbn}
+              onChangeText={(text) => setFormData(prev => ({ ...prev, isbn: text }))}
+              mode="outlined"
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+            <HelperText type="error" visible={!!formError}>
+              {formError}
+            </HelperText>
+            <View style={styles.formActions}>
+              <Button mode="text" onPress={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                mode="contained"
+                onPress={addBook}
+                loading={saving}
+                disabled={saving}
+                style={styles.addButton}
+              >
+                Add to Shelf
+              </Button>
+            </View>
+          </Card.Content>
+        </Card>
+      ) : (
+        <View style={styles.addActions}>
+          <Button
+            mode="contained"
+            icon="barcode-scan"
+            onPress={() => setScanning(true)}
+            loading={lookingUp}
+            disabled={lookingUp}
+            style={[styles.newButton, styles.flexInput]}
+            textColor="#FF9800"
+          >
+            Scan a Book
+          </Button>
+          <Button
+            mode="contained"
+            icon="plus"
+            onPress={() => setShowForm(true)}
+            style={[styles.newButton, styles.flexInput]}
+            textColor="#FF9800"
+          >
+            Type It In
+          </Button>
+        </View>
+      )}
+      <IsbnScanner visible={scanning} onScanned={handleScanned} onClose={() => setScanning(false)} />
+      <AlertModal />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  shelfTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#ffffff',
+    marginBottom: 8,
+  },
+  shelfEmpty: {
+    fontSize: 14,
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  shelfRow: {
+    gap: 12,
+    paddingRight: 4,
+  },
+  bookCard: {
+    width: 140,
+    borderRadius: 12,
+    elevation: 4,
+  },
+  bookContent: {
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  cover: {
+    width: 72,
+    height: 100,
+    borderRadius: 4,
+    marginBottom: 8,
+  },
+  coverPlaceholder: {
+    backgroundColor: '#FFF3E0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bookTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  bookAuthor: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  bookProgress: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  bookActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  formCard: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  form: {
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  addButton: {
+    backgroundColor: '#FF9800',
+  },
+  lookupNote: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF3E0',
+    borderRadius: 8,
+    padding: 8,
+    gap: 8,
+  },
+  lookupCover: {
+    width: 36,
+    height: 50,
+    borderRadius: 2,
+  },
+  lookupText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#666',
+  },
+  addActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  newButton: {
+    backgroundColor: '#ffffff',
+  },
+});
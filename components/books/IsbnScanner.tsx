@@ -0,0 +1,122 @@
+import React, { useRef } from 'react';
+import { View, StyleSheet, Modal } from 'react-native';
+import { Text, Button, IconButton } from 'react-native-paper';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+interface IsbnScannerProps {
+  visible: boolean;
+  onScanned: (code: string) => void;
+  onClose: () => void;
+}
+
+export function IsbnScanner({ visible, onScanned, onClose }: IsbnScannerProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same barcode many times a second; only take the first
+  const handledRef = useRef(false);
+
+  const handleBarcode = ({ data }: BarcodeScanningResult) => {
+    if (handledRef.current) return;
+    handledRef.current = true;
+    onScanned(data);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onShow={() => { handledRef.current = false; }}
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Scan a Book</Text>
+          <IconButton icon="close" iconColor="#ffffff" onPress={onClose} />
+        </View>
+
+        {!permission ? (
+          <View style={styles.centerContent} />
+        ) : !permission.granted ? (
+          <View style={styles.centerContent}>
+            <Text style={styles.message}>
+              We need your camera to read the barcode on the back of your book.
+            </Text>
+            <Button mode="contained" onPress={requestPermission} style={styles.permissionButton}>
+              Allow Camera
+            </Button>
+          </View>
+        ) : (
+          <View style={styles.cameraContainer}>
+            <CameraView
+              style={styles.camera}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['ean13', 'upc_a'] }}
+              onBarcodeScanned={visible ? handleBarcode : undefined}
+            />
+            <View style={styles.frame} pointerEvents="none" />
+            <Text style={styles.hint}>
+              Point at the barcode on the back cover (it starts with 978 or 979)
+            </Text>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingLeft: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  message: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  permissionButton: {
+    marginTop: 16,
+    backgroundColor: '#FF9800',
+  },
+  cameraContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  camera: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  frame: {
+    width: '80%',
+    height: 140,
+    borderWidth: 3,
+    borderColor: '#FF9800',
+    borderRadius: 12,
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 48,
+    left: 32,
+    right: 32,
+    fontSize: 14,
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+});
@@ -1,19 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { Card, Text, Button, Avatar, Chip, ProgressBar } from 'react-native-paper';
+import { Card, Text, Button, Avatar, Chip } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
 import { useAuth } from '../../hooks/useAuth';
 import { gamificationService } from '../../services/gamification';
+import { familyService } from '../../services/family';
+import { streakService } from '../../services/streaks';
 import { useAlert } from '../ui/CustomAlert';
+import { InviteStudentCard } from '../family/InviteStudentCard';
+import { LevelSettingsCard } from '../family/LevelSettingsCard';
+import { ReviewInbox } from './ReviewInbox';
+import { RedemptionRequests } from '../rewards/RedemptionRequests';
+import { RewardManager } from '../rewards/RewardManager';
 
 interface StudentData {
   id: string;
+  user_id: string;
+  linkId?: string;
   full_name: string;
   points: number;
   diamonds: number;
   currentStreak: number;
+  streakFreezes: number;
   level: number;
   totalRecordings: number;
   pendingAssignments: number;
@@ -27,6 +38,7 @@ export function ParentDashboard() {
 
   const { user } = useAuth();
   const { showAlert, AlertModal } = useAlert();
+  const router = useRouter();
 
   useEffect(() => {
     loadStudentData();
@@ -54,6 +66,38 @@ export function ParentDashboard() {
     }
   };
 
+  const grantStreakFreeze = async (student: StudentData) => {
+    try {
+      await streakService.grantFreeze(student.user_id);
+      showAlert('Streak Freeze Sent', `${student.full_name} can now miss a day without losing their streak.`);
+      loadStudentData();
+    } catch (error: any) {
+      console.error('❌ Grant streak freeze error:', error);
+      showAlert('Error', error.message || 'Failed to grant a streak freeze');
+    }
+  };
+
+  const confirmUnlink = (student: StudentData) => {
+    showAlert(
+      'Unlink Student?',
+      `${student.full_name} will disappear from your dashboard and you will stop seeing their recordings.`,
+      () => unlinkStudent(student),
+      'Unlink'
+    );
+  };
+
+  const unlinkStudent = async (student: StudentData) => {
+    if (!student.linkId) return;
+    try {
+      await familyService.revokeLink(student.linkId);
+      showAlert('Unlinked', `${student.full_name} has been removed from your dashboard.`);
+      loadStudentData();
+    } catch (error: any) {
+      console.error('❌ Unlink student error:', error);
+      showAlert('Error', 'Failed to unlink student');
+    }
+  };
+
   const getStreakStatus = (streak: number) => {
     if (streak >= 7) return { color: '#4CAF50', text: 'Great!' };
     if (streak >= 3) return { color: '#FF9800', text: 'Good' };
@@ -111,6 +155,16 @@ export function ParentDashboard() {
             </Card.Content>
           </Card>
 
+          <ReviewInbox onReviewed={loadStudentData} />
+
+          <RedemptionRequests onDecided={loadStudentData} />
+
+          <InviteStudentCard onLinksChanged={loadStudentData} />
+
+          <RewardManager />
+
+          <LevelSettingsCard onSaved={loadStudentData} />
+
           {/* Student Cards */}
           {students.map((student) => {
             const streakStatus = getStreakStatus(student.currentStreak);
@@ -151,6 +205,10 @@ export function ParentDashboard() {
                         {student.currentStreak} days
                       </Text>
                     </View>
+                    <View style={styles.studentStat}>
+                      <MaterialIcons name="ac-unit" size={16} color="#00BCD4" />
+                      <Text style={styles.statText}>{student.streakFreezes}</Text>
+                    </View>
                   </View>
 
                   {student.pendingAssignments > 0 && (
@@ -174,12 +232,56 @@ export function ParentDashboard() {
                     <Button 
                       mode="contained" 
                       compact 
-                      onPress={() => {}}
+                      onPress={() => router.push({
+                        pathname: '/(tabs)/recorder',
+                        params: { studentId: student.user_id },
+                      })}
                       style={styles.actionButton}
                     >
                       Assign Reading
                     </Button>
                   </View>
+                  <View style={styles.studentFooter}>
+                    <Button
+                      mode="text"
+                      compact
+                      icon="history"
+                      onPress={() => router.push({
+                        pathname: '/points-history',
+                        params: { studentId: student.user_id, studentName: student.full_name },
+                      })}
+                    >
+                      Points History
+                    </Button>
+                    <Button
+                      mode="text"
+                      compact
+                      icon="chart-line"
+                      onPress={() => router.push({
+                        pathname: '/fluency',
+                        params: { studentId: student.user_id, studentName: student.full_name },
+                      })}
+                    >
+                      Fluency
+                    </Button>
+                    <Button
+                      mode="text"
+                      compact
+                      icon="snowflake"
+                      onPress={() => grantStreakFreeze(student)}
+                    >
+                      Give Freeze
+                    </Button>
+                    <Button
+                      mode="text"
+                      compact
+                      icon="link-off"
+                      textColor="#F44336"
+                      onPress={() => confirmUnlink(student)}
+                    >
+                      Unlink
+                    </Button>
+                  </View>
                 </Card.Content>
               </Card>
             );
@@ -215,19 +317,11 @@ export function ParentDashboard() {
                 <Button 
                   mode="contained" 
                   icon="assignment" 
-                  onPress={() => {}}
+                  onPress={() => router.push('/(tabs)/recorder')}
                   style={styles.quickAction}
                 >
                   Create Assignment
                 </Button>
-                <Button 
-                  mode="contained" 
-                  icon="people" 
-                  onPress={() => {}}
-                  style={styles.quickAction}
-                >
-                  Add Student
-                </Button>
               </View>
             </Card.Content>
           </Card>
@@ -371,6 +465,12 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 1,
   },
+  studentFooter: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
   activityCard: {
     borderRadius: 12,
     elevation: 4,
@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, Chip, IconButton } from 'react-native-paper';
+import { Audio } from 'expo-av';
+import { MaterialIcons } from '@expo/vector-icons';
+import { assignmentService } from '../../services/assignments';
+import { audioService } from '../../services/audio';
+import { transcriptionService } from '../../services/transcription';
+import { accuracyService, scoreReading } from '../../services/accuracy';
+import { useAlert } from '../ui/CustomAlert';
+import { StarRating } from '../ui/StarRating';
+import { TranscriptView } from '../audio/TranscriptView';
+import { PassageAccuracy } from '../assignments/PassageAccuracy';
+import { READING_QUALITY_OPTIONS } from '../../constants/ReadingQuality';
+import { AssignmentForReview } from '../../types/assignments';
+import { PlaybackState, ReadingQuality } from '../../types/audio';
+import { RecordingTranscript } from '../../types/transcription';
+import { AccuracyResult, RecordingAccuracy } from '../../types/accuracy';
+
+interface ReviewInboxProps {
+  onReviewed: () => void;
+}
+
+const emptyPlayback: PlaybackState = {
+  isPlaying: false,
+  isPaused: false,
+  position: 0,
+  duration: 0,
+};
+
+export function ReviewInbox({ onReviewed }: ReviewInboxProps) {
+  const [queue, setQueue] = useState<AssignmentForReview[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rating, setRating] = useState(0);
+  const [feedback, setFeedback] = useState('');
+  const [quality, setQuality] = useState<ReadingQuality | undefined>();
+  const [submitting, setSubmitting] = useState(false);
+  const [sound, setSound] = useState<Audio.Sound | null>(null);
+  const [playbackState, setPlaybackState] = useState<PlaybackState>(emptyPlayback);
+  const [transcripts, setTranscripts] = useState<Record<string, RecordingTranscript>>({});
+  const [accuracies, setAccuracies] = useState<Record<string, RecordingAccuracy>>({});
+
+  const { showAlert, AlertModal } = useAlert();
+
+  // Lets parents skim a reading before (or instead of) listening to all of it
+  const loadTranscripts = useCallback(async (reviewQueue: AssignmentForReview[]) => {
+    try {
+      const recordingIds = reviewQueue.flatMap(item => (item.recording ? [item.recording.id] : []));
+      const [loadedTranscripts, loadedAccuracies] = await Promise.all([
+        transcriptionService.getTranscripts(recordingIds),
+        accuracyService.getAccuracies(recordingIds),
+      ]);
+      setTranscripts(loadedTranscripts);
+      setAccuracies(loadedAccuracies);
+
+      // Score transcribed readings that have no stored score yet. Scores are
+      // only stored from here, so a student can't write their own.
+      const scored = await Promise.all(reviewQueue.map(item => {
+        const transcript = item.recording && loadedTranscripts[item.recording.id];
+        if (!item.recording || !item.passage_text || !transcript || loadedAccuracies[item.recording.id]) return null;
+        return accuracyService.scoreRecording(item.recording, item.passage_text, transcript.text).catch(() => null);
+      }));
+      const newAccuracies = scored.filter((accuracy): accuracy is RecordingAccuracy => !!accuracy);
+      if (newAccuracies.length > 0) {
+        setAccuracies({
+          ...loadedAccuracies,
+          ...Object.fromEntries(newAccuracies.map(accuracy => [accuracy.recording_id, accuracy])),
+        });
+      }
+    } catch (error: any) {
+      console.error('❌ Load review transcripts error:', error);
+    }
+  }, []);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const reviewQueue = await assignmentService.getReviewQueue();
+      setQueue(reviewQueue);
+      loadTranscripts(reviewQueue);
+    } catch (error: any) {
+      console.error('❌ Load review queue error:', error);
+    }
+  }, [loadTranscripts]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  // Unload the previous sound whenever it is replaced or the inbox unmounts
+  useEffect(() => {
+    return () => {
+      sound?.unloadAsync();
+    };
+  }, [sound]);
+
+  // Stored score, or one worked out here until it is stored
+  const getAccuracy = (item: AssignmentForReview): AccuracyResult | null => {
+    if (!item.recording || !item.passage_text) return null;
+    const transcript = transcripts[item.recording.id];
+    return accuracies[item.recording.id] || (transcript ? scoreReading(item.passage_text, transcript.text) : null);
+  };
+
+  const stopPlayback = () => {
+    setSound(null);
+    setPlaybackState(emptyPlayback);
+  };
+
+  const toggleExpanded = (item: AssignmentForReview) => {
+    stopPlayback();
+    if (expandedId === item.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(item.id);
+    setRating(0);
+    setFeedback('');
+    setQuality(undefined);
+  };
+
+  const togglePlayback = async (item: AssignmentForReview) => {
+    if (!item.recording) return;
+
+    try {
+      if (sound) {
+        if (playbackState.isPlaying) {
+          await sound.pauseAsync();
+        } else {
+          await sound.playAsync();
+        }
+        return;
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: false,
+        playsInSilentModeIOS: true,
+        playThroughEarpieceAndroid: false,
+        shouldDuckAndroid: true,
+        staysActiveInBackground: false,
+      });
+
+      const audioUrl = await audioService.getAudioFileUrl(item.recording.file_path);
+      const playbackWindow = audioService.getPlaybackWindow(item.recording);
+      const { sound: newSound } = await Audio.Sound.createAsync(
+        { uri: audioUrl },
+        { positionMillis: playbackWindow.start * 1000, shouldPlay: true, shouldCorrectPitch: true }
+      );
+
+      newSound.setOnPlaybackStatusUpdate((status) => {
+        if (status.isLoaded) {
+          setPlaybackState({
+            isPlaying: status.isPlaying,
+            isPaused: !status.isPlaying && status.positionMillis > 0,
+            position: status.positionMillis / 1000,
+            duration: (status.durationMillis || 0) / 1000,
+          });
+          const reachedEnd = playbackWindow.end !== undefined
+            && status.isPlaying
+            && status.positionMillis / 1000 >= playbackWindow.end;
+          if (reachedEnd) {
+            newSound.pauseAsync();
+          }
+          if (status.didJustFinish || reachedEnd) {
+            newSound.setPositionAsync(playbackWindow.start * 1000);
+          }
+        }
+      });
+
+      setSound(newSound);
+    } catch (error: any) {
+      console.error('❌ Review playback error:', error);
+      showAlert('Playback Error', 'Failed to play this recording');
+    }
+  };
+
+  const submitReview = async (item: AssignmentForReview) => {
+    if (rating === 0) {
+      showAlert('Rating Needed', 'Tap the stars to rate this reading.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await assignmentService.reviewAssignment(item.id, rating, feedback.trim() || undefined, quality);
+      stopPlayback();
+      setExpandedId(null);
+      setQueue(prev => prev.filter(q => q.id !== item.id));
+      onReviewed();
+    } catch (error: any) {
+      console.error('❌ Submit review error:', error);
+      showAlert('Error', error.message || 'Failed to save review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.titleRow}>
+          <Text style={styles.cardTitle}>Waiting for Review</Text>
+          <Chip compact style={styles.countChip}>{queue.length}</Chip>
+        </View>
+
+        {queue.map((item) => {
+          const isExpanded = expandedId === item.id;
+          return (
+            <View key={item.id} style={styles.item}>
+              <View style={styles.itemHeader}>
+                <MaterialIcons name="rate-review" size={20} color="#FF9800" />
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemTitle}>{item.book_title}</Text>
+                  <Text style={styles.itemSubtitle}>
+                    {item.student_name || 'Student'} • {item.title}
+                    {item.recording ? ` • ${audioService.formatDuration(item.recording.duration)}` : ''}
+                  </Text>
+                </View>
+                <IconButton
+                  icon={isExpanded ? 'chevron-up' : 'chevron-down'}
+                  size={20}
+                  onPress={() => toggleExpanded(item)}
+                />
+              </View>
+
+              {isExpanded && (
+                <View style={styles.reviewForm}>
+                  {item.recording ? (
+                    <View style={styles.player}>
+                      <IconButton
+                        icon={playbackState.isPlaying ? 'pause' : 'play'}
+                        iconColor="#2196F3"
+                        size={28}
+                        onPress={() => togglePlayback(item)}
+                      />
+                      <Text style={styles.playerText}>
+                        {audioService.formatDuration(Math.max(0, playbackState.position - audioService.getPlaybackWindow(item.recording).start))} / {audioService.formatDuration(item.recording.duration || playbackState.duration)}
+                      </Text>
+                    </View>
+                  ) : (
+                    <Text style={styles.noRecording}>No recording was linked to this assignment.</Text>
+                  )}
+
+                  {!!item.passage_text && !!item.recording && (
+                    getAccuracy(item) ? (
+                      <PassageAccuracy result={getAccuracy(item)!} />
+                    ) : (
+                      <Text style={styles.noRecording}>Accuracy appears once this recording is transcribed.</Text>
+                    )
+                  )}
+
+                  {!!item.recording && !!transcripts[item.recording.id] && (
+                    <TranscriptView
+                      transcript={transcripts[item.recording.id]}
+                      position={sound ? playbackState.position : undefined}
+                    />
+                  )}
+
+                  <StarRating rating={rating} onChange={setRating} />
+
+                  <View style={styles.qualityChips}>
+                    {READING_QUALITY_OPTIONS.map((option) => (
+                      <Chip
+                        key={option.value}
+                        compact
+                        selected={quality === option.value}
+                        onPress={() => setQuality(quality === option.value ? undefined : option.value)}
+                        textStyle={quality === option.value ? { color: option.color, fontWeight: 'bold' } : undefined}
+                      >
+                        {option.label}
+                      </Chip>
+                    ))}
+                  </View>
+
+                  <TextInput
+                    label="Feedback for your reader (Optional)"
+                    value={feedback}
+                    onChangeText={setFeedback}
+                    mode="outlined"
+                    multiline
+                    numberOfLines={3}
+                    style={styles.input}
+                  />
+
+                  <Button
+                    mode="contained"
+                    icon="check"
+                    onPress={() => submitReview(item)}
+                    loading={submitting}
+                    disabled={submitting}
+                    style={styles.submitButton}
+                  >
+                    Send Review
+                  </Button>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  countChip: {
+    backgroundColor: '#FFF3E0',
+  },
+  item: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    paddingVertical: 4,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  reviewForm: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  player: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E3F2FD',
+    borderRadius: 8,
+  },
+  playerText: {
+    fontSize: 14,
+    color: '#333',
+    fontFamily: 'monospace',
+  },
+  noRecording: {
+    fontSize: 12,
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  qualityChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  submitButton: {
+    backgroundColor: '#4CAF50',
+  },
+});
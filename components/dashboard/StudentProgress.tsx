@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView } from 'react-native';
-import { Card, Text, ProgressBar, Badge, Button } from 'react-native-paper';
+import { Card, Text, ProgressBar, Badge, Button, IconButton } from 'react-native-paper';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -8,7 +8,12 @@ import { useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useAuth } from '../../hooks/useAuth';
 import { gamificationService } from '../../services/gamification';
+import { streakService, STREAK_FREEZE_COST, MAX_BANKED_FREEZES } from '../../services/streaks';
+import { getLevelInfo } from '../../services/leveling';
+import { bookService } from '../../services/books';
 import { useAlert } from '../ui/CustomAlert';
+import { LevelInfo } from '../../types/leveling';
+import { LibraryBook } from '../../types/books';
 
 interface ProgressStats {
   points: number;
@@ -18,7 +23,10 @@ interface ProgressStats {
   level: number;
   totalRecordings: number;
   thisWeekRecordings: number;
+  pagesThisWeek: number;
   nextLevelPoints: number;
+  levelInfo: LevelInfo;
+  streakFreezes: number;
 }
 
 export function StudentProgress() {
@@ -26,6 +34,8 @@ export function StudentProgress() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [recentAchievements, setRecentAchievements] = useState<any[]>([]);
+  const [buyingFreeze, setBuyingFreeze] = useState(false);
+  const [readingBooks, setReadingBooks] = useState<LibraryBook[]>([]);
 
   const { user } = useAuth();
   const { showAlert, AlertModal } = useAlert();
@@ -41,17 +51,32 @@ export function StudentProgress() {
   useEffect(() => {
     loadProgressStats();
     loadRecentAchievements();
+    loadReadingBooks();
   }, []);
 
   const refreshAllStats = async () => {
     setRefreshing(true);
+    await checkReviewAchievements();
     await Promise.all([
       loadProgressStats(),
-      loadRecentAchievements()
+      loadRecentAchievements(),
+      loadReadingBooks()
     ]);
     setRefreshing(false);
   };
 
+  // Parent reviews happen on another device, so their rewards are picked up here
+  const checkReviewAchievements = async () => {
+    try {
+      const unlocked = await gamificationService.checkAndAwardAchievements(['review_received']);
+      if (unlocked.length > 0) {
+        showAlert('🏆 New Achievement!', `You unlocked ${unlocked.map(a => a.name).join(', ')}!`);
+      }
+    } catch (error: any) {
+      console.error('❌ Check review achievements error:', error);
+    }
+  };
+
   const loadProgressStats = async () => {
     try {
       const progressData = await gamificationService.getStudentProgress();
@@ -68,13 +93,25 @@ export function StudentProgress() {
         level: 1,
         totalRecordings: 0,
         thisWeekRecordings: 0,
+        pagesThisWeek: 0,
         nextLevelPoints: 100,
+        levelInfo: getLevelInfo(0),
+        streakFreezes: 0,
       });
     } finally {
       setLoading(false);
     }
   };
 
+  const loadReadingBooks = async () => {
+    try {
+      const library = await bookService.getLibrary();
+      setReadingBooks(library.filter(entry => entry.status === 'reading'));
+    } catch (error: any) {
+      console.error('❌ Load reading books error:', error);
+    }
+  };
+
   const loadRecentAchievements = async () => {
     try {
       const achievements = await gamificationService.getRecentAchievements(5);
@@ -84,12 +121,23 @@ export function StudentProgress() {
     }
   };
 
+  const buyStreakFreeze = async () => {
+    setBuyingFreeze(true);
+    try {
+      await streakService.purchaseFreeze();
+      showAlert('🧊 Streak Freeze Ready', 'If you miss a day, this freeze will keep your streak going.');
+      await loadProgressStats();
+    } catch (error: any) {
+      console.error('❌ Buy streak freeze error:', error);
+      showAlert('Error', error.message || 'Failed to buy a streak freeze');
+    } finally {
+      setBuyingFreeze(false);
+    }
+  };
+
   const getLevelProgress = () => {
     if (!stats) return 0;
-    const currentLevelMin = (stats.level - 1) * 100;
-    const nextLevelMin = stats.level * 100;
-    const progress = (stats.points - currentLevelMin) / (nextLevelMin - currentLevelMin);
-    return Math.max(0, Math.min(1, progress));
+    return stats.levelInfo.progress;
   };
 
   const getStreakEmoji = (streak: number) => {
@@ -118,13 +166,20 @@ export function StudentProgress() {
         <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
           {/* Header */}
           <View style={styles.header}>
+            <IconButton
+              icon="account-circle"
+              iconColor="#ffffff"
+              size={28}
+              style={styles.profileButton}
+              onPress={() => router.push('/profile')}
+            />
             <Text style={styles.welcomeText}>Welcome back, {user?.full_name || 'Reader'}!</Text>
             <Text style={styles.motivationText}>Keep up the great reading! 📚</Text>
           </View>
 
           {/* Stats Cards Row */}
           <View style={styles.statsRow}>
-            <Card style={[styles.statCard, styles.pointsCard]}>
+            <Card style={[styles.statCard, styles.pointsCard]} onPress={() => router.push('/points-history')}>
               <Card.Content style={styles.statContent}>
                 <MaterialIcons name="star" size={24} color="#FFD700" />
                 <Text style={styles.statNumber}>{stats?.points || 0}</Text>
@@ -132,7 +187,7 @@ export function StudentProgress() {
               </Card.Content>
             </Card>
 
-            <Card style={[styles.statCard, styles.diamondsCard]}>
+            <Card style={[styles.statCard, styles.diamondsCard]} onPress={() => router.push('/rewards')}>
               <Card.Content style={styles.statContent}>
                 <MaterialIcons name="diamond" size={24} color="#00BCD4" />
                 <Text style={styles.statNumber}>{stats?.diamonds || 0}</Text>
@@ -154,10 +209,17 @@ export function StudentProgress() {
             <Card.Content>
               <View style={styles.levelHeader}>
                 <View style={styles.levelInfo}>
-                  <Text style={styles.levelTitle}>Level {stats?.level || 1}</Text>
+                  <Text style={styles.levelTitle}>
+                    Level {stats?.level || 1} • {stats?.levelInfo.name || getLevelInfo(0).name}
+                  </Text>
                   <Text style={styles.levelSubtitle}>
-                    {stats?.nextLevelPoints || 100 - (stats?.points || 0)} points to next level
+                    {stats?.nextLevelPoints ?? 100} points to next level
                   </Text>
+                  {stats?.levelInfo.nextPerk && (
+                    <Text style={styles.levelPerk}>
+                      🎁 Level {stats.levelInfo.nextPerk.level}: {stats.levelInfo.nextPerk.perk}
+                    </Text>
+                  )}
                 </View>
                 <Badge style={styles.levelBadge}>
                   {stats?.level || 1}
@@ -171,6 +233,33 @@ export function StudentProgress() {
             </Card.Content>
           </Card>
 
+          {/* Streak Freezes */}
+          <Card style={styles.freezeCard}>
+            <Card.Content style={styles.freezeContent}>
+              <Text style={styles.freezeEmoji}>🧊</Text>
+              <View style={styles.freezeInfo}>
+                <Text style={styles.freezeTitle}>
+                  {stats?.streakFreezes || 0} of {MAX_BANKED_FREEZES} Streak Freezes
+                </Text>
+                <Text style={styles.freezeSubtitle}>A freeze saves your streak on a day you miss</Text>
+              </View>
+              <Button
+                mode="contained"
+                compact
+                onPress={buyStreakFreeze}
+                loading={buyingFreeze}
+                disabled={
+                  buyingFreeze ||
+                  (stats?.streakFreezes || 0) >= MAX_BANKED_FREEZES ||
+                  (stats?.diamonds || 0) < STREAK_FREEZE_COST
+                }
+                style={styles.freezeButton}
+              >
+                {STREAK_FREEZE_COST} 💎
+              </Button>
+            </Card.Content>
+          </Card>
+
           {/* This Week Stats */}
           <Card style={styles.weekCard}>
             <Card.Content>
@@ -186,6 +275,11 @@ export function StudentProgress() {
                   <Text style={styles.weekStatNumber}>{stats?.totalRecordings || 0}</Text>
                   <Text style={styles.weekStatLabel}>Total Books</Text>
                 </View>
+                <View style={styles.weekStat}>
+                  <MaterialIcons name="auto-stories" size={20} color="#2196F3" />
+                  <Text style={styles.weekStatNumber}>{stats?.pagesThisWeek || 0}</Text>
+                  <Text style={styles.weekStatLabel}>Pages Read</Text>
+                </View>
                 <View style={styles.weekStat}>
                   <MaterialIcons name="whatshot" size={20} color="#F44336" />
                   <Text style={styles.weekStatNumber}>{stats?.longestStreak || 0}</Text>
@@ -195,6 +289,34 @@ export function StudentProgress() {
             </Card.Content>
           </Card>
 
+          {/* Book Progress */}
+          {readingBooks.length > 0 && (
+            <Card style={styles.booksCard}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>My Books 📚</Text>
+                {readingBooks.map((entry) => (
+                  <View key={entry.id} style={styles.bookItem}>
+                    <View style={styles.bookHeader}>
+                      <Text style={styles.bookTitle} numberOfLines={1}>{entry.book.title}</Text>
+                      <Text style={styles.bookPages}>
+                        {entry.book.page_count
+                          ? `p. ${entry.progress.furthestPage} / ${entry.book.page_count}`
+                          : `${entry.progress.pagesRead} pages`}
+                      </Text>
+                    </View>
+                    {entry.progress.completion !== null && (
+                      <ProgressBar
+                        progress={entry.progress.completion}
+                        color="#FF9800"
+                        style={styles.progressBar}
+                      />
+                    )}
+                  </View>
+                ))}
+              </Card.Content>
+            </Card>
+          )}
+
           {/* Recent Achievements */}
           {recentAchievements.length > 0 && (
             <Card style={styles.achievementsCard}>
@@ -274,6 +396,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  profileButton: {
+    position: 'absolute',
+    right: -8,
+    top: -8,
+  },
   welcomeText: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -305,6 +432,34 @@ const styles = StyleSheet.create({
   streakCard: {
     backgroundColor: '#FFECB3',
   },
+  freezeCard: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  freezeContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  freezeEmoji: {
+    fontSize: 28,
+  },
+  freezeInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  freezeTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  freezeSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  freezeButton: {
+    backgroundColor: '#00BCD4',
+  },
   statContent: {
     alignItems: 'center',
     paddingVertical: 12,
@@ -346,6 +501,11 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  levelPerk: {
+    fontSize: 12,
+    color: '#764ba2',
+    marginTop: 4,
+  },
   levelBadge: {
     backgroundColor: '#4CAF50',
   },
@@ -381,6 +541,30 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  booksCard: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  bookItem: {
+    marginBottom: 12,
+  },
+  bookHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  bookTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+    marginRight: 8,
+  },
+  bookPages: {
+    fontSize: 12,
+    color: '#666',
+  },
   achievementsCard: {
     borderRadius: 12,
     elevation: 4,
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Share } from 'react-native';
+import { Card, Text, Button } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { familyService } from '../../services/family';
+import { useAlert } from '../ui/CustomAlert';
+import { GuardianInvite, GuardianLinkWithProfile } from '../../types/family';
+
+interface InviteStudentCardProps {
+  onLinksChanged: () => void;
+}
+
+export function InviteStudentCard({ onLinksChanged }: InviteStudentCardProps) {
+  const [invite, setInvite] = useState<GuardianInvite | null>(null);
+  const [pendingLinks, setPendingLinks] = useState<GuardianLinkWithProfile[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [busyLinkId, setBusyLinkId] = useState<string | null>(null);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  useEffect(() => {
+    loadInviteState();
+  }, []);
+
+  const loadInviteState = async () => {
+    try {
+      const [activeInvite, links] = await Promise.all([
+        familyService.getActiveInvite(),
+        familyService.getLinks(),
+      ]);
+      setInvite(activeInvite);
+      setPendingLinks(links.filter(link => link.status === 'pending'));
+    } catch (error: any) {
+      console.error('❌ Load invite state error:', error);
+    }
+  };
+
+  const generateInvite = async () => {
+    setGenerating(true);
+    try {
+      const newInvite = await familyService.createInviteCode();
+      setInvite(newInvite);
+    } catch (error: any) {
+      console.error('❌ Generate invite error:', error);
+      showAlert('Error', 'Failed to generate an invite code');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const shareInvite = async () => {
+    if (!invite) return;
+    try {
+      await Share.share({
+        message: `Join me on the reading app! Open Profile → Link a Parent and enter code ${invite.code}`,
+      });
+    } catch (error: any) {
+      console.error('❌ Share invite error:', error);
+    }
+  };
+
+  const respondToLink = async (link: GuardianLinkWithProfile, approve: boolean) => {
+    setBusyLinkId(link.id);
+    try {
+      if (approve) {
+        await familyService.confirmLink(link.id);
+        showAlert('Linked!', `${link.full_name || 'Your student'} now appears on your dashboard.`);
+      } else {
+        await familyService.revokeLink(link.id);
+      }
+      await loadInviteState();
+      onLinksChanged();
+    } catch (error: any) {
+      console.error('❌ Respond to link error:', error);
+      showAlert('Error', error.message || 'Failed to update the link request');
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const formatExpiry = (dateString: string) => {
+    const minutes = Math.max(0, Math.round((new Date(dateString).getTime() - Date.now()) / 60000));
+    return minutes <= 1 ? 'Expires in a minute' : `Expires in ${minutes} minutes`;
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.cardTitle}>Link a Student</Text>
+
+        {invite ? (
+          <View style={styles.inviteContainer}>
+            <Text style={styles.inviteLabel}>Ask your child to enter this code in their Profile</Text>
+            <Text style={styles.inviteCode}>{invite.code}</Text>
+            <Text style={styles.inviteExpiry}>{formatExpiry(invite.expires_at)}</Text>
+            <View style={styles.inviteActions}>
+              <Button mode="outlined" compact icon="share-variant" onPress={shareInvite} style={styles.actionButton}>
+                Share
+              </Button>
+              <Button
+                mode="text"
+                compact
+                icon="refresh"
+                onPress={generateInvite}
+                loading={generating}
+                disabled={generating}
+                style={styles.actionButton}
+              >
+                New Code
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <Button
+            mode="contained"
+            icon="account-plus"
+            onPress={generateInvite}
+            loading={generating}
+            disabled={generating}
+            style={styles.generateButton}
+          >
+            Generate Invite Code
+          </Button>
+        )}
+
+        {pendingLinks.length > 0 && (
+          <View style={styles.pendingSection}>
+            <Text style={styles.pendingTitle}>Waiting for your confirmation</Text>
+            {pendingLinks.map((link) => (
+              <View key={link.id} style={styles.pendingItem}>
+                <MaterialIcons name="person-add" size={20} color="#FF9800" />
+                <Text style={styles.pendingName}>{link.full_name || 'A student'}</Text>
+                <Button
+                  compact
+                  mode="contained"
+                  onPress={() => respondToLink(link, true)}
+                  disabled={busyLinkId === link.id}
+                  style={styles.confirmButton}
+                >
+                  Confirm
+                </Button>
+                <Button
+                  compact
+                  mode="text"
+                  textColor="#F44336"
+                  onPress={() => respondToLink(link, false)}
+                  disabled={busyLinkId === link.id}
+                >
+                  Decline
+                </Button>
+              </View>
+            ))}
+          </View>
+        )}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  inviteContainer: {
+    alignItems: 'center',
+  },
+  inviteLabel: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+  },
+  inviteCode: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#2196F3',
+    letterSpacing: 4,
+    marginVertical: 8,
+    fontFamily: 'monospace',
+  },
+  inviteExpiry: {
+    fontSize: 12,
+    color: '#999',
+  },
+  inviteActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  generateButton: {
+    backgroundColor: '#2196F3',
+  },
+  pendingSection: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+    paddingTop: 12,
+  },
+  pendingTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#FF9800',
+    marginBottom: 8,
+  },
+  pendingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  pendingName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+  },
+  confirmButton: {
+    backgroundColor: '#4CAF50',
+  },
+});
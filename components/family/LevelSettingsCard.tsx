@@ -0,0 +1,280 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText, SegmentedButtons } from 'react-native-paper';
+import { levelingService, getLevelThreshold, getLevelName } from '../../services/leveling';
+import { useAlert } from '../ui/CustomAlert';
+import { LevelCurve, LevelingConfig } from '../../types/leveling';
+
+type CurveType = LevelCurve['type'];
+
+const PREVIEW_LEVELS = [2, 3, 4, 5, 10];
+
+const parsePerks = (text: string): Record<number, string> | null => {
+  const perks: Record<number, string> = {};
+  for (const line of text.split('\n').map(l => l.trim()).filter(Boolean)) {
+    const match = line.match(/^(\d+)\s*:\s*(.+)$/);
+    if (!match) return null;
+    perks[Number(match[1])] = match[2].trim();
+  }
+  return perks;
+};
+
+const formatPerks = (perks: Record<number, string>) =>
+  Object.keys(perks)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(level => `${level}: ${perks[level]}`)
+    .join('\n');
+
+interface LevelSettingsCardProps {
+  onSaved?: () => void;
+}
+
+export function LevelSettingsCard({ onSaved }: LevelSettingsCardProps) {
+  const [config, setConfig] = useState<LevelingConfig | null>(null);
+  const [curveType, setCurveType] = useState<CurveType>('linear');
+  const [pointsPerLevel, setPointsPerLevel] = useState('100');
+  const [basePoints, setBasePoints] = useState('100');
+  const [growth, setGrowth] = useState('1.5');
+  const [thresholds, setThresholds] = useState('0, 100, 250, 500');
+  const [levelNames, setLevelNames] = useState('');
+  const [perks, setPerks] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  useEffect(() => {
+    loadConfig();
+  }, []);
+
+  const loadConfig = async () => {
+    try {
+      const familyConfig = await levelingService.getFamilyConfig();
+      setConfig(familyConfig);
+      setCurveType(familyConfig.curve.type);
+      if (familyConfig.curve.type === 'linear') {
+        setPointsPerLevel(String(familyConfig.curve.points_per_level));
+      } else if (familyConfig.curve.type === 'exponential') {
+        setBasePoints(String(familyConfig.curve.base_points));
+        setGrowth(String(familyConfig.curve.growth));
+      } else {
+        setThresholds(familyConfig.curve.thresholds.join(', '));
+      }
+      setLevelNames(familyConfig.level_names.join(', '));
+      setPerks(formatPerks(familyConfig.perks));
+    } catch (error: any) {
+      console.error('❌ Load level settings error:', error);
+    }
+  };
+
+  // Build a config from the form, or explain what's wrong with it
+  const buildConfig = (): LevelingConfig | string => {
+    let curve: LevelCurve;
+
+    if (curveType === 'linear') {
+      const perLevel = Number(pointsPerLevel);
+      if (!Number.isInteger(perLevel) || perLevel <= 0) {
+        return 'Points per level must be a whole number above 0';
+      }
+      curve = { type: 'linear', points_per_level: perLevel };
+    } else if (curveType === 'exponential') {
+      const base = Number(basePoints);
+      const rate = Number(growth);
+      if (!Number.isInteger(base) || base <= 0) {
+        return 'First level cost must be a whole number above 0';
+      }
+      if (!(rate >= 1 && rate <= 3)) {
+        return 'Growth must be between 1 and 3';
+      }
+      curve = { type: 'exponential', base_points: base, growth: rate };
+    } else {
+      const values = thresholds.split(',').map(v => Number(v.trim()));
+      if (values.length < 2 || values.some(v => !Number.isInteger(v) || v < 0)) {
+        return 'List at least two whole-number point totals, separated by commas';
+      }
+      if (values[0] !== 0 || values.some((v, i) => i > 0 && v <= values[i - 1])) {
+        return 'Point totals must start at 0 and go up each level';
+      }
+      curve = { type: 'table', thresholds: values };
+    }
+
+    const parsedPerks = parsePerks(perks);
+    if (!parsedPerks) {
+      return 'Write each perk on its own line, like "5: Pick a movie night"';
+    }
+
+    return {
+      curve,
+      level_names: levelNames.split(',').map(n => n.trim()).filter(Boolean),
+      perks: parsedPerks,
+    };
+  };
+
+  const draft = buildConfig();
+  const preview = typeof draft === 'string' ? null : draft;
+
+  const saveConfig = async () => {
+    if (typeof draft === 'string') {
+      setFormError(draft);
+      return;
+    }
+
+    setFormError('');
+    setSaving(true);
+    try {
+      await levelingService.saveFamilyConfig(draft);
+      setConfig(draft);
+      showAlert('✅ Levels Updated', 'Your readers will see the new levels right away.');
+      onSaved?.();
+    } catch (error: any) {
+      console.error('❌ Save level settings error:', error);
+      showAlert('Error', error.message || 'Failed to save level settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.cardTitle}>Levels</Text>
+        <Text style={styles.cardSubtitle}>
+          Choose how many points each level takes, what levels are called and what they unlock.
+        </Text>
+
+        <SegmentedButtons
+          value={curveType}
+          onValueChange={(value) => setCurveType(value as CurveType)}
+          buttons={[
+            { value: 'linear', label: 'Steady' },
+            { value: 'exponential', label: 'Growing' },
+            { value: 'table', label: 'Custom' },
+          ]}
+          style={styles.segments}
+        />
+
+        <View style={styles.form}>
+          {curveType === 'linear' && (
+            <TextInput
+              label="Points per level"
+              value={pointsPerLevel}
+              onChangeText={setPointsPerLevel}
+              mode="outlined"
+              keyboardType="number-pad"
+              style={styles.input}
+            />
+          )}
+          {curveType === 'exponential' && (
+            <>
+              <TextInput
+                label="Points for level 2"
+                value={basePoints}
+                onChangeText={setBasePoints}
+                mode="outlined"
+                keyboardType="number-pad"
+                style={styles.input}
+              />
+              <TextInput
+                label="Growth per level (e.g. 1.5)"
+                value={growth}
+                onChangeText={setGrowth}
+                mode="outlined"
+                keyboardType="decimal-pad"
+                style={styles.input}
+              />
+            </>
+          )}
+          {curveType === 'table' && (
+            <TextInput
+              label="Points to reach each level, from level 1"
+              value={thresholds}
+              onChangeText={setThresholds}
+              mode="outlined"
+              style={styles.input}
+            />
+          )}
+          <TextInput
+            label="Level names, separated by commas"
+            value={levelNames}
+            onChangeText={setLevelNames}
+            mode="outlined"
+            style={styles.input}
+          />
+          <TextInput
+            label="Perks, one per line (level: perk)"
+            value={perks}
+            onChangeText={setPerks}
+            mode="outlined"
+            multiline
+            style={styles.input}
+          />
+          <HelperText type="error" visible={!!formError}>
+            {formError}
+          </HelperText>
+
+          {preview && (
+            <View style={styles.preview}>
+              {PREVIEW_LEVELS.map((level) => (
+                <Text key={level} style={styles.previewText}>
+                  Level {level} ({getLevelName(level, preview)}): {getLevelThreshold(level, preview.curve)} pts
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <Button
+            mode="contained"
+            onPress={saveConfig}
+            loading={saving}
+            disabled={saving || !config}
+            style={styles.saveButton}
+          >
+            Save Levels
+          </Button>
+        </View>
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  segments: {
+    marginBottom: 4,
+  },
+  form: {
+    marginTop: 8,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  preview: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  saveButton: {
+    backgroundColor: '#2196F3',
+  },
+});
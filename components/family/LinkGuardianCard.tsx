@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText, IconButton } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { familyService } from '../../services/family';
+import { useAlert } from '../ui/CustomAlert';
+import { GuardianInvitePreview, GuardianLinkWithProfile } from '../../types/family';
+
+export function LinkGuardianCard() {
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [preview, setPreview] = useState<GuardianInvitePreview | null>(null);
+  const [guardians, setGuardians] = useState<GuardianLinkWithProfile[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [redeeming, setRedeeming] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  useEffect(() => {
+    loadGuardians();
+  }, []);
+
+  const loadGuardians = async () => {
+    try {
+      const links = await familyService.getLinks();
+      setGuardians(links);
+    } catch (error: any) {
+      console.error('❌ Load guardians error:', error);
+    }
+  };
+
+  const checkCode = async () => {
+    if (!code.trim()) {
+      setCodeError('Enter the code from your parent');
+      return;
+    }
+
+    setCodeError('');
+    setChecking(true);
+    try {
+      const invitePreview = await familyService.previewInviteCode(code);
+      if (!invitePreview) {
+        setCodeError('This code is not valid or has expired');
+        return;
+      }
+      setPreview(invitePreview);
+    } catch (error: any) {
+      console.error('❌ Check invite code error:', error);
+      setCodeError('Could not check this code, please try again');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const confirmRedeem = async () => {
+    setRedeeming(true);
+    try {
+      await familyService.redeemInviteCode(code);
+      showAlert(
+        'Request Sent',
+        `${preview?.parent_name || 'Your parent'} needs to confirm the link from their dashboard.`
+      );
+      setCode('');
+      setPreview(null);
+      await loadGuardians();
+    } catch (error: any) {
+      console.error('❌ Redeem invite code error:', error);
+      showAlert('Error', error.message || 'Failed to link with this code');
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  const removeGuardian = async (link: GuardianLinkWithProfile) => {
+    try {
+      await familyService.revokeLink(link.id);
+      await loadGuardians();
+    } catch (error: any) {
+      console.error('❌ Remove guardian error:', error);
+      showAlert('Error', 'Failed to remove this link');
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.cardTitle}>Parents & Guardians</Text>
+
+        {guardians.map((link) => (
+          <View key={link.id} style={styles.guardianRow}>
+            <MaterialIcons
+              name={link.status === 'active' ? 'verified-user' : 'hourglass-empty'}
+              size={20}
+              color={link.status === 'active' ? '#4CAF50' : '#FF9800'}
+            />
+            <View style={styles.guardianInfo}>
+              <Text style={styles.guardianName}>{link.full_name || 'Parent'}</Text>
+              <Text style={styles.guardianStatus}>
+                {link.status === 'active' ? 'Linked' : 'Waiting for confirmation'}
+              </Text>
+            </View>
+            <IconButton icon="link-off" size={20} onPress={() => removeGuardian(link)} />
+          </View>
+        ))}
+
+        {preview ? (
+          <View style={styles.previewContainer}>
+            <Text style={styles.previewText}>
+              Link your account with {preview.parent_name || 'this parent'}? They will see your
+              recordings and progress.
+            </Text>
+            <View style={styles.previewActions}>
+              <Button mode="text" onPress={() => setPreview(null)} disabled={redeeming}>
+                Cancel
+              </Button>
+              <Button
+                mode="contained"
+                onPress={confirmRedeem}
+                loading={redeeming}
+                disabled={redeeming}
+                style={styles.linkButton}
+              >
+                Yes, Link
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <>
+            <TextInput
+              label="Invite code from your parent"
+              value={code}
+              onChangeText={(text) => setCode(text.toUpperCase())}
+              mode="outlined"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              style={styles.input}
+              error={!!codeError}
+              disabled={checking}
+            />
+            <HelperText type="error" visible={!!codeError}>
+              {codeError}
+            </HelperText>
+            <Button
+              mode="contained"
+              icon="link-variant"
+              onPress={checkCode}
+              loading={checking}
+              disabled={checking}
+              style={styles.linkButton}
+            >
+              Link a Parent
+            </Button>
+          </>
+        )}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    elevation: 8,
+    marginTop: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  guardianRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    marginBottom: 8,
+  },
+  guardianInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  guardianName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  guardianStatus: {
+    fontSize: 12,
+    color: '#666',
+  },
+  previewContainer: {
+    backgroundColor: '#F3F4FF',
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  previewActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  linkButton: {
+    backgroundColor: '#667eea',
+  },
+});
@@ -0,0 +1,313 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl, useWindowDimensions } from 'react-native';
+import { Card, Text, IconButton } from 'react-native-paper';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LineChart } from 'react-native-chart-kit';
+import { fluencyService } from '../../services/fluency';
+import { audioService } from '../../services/audio';
+import { useAlert } from '../ui/CustomAlert';
+import { FluencyTrendPoint } from '../../types/fluency';
+
+interface FluencyReportProps {
+  studentId?: string;
+  studentName?: string;
+}
+
+const chartConfig = {
+  backgroundGradientFrom: '#ffffff',
+  backgroundGradientTo: '#ffffff',
+  decimalPlaces: 0,
+  color: (opacity = 1) => `rgba(102, 126, 234, ${opacity})`,
+  labelColor: (opacity = 1) => `rgba(102, 102, 102, ${opacity})`,
+  propsForDots: { r: '4' },
+};
+
+const pauseShare = (point: FluencyTrendPoint) => {
+  const total = point.speech_seconds + point.pause_seconds;
+  return total > 0 ? Math.round((point.pause_seconds / total) * 100) : 0;
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export function FluencyReport({ studentId, studentName }: FluencyReportProps) {
+  const [points, setPoints] = useState<FluencyTrendPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const router = useRouter();
+  const { width } = useWindowDimensions();
+  const { showAlert, AlertModal } = useAlert();
+
+  const loadTrend = useCallback(async () => {
+    try {
+      setPoints(await fluencyService.getTrend(studentId));
+    } catch (error: any) {
+      console.error('❌ Load fluency trend error:', error);
+      showAlert('Load Error', 'Failed to load fluency data');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [studentId, showAlert]);
+
+  useEffect(() => {
+    loadTrend();
+  }, [loadTrend]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadTrend();
+  };
+
+  const formatLabel = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.getMonth() + 1}/${date.getDate()}`;
+  };
+
+  const paced = points.filter(point => point.words_per_minute != null);
+  const recent = paced.slice(-5);
+  const earlier = paced.slice(-10, -5);
+  const recentWpm = Math.round(average(recent.map(point => point.words_per_minute!)));
+  const wpmChange = earlier.length > 0
+    ? recentWpm - Math.round(average(earlier.map(point => point.words_per_minute!)))
+    : null;
+  const recentPauseShare = Math.round(average(points.slice(-5).map(pauseShare)));
+
+  const chartWidth = width - 64;
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <IconButton icon="arrow-left" iconColor="#ffffff" onPress={() => router.back()} />
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Reading Fluency</Text>
+            {!!studentName && <Text style={styles.headerSubtitle}>{studentName}</Text>}
+          </View>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {loading ? (
+            <Text style={styles.loadingText}>Loading fluency data...</Text>
+          ) : points.length === 0 ? (
+            <Card style={styles.card}>
+              <Card.Content style={styles.emptyContent}>
+                <MaterialIcons name="insights" size={48} color="#ccc" />
+                <Text style={styles.emptyText}>
+                  Fluency appears after new recordings are made on a phone or tablet.
+                </Text>
+              </Card.Content>
+            </Card>
+          ) : (
+            <>
+              <Card style={styles.card}>
+                <Card.Content style={styles.summaryRow}>
+                  <View style={styles.summaryStat}>
+                    <Text style={styles.summaryNumber}>{paced.length > 0 ? recentWpm : '–'}</Text>
+                    <Text style={styles.summaryLabel}>Words / min</Text>
+                    {wpmChange !== null && (
+                      <Text style={[styles.summaryChange, { color: wpmChange >= 0 ? '#4CAF50' : '#F44336' }]}>
+                        {wpmChange >= 0 ? '▲' : '▼'} {Math.abs(wpmChange)}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.summaryStat}>
+                    <Text style={styles.summaryNumber}>{recentPauseShare}%</Text>
+                    <Text style={styles.summaryLabel}>Time Pausing</Text>
+                  </View>
+                  <View style={styles.summaryStat}>
+                    <Text style={styles.summaryNumber}>{points.length}</Text>
+                    <Text style={styles.summaryLabel}>Sessions</Text>
+                  </View>
+                </Card.Content>
+              </Card>
+
+              {paced.length >= 2 && (
+                <Card style={styles.card}>
+                  <Card.Content>
+                    <Text style={styles.cardTitle}>Words per Minute</Text>
+                    <LineChart
+                      data={{
+                        labels: paced.map(point => formatLabel(point.recorded_at)),
+                        datasets: [{ data: paced.map(point => point.words_per_minute!) }],
+                      }}
+                      width={chartWidth}
+                      height={200}
+                      chartConfig={chartConfig}
+                      bezier
+                      fromZero
+                      style={styles.chart}
+                    />
+                    <Text style={styles.chartNote}>
+                      Estimated from pages read when there is no passage text.
+                    </Text>
+                  </Card.Content>
+                </Card>
+              )}
+
+              {points.length >= 2 && (
+                <Card style={styles.card}>
+                  <Card.Content>
+                    <Text style={styles.cardTitle}>Time Spent Pausing (%)</Text>
+                    <LineChart
+                      data={{
+                        labels: points.map(point => formatLabel(point.recorded_at)),
+                        datasets: [{ data: points.map(pauseShare) }],
+                      }}
+                      width={chartWidth}
+                      height={200}
+                      chartConfig={{ ...chartConfig, color: (opacity = 1) => `rgba(255, 152, 0, ${opacity})` }}
+                      fromZero
+                      style={styles.chart}
+                    />
+                  </Card.Content>
+                </Card>
+              )}
+
+              <Card style={styles.card}>
+                <Card.Content>
+                  <Text style={styles.cardTitle}>Recent Sessions</Text>
+                  {[...points].reverse().map((point) => (
+                    <View key={point.recording_id} style={styles.sessionRow}>
+                      <View style={styles.sessionInfo}>
+                        <Text style={styles.sessionTitle} numberOfLines={1}>{point.recording_title}</Text>
+                        <Text style={styles.sessionMeta}>
+                          {new Date(point.recorded_at).toLocaleDateString()} • Reading {audioService.formatDuration(point.speech_seconds)} • {point.pause_count} pauses (longest {point.longest_pause_seconds}s)
+                        </Text>
+                      </View>
+                      <Text style={styles.sessionWpm}>
+                        {point.words_per_minute != null ? `${point.words_per_minute} wpm` : '–'}
+                      </Text>
+                    </View>
+                  ))}
+                </Card.Content>
+              </Card>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+      <AlertModal />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#ffffff',
+    textAlign: 'center',
+    marginTop: 32,
+  },
+  card: {
+    borderRadius: 16,
+    elevation: 8,
+  },
+  emptyContent: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  summaryStat: {
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  summaryChange: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chart: {
+    borderRadius: 8,
+  },
+  chartNote: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 4,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sessionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  sessionWpm: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#667eea',
+  },
+});
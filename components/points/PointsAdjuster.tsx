@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText } from 'react-native-paper';
+import { pointsService } from '../../services/points';
+import { useAlert } from '../ui/CustomAlert';
+
+interface PointsAdjusterProps {
+  studentId: string;
+  studentName?: string;
+  onAdjusted: () => void;
+}
+
+// Lets a guardian add a bonus or take back points, with a reason the reader can see
+export function PointsAdjuster({ studentId, studentName, onAdjusted }: PointsAdjusterProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  const resetForm = () => {
+    setAmount('');
+    setReason('');
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const saveAdjustment = async () => {
+    const points = Number(amount);
+    if (!Number.isInteger(points) || points === 0) {
+      setFormError('Enter a whole number of points, e.g. 20 or -10');
+      return;
+    }
+    if (!reason.trim()) {
+      setFormError('Give a reason so your reader knows what it was for');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await pointsService.adjustPoints(studentId, points, reason);
+      resetForm();
+      onAdjusted();
+    } catch (error: any) {
+      console.error('❌ Save points adjustment error:', error);
+      showAlert('Error', error.message || 'Failed to adjust points');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.cardTitle}>Adjust Points</Text>
+        <Text style={styles.cardSubtitle}>
+          Give {studentName || 'your reader'} a bonus, or take back points given by mistake.
+        </Text>
+
+        {showForm ? (
+          <View style={styles.form}>
+            <TextInput
+              label="Points (use - to take away)"
+              value={amount}
+              onChangeText={setAmount}
+              mode="outlined"
+              keyboardType="numbers-and-punctuation"
+              style={styles.input}
+              error={!!formError}
+            />
+            <TextInput
+              label="Reason (e.g. Read to a younger sibling)"
+              value={reason}
+              onChangeText={setReason}
+              mode="outlined"
+              style={styles.input}
+            />
+            <HelperText type="error" visible={!!formError}>
+              {formError}
+            </HelperText>
+            <View style={styles.formActions}>
+              <Button mode="text" onPress={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                mode="contained"
+                onPress={saveAdjustment}
+                loading={saving}
+                disabled={saving}
+                style={styles.saveButton}
+              >
+                Save
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <Button
+            mode="outlined"
+            icon="tune"
+            onPress={() => setShowForm(true)}
+            style={styles.newButton}
+          >
+            Adjust Points
+          </Button>
+        )}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 16,
+    elevation: 8,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  form: {
+    marginTop: 12,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  saveButton: {
+    backgroundColor: '#607D8B',
+  },
+  newButton: {
+    marginTop: 12,
+  },
+});
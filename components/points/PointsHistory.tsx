@@ -0,0 +1,217 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Card, Text, IconButton } from 'react-native-paper';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { pointsService } from '../../services/points';
+import { PointsAdjuster } from './PointsAdjuster';
+import { useAlert } from '../ui/CustomAlert';
+import { PointsSource, PointsTransaction } from '../../types/points';
+
+interface PointsHistoryProps {
+  studentId?: string;
+  studentName?: string;
+}
+
+const SOURCE_DETAILS: Record<PointsSource, { label: string; icon: keyof typeof MaterialIcons.glyphMap; color: string }> = {
+  recording: { label: 'Reading', icon: 'mic', color: '#667eea' },
+  assignment: { label: 'Assignment', icon: 'assignment-turned-in', color: '#4CAF50' },
+  achievement: { label: 'Achievement', icon: 'emoji-events', color: '#FFB300' },
+  adjustment: { label: 'Adjustment', icon: 'tune', color: '#607D8B' },
+  purchase: { label: 'Purchase', icon: 'shopping-cart', color: '#E91E63' },
+};
+
+export function PointsHistory({ studentId, studentName }: PointsHistoryProps) {
+  const [transactions, setTransactions] = useState<PointsTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const router = useRouter();
+  const { showAlert, AlertModal } = useAlert();
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const history = await pointsService.getHistory(studentId);
+      setTransactions(history);
+    } catch (error: any) {
+      console.error('❌ Load points history error:', error);
+      showAlert('Load Error', 'Failed to load points history');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [studentId, showAlert]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadHistory();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderTransaction = (transaction: PointsTransaction) => {
+    const details = SOURCE_DETAILS[transaction.source];
+    const isDeduction = transaction.amount < 0;
+
+    return (
+      <View key={transaction.id} style={styles.transactionRow}>
+        <View style={[styles.sourceIcon, { backgroundColor: `${details.color}22` }]}>
+          <MaterialIcons name={details.icon} size={20} color={details.color} />
+        </View>
+        <View style={styles.transactionInfo}>
+          <Text style={styles.transactionTitle}>{transaction.description || details.label}</Text>
+          <Text style={styles.transactionMeta}>
+            {details.label} • {formatDate(transaction.created_at)}
+          </Text>
+        </View>
+        <View style={styles.amounts}>
+          {(transaction.amount !== 0 || transaction.diamonds === 0) && (
+            <Text style={[styles.amount, isDeduction && styles.deduction]}>
+              {isDeduction ? '' : '+'}{transaction.amount}
+            </Text>
+          )}
+          {transaction.diamonds !== 0 && (
+            <Text style={styles.diamonds}>
+              {transaction.diamonds > 0 ? '+' : ''}{transaction.diamonds} 💎
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <IconButton icon="arrow-left" iconColor="#ffffff" onPress={() => router.back()} />
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Points History</Text>
+            <Text style={styles.headerSubtitle}>
+              {studentName ? `Where ${studentName}'s points came from` : 'Where your points came from'}
+            </Text>
+          </View>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          {/* Only a guardian opens a student's history */}
+          {studentId && <PointsAdjuster studentId={studentId} studentName={studentName} onAdjusted={loadHistory} />}
+
+          <Card style={styles.card}>
+            <Card.Content>
+              {loading ? (
+                <Text style={styles.emptyText}>Loading points history...</Text>
+              ) : transactions.length === 0 ? (
+                <Text style={styles.emptyText}>No points yet. Every reading will show up here!</Text>
+              ) : (
+                transactions.map(renderTransaction)
+              )}
+            </Card.Content>
+          </Card>
+        </ScrollView>
+      </SafeAreaView>
+      <AlertModal />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    borderRadius: 16,
+    elevation: 8,
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  sourceIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  transactionInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  transactionTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  transactionMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  amounts: {
+    alignItems: 'flex-end',
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  deduction: {
+    color: '#F44336',
+  },
+  diamonds: {
+    fontSize: 12,
+    color: '#00BCD4',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -7,6 +7,7 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
 import { useAuth } from '../../hooks/useAuth';
 import { useAlert } from '../ui/CustomAlert';
+import { LinkGuardianCard } from '../family/LinkGuardianCard';
 import { supabase } from '../../services/supabase';
 
 export function ProfileScreen() {
@@ -174,6 +175,8 @@ export function ProfileScreen() {
               </View>
             </Card.Content>
           </Card>
+
+          {user && user.role !== 'parent' && <LinkGuardianCard />}
         </ScrollView>
       </SafeAreaView>
       <AlertModal />
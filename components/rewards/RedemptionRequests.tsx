@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, Chip } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { rewardService } from '../../services/rewards';
+import { useAlert } from '../ui/CustomAlert';
+import { RedemptionWithStudent } from '../../types/rewards';
+
+interface RedemptionRequestsProps {
+  onDecided: () => void;
+}
+
+export function RedemptionRequests({ onDecided }: RedemptionRequestsProps) {
+  const [requests, setRequests] = useState<RedemptionWithStudent[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    try {
+      const pending = await rewardService.getPendingRedemptions();
+      setRequests(pending);
+    } catch (error: any) {
+      console.error('❌ Load redemption requests error:', error);
+    }
+  };
+
+  const decide = async (request: RedemptionWithStudent, approve: boolean) => {
+    setBusyId(request.id);
+    try {
+      await rewardService.decideRedemption(request.id, approve);
+      setRequests(prev => prev.filter(r => r.id !== request.id));
+      if (!approve) {
+        showAlert('Request Declined', `${request.diamond_cost} diamonds were returned to ${request.student_name || 'your reader'}.`);
+      }
+      onDecided();
+    } catch (error: any) {
+      console.error('❌ Decide redemption error:', error);
+      showAlert('Error', error.message || 'Failed to update this request');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <View style={styles.titleRow}>
+          <Text style={styles.cardTitle}>Reward Requests</Text>
+          <Chip compact style={styles.countChip}>{requests.length}</Chip>
+        </View>
+
+        {requests.map((request) => (
+          <View key={request.id} style={styles.item}>
+            <MaterialIcons name="card-giftcard" size={20} color="#E91E63" />
+            <View style={styles.itemInfo}>
+              <Text style={styles.itemTitle}>{request.reward_title}</Text>
+              <Text style={styles.itemSubtitle}>
+                {request.student_name || 'Student'} • {request.diamond_cost} 💎
+              </Text>
+            </View>
+            <Button
+              mode="text"
+              compact
+              onPress={() => decide(request, false)}
+              disabled={busyId === request.id}
+            >
+              Decline
+            </Button>
+            <Button
+              mode="contained"
+              compact
+              onPress={() => decide(request, true)}
+              loading={busyId === request.id}
+              disabled={busyId === request.id}
+              style={styles.approveButton}
+            >
+              Approve
+            </Button>
+          </View>
+        ))}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  countChip: {
+    backgroundColor: '#FCE4EC',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 4,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  approveButton: {
+    backgroundColor: '#4CAF50',
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Card, Text, Button, TextInput, HelperText, IconButton } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+import { rewardService } from '../../services/rewards';
+import { useAlert } from '../ui/CustomAlert';
+import { Reward } from '../../types/rewards';
+
+export function RewardManager() {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [cost, setCost] = useState('');
+  const [formError, setFormError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { showAlert, AlertModal } = useAlert();
+
+  useEffect(() => {
+    loadRewards();
+  }, []);
+
+  const loadRewards = async () => {
+    try {
+      const parentRewards = await rewardService.getParentRewards();
+      setRewards(parentRewards);
+    } catch (error: any) {
+      console.error('❌ Load rewards error:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setTitle('');
+    setDescription('');
+    setCost('');
+    setFormError('');
+    setShowForm(false);
+  };
+
+  const saveReward = async () => {
+    const diamondCost = Number(cost);
+    if (!title.trim()) {
+      setFormError('Give the reward a name');
+      return;
+    }
+    if (!Number.isInteger(diamondCost) || diamondCost <= 0) {
+      setFormError('Price must be a whole number of diamonds');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await rewardService.createReward({
+        title,
+        description,
+        diamond_cost: diamondCost,
+      });
+      resetForm();
+      await loadRewards();
+    } catch (error: any) {
+      console.error('❌ Save reward error:', error);
+      showAlert('Error', error.message || 'Failed to add this reward');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const archiveReward = async (reward: Reward) => {
+    try {
+      await rewardService.archiveReward(reward.id);
+      setRewards(prev => prev.filter(r => r.id !== reward.id));
+    } catch (error: any) {
+      console.error('❌ Archive reward error:', error);
+      showAlert('Error', 'Failed to remove this reward');
+    }
+  };
+
+  return (
+    <Card style={styles.card}>
+      <Card.Content>
+        <Text style={styles.cardTitle}>Reward Shop</Text>
+        <Text style={styles.cardSubtitle}>
+          Real-world rewards your readers can buy with the diamonds they earn.
+        </Text>
+
+        {rewards.map((reward) => (
+          <View key={reward.id} style={styles.rewardRow}>
+            <MaterialIcons name="card-giftcard" size={20} color="#E91E63" />
+            <View style={styles.rewardInfo}>
+              <Text style={styles.rewardTitle}>{reward.title}</Text>
+              {!!reward.description && (
+                <Text style={styles.rewardDescription}>{reward.description}</Text>
+              )}
+            </View>
+            <Text style={styles.rewardCost}>{reward.diamond_cost} 💎</Text>
+            <IconButton icon="delete-outline" size={20} onPress={() => archiveReward(reward)} />
+          </View>
+        ))}
+
+        {showForm ? (
+          <View style={styles.form}>
+            <TextInput
+              label="Reward (e.g. 30 minutes of screen time)"
+              value={title}
+              onChangeText={setTitle}
+              mode="outlined"
+              style={styles.input}
+            />
+            <TextInput
+              label="Details (Optional)"
+              value={description}
+              onChangeText={setDescription}
+              mode="outlined"
+              style={styles.input}
+            />
+            <TextInput
+              label="Price in diamonds"
+              value={cost}
+              onChangeText={setCost}
+              mode="outlined"
+              keyboardType="number-pad"
+              style={styles.input}
+              error={!!formError}
+            />
+            <HelperText type="error" visible={!!formError}>
+              {formError}
+            </HelperText>
+            <View style={styles.formActions}>
+              <Button mode="text" onPress={resetForm} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                mode="contained"
+                onPress={saveReward}
+                loading={saving}
+                disabled={saving}
+                style={styles.addButton}
+              >
+                Add Reward
+              </Button>
+            </View>
+          </View>
+        ) : (
+          <Button
+            mode="outlined"
+            icon="plus"
+            onPress={() => setShowForm(true)}
+            style={styles.newButton}
+          >
+            New Reward
+          </Button>
+        )}
+      </Card.Content>
+      <AlertModal />
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    elevation: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+    paddingVertical: 2,
+  },
+  rewardInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rewardTitle: {
+    fontSize: 14,
+    color: '#333',
+  },
+  rewardDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  rewardCost: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#00BCD4',
+  },
+  form: {
+    marginTop: 12,
+    gap: 8,
+  },
+  input: {
+    backgroundColor: 'white',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  addButton: {
+    backgroundColor: '#2196F3',
+  },
+  newButton: {
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { Card, Text, Button, IconButton, Chip } from 'react-native-paper';
+import { LinearGradient } from 'expo-linear-gradient';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { rewardService } from '../../services/rewards';
+import { pointsService } from '../../services/points';
+import { useAlert } from '../ui/CustomAlert';
+import { RedemptionStatus, Reward, RewardRedemption } from '../../types/rewards';
+
+const STATUS_DETAILS: Record<RedemptionStatus, { label: string; color: string }> = {
+  pending: { label: 'Waiting for parent', color: '#FF9800' },
+  approved: { label: 'Approved', color: '#4CAF50' },
+  rejected: { label: 'Declined, diamonds returned', color: '#F44336' },
+};
+
+export function RewardShop() {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [diamonds, setDiamonds] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+
+  const router = useRouter();
+  const { showAlert, AlertModal } = useAlert();
+
+  const loadShop = useCallback(async () => {
+    try {
+      const [shopRewards, myRedemptions, balance] = await Promise.all([
+        rewardService.getShopRewards(),
+        rewardService.getMyRedemptions(),
+        pointsService.getBalance(),
+      ]);
+      setRewards(shopRewards);
+      setRedemptions(myRedemptions);
+      setDiamonds(balance.diamonds);
+    } catch (error: any) {
+      console.error('❌ Load reward shop error:', error);
+      showAlert('Load Error', 'Failed to load the reward shop');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadShop();
+  }, [loadShop]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadShop();
+  };
+
+  const redeem = async (reward: Reward) => {
+    setRedeemingId(reward.id);
+    try {
+      await rewardService.redeemReward(reward.id);
+      showAlert('🎁 Request Sent!', `Your parent will see your request for "${reward.title}".`);
+      await loadShop();
+    } catch (error: any) {
+      console.error('❌ Redeem reward error:', error);
+      showAlert('Error', error.message || 'Failed to redeem this reward');
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  return (
+    <LinearGradient colors={['#667eea', '#764ba2']} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <IconButton icon="arrow-left" iconColor="#ffffff" onPress={() => router.back()} />
+          <View style={styles.headerText}>
+            <Text style={styles.headerTitle}>Reward Shop</Text>
+            <Text style={styles.headerSubtitle}>You have {diamonds} 💎 to spend</Text>
+          </View>
+        </View>
+
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        >
+          <Card style={styles.card}>
+            <Card.Content>
+              <Text style={styles.cardTitle}>Rewards</Text>
+              {loading ? (
+                <Text style={styles.emptyText}>Loading rewards...</Text>
+              ) : rewards.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  No rewards yet. Ask your parent to add some to the shop!
+                </Text>
+              ) : (
+                rewards.map((reward) => {
+                  const canAfford = diamonds >= reward.diamond_cost;
+                  return (
+                    <View key={reward.id} style={styles.rewardRow}>
+                      <MaterialIcons name="card-giftcard" size={24} color="#E91E63" />
+                      <View style={styles.rewardInfo}>
+                        <Text style={styles.rewardTitle}>{reward.title}</Text>
+                        {!!reward.description && (
+                          <Text style={styles.rewardDescription}>{reward.description}</Text>
+                        )}
+                        {!canAfford && (
+                          <Text style={styles.needMore}>
+                            {reward.diamond_cost - diamonds} more 💎 needed
+                          </Text>
+                        )}
+                      </View>
+                      <Button
+                        mode="contained"
+                        compact
+                        onPress={() => redeem(reward)}
+                        loading={redeemingId === reward.id}
+                        disabled={!canAfford || redeemingId !== null}
+                        style={styles.redeemButton}
+                      >
+                        {reward.diamond_cost} 💎
+                      </Button>
+                    </View>
+                  );
+                })
+              )}
+            </Card.Content>
+          </Card>
+
+          {redemptions.length > 0 && (
+            <Card style={styles.card}>
+              <Card.Content>
+                <Text style={styles.cardTitle}>My Requests</Text>
+                {redemptions.map((redemption) => {
+                  const status = STATUS_DETAILS[redemption.status];
+                  return (
+                    <View key={redemption.id} style={styles.redemptionRow}>
+                      <View style={styles.rewardInfo}>
+                        <Text style={styles.rewardTitle}>{redemption.reward_title}</Text>
+                        <Text style={styles.rewardDescription}>
+                          {new Date(redemption.created_at).toLocaleDateString()} • {redemption.diamond_cost} 💎
+                        </Text>
+                        {!!redemption.parent_note && (
+                          <Text style={styles.parentNote}>&ldquo;{redemption.parent_note}&rdquo;</Text>
+                        )}
+                      </View>
+                      <Chip compact textStyle={{ color: status.color, fontSize: 11 }}>
+                        {status.label}
+                      </Chip>
+                    </View>
+                  );
+                })}
+              </Card.Content>
+            </Card>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+      <AlertModal />
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingTop: 8,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    color: '#ffffff',
+    opacity: 0.8,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 32,
+    gap: 16,
+  },
+  card: {
+    borderRadius: 16,
+    elevation: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  redemptionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rewardInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  rewardTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  rewardDescription: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  needMore: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  parentNote: {
+    fontSize: 12,
+    color: '#333',
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  redeemButton: {
+    backgroundColor: '#00BCD4',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
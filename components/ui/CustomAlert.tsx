@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { Platform, Alert, Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 
 interface AlertConfig {
@@ -6,6 +6,8 @@ interface AlertConfig {
   title: string;
   message: string;
   onOk?: () => void;
+  // Label for the OK button; setting it adds a Cancel button
+  confirmText?: string;
 }
 
 export const useAlert = () => {
@@ -15,13 +17,21 @@ export const useAlert = () => {
     message: '',
   });
 
-  const showAlert = (title: string, message: string, onOk?: () => void) => {
+  // Stable across renders, so loaders that report errors with it can be hook dependencies
+  const showAlert = useCallback((title: string, message: string, onOk?: () => void, confirmText?: string) => {
     if (Platform.OS === 'web') {
-      setAlertConfig({ visible: true, title, message, onOk });
+      setAlertConfig({ visible: true, title, message, onOk, confirmText });
+    } else if (confirmText) {
+      Alert.alert(title, message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: confirmText, style: 'destructive', onPress: onOk },
+      ]);
     } else {
       Alert.alert(title, message, onOk ? [{ text: 'OK', onPress: onOk }] : undefined);
     }
-  };
+  }, []);
+
+  const hideAlert = () => setAlertConfig(prev => ({ ...prev, visible: false }));
 
   const AlertModal = () => {
     if (Platform.OS !== 'web') return null;
@@ -32,15 +42,22 @@ export const useAlert = () => {
           <View style={styles.alertContainer}>
             <Text style={styles.alertTitle}>{alertConfig.title}</Text>
             <Text style={styles.alertMessage}>{alertConfig.message}</Text>
-            <TouchableOpacity
-              style={styles.okButton}
-              onPress={() => {
-                alertConfig.onOk?.();
-                setAlertConfig(prev => ({ ...prev, visible: false }));
-              }}
-            >
-              <Text style={styles.okButtonText}>OK</Text>
-            </TouchableOpacity>
+            <View style={styles.buttonRow}>
+              {!!alertConfig.confirmText && (
+                <TouchableOpacity style={styles.cancelButton} onPress={hideAlert}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.okButton}
+                onPress={() => {
+                  alertConfig.onOk?.();
+                  hideAlert();
+                }}
+              >
+                <Text style={styles.okButtonText}>{alertConfig.confirmText || 'OK'}</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
       </Modal>
@@ -76,12 +93,29 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 22,
   },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   okButton: {
+    flex: 1,
     backgroundColor: '#667eea',
     padding: 12,
     borderRadius: 6,
     alignItems: 'center',
   },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f0f0f0',
+    padding: 12,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
   okButtonText: {
     color: 'white',
     fontWeight: 'bold',
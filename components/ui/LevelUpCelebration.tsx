@@ -0,0 +1,120 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet, Modal, Animated, Easing, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { LevelUpEvent } from '../../types/leveling';
+
+interface LevelUpCelebrationProps {
+  levelUp: LevelUpEvent | null;
+  onDismiss: () => void;
+}
+
+export function LevelUpCelebration({ levelUp, onDismiss }: LevelUpCelebrationProps) {
+  const scale = useRef(new Animated.Value(0)).current;
+  const spin = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!levelUp) return;
+
+    scale.setValue(0);
+    spin.setValue(0);
+    Animated.parallel([
+      Animated.spring(scale, {
+        toValue: 1,
+        friction: 4,
+        tension: 60,
+        useNativeDriver: true,
+      }),
+      Animated.timing(spin, {
+        toValue: 1,
+        duration: 900,
+        easing: Easing.out(Easing.back(2)),
+        useNativeDriver: true,
+      }),
+    ]).start();
+  }, [levelUp, scale, spin]);
+
+  if (!levelUp) return null;
+
+  const rotate = spin.interpolate({
+    inputRange: [0, 1],
+    outputRange: ['-180deg', '0deg'],
+  });
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onDismiss}>
+      <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onDismiss}>
+        <Animated.View style={[styles.card, { transform: [{ scale }] }]}>
+          <Animated.Text style={[styles.badge, { transform: [{ rotate }] }]}>🏅</Animated.Text>
+          <Text style={styles.title}>Level Up!</Text>
+          <Text style={styles.level}>Level {levelUp.level}</Text>
+          <Text style={styles.name}>{levelUp.name}</Text>
+          {levelUp.perks.length > 0 && (
+            <View style={styles.perks}>
+              <Text style={styles.perksTitle}>You unlocked</Text>
+              {levelUp.perks.map((perk) => (
+                <Text key={perk} style={styles.perk}>🎁 {perk}</Text>
+              ))}
+            </View>
+          )}
+          <Text style={styles.hint}>Tap to keep reading</Text>
+        </Animated.View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    padding: 32,
+    alignItems: 'center',
+    minWidth: 260,
+    elevation: 12,
+  },
+  badge: {
+    fontSize: 72,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#764ba2',
+    marginTop: 8,
+  },
+  level: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 4,
+  },
+  name: {
+    fontSize: 16,
+    color: '#667eea',
+    marginTop: 2,
+  },
+  perks: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  perksTitle: {
+    fontSize: 12,
+    color: '#999',
+    textTransform: 'uppercase',
+  },
+  perk: {
+    fontSize: 14,
+    color: '#333',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 20,
+  },
+});
@@ -0,0 +1,46 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { IconButton } from 'react-native-paper';
+import { MaterialIcons } from '@expo/vector-icons';
+
+interface StarRatingProps {
+  rating: number;
+  onChange?: (rating: number) => void;
+  size?: number;
+}
+
+export function StarRating({ rating, onChange, size = 28 }: StarRatingProps) {
+  return (
+    <View style={styles.container}>
+      {[1, 2, 3, 4, 5].map((star) =>
+        onChange ? (
+          <IconButton
+            key={star}
+            icon={star <= rating ? 'star' : 'star-outline'}
+            iconColor="#FFD700"
+            size={size}
+            style={styles.star}
+            onPress={() => onChange(star)}
+          />
+        ) : (
+          <MaterialIcons
+            key={star}
+            name={star <= rating ? 'star' : 'star-border'}
+            size={size}
+            color="#FFD700"
+          />
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  star: {
+    margin: 0,
+  },
+});
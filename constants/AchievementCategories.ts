@@ -0,0 +1,9 @@
+import { AchievementCategory } from '../types/achievements';
+
+export const ACHIEVEMENT_CATEGORIES: { value: AchievementCategory; label: string; emoji: string }[] = [
+  { value: 'reading', label: 'Reading', emoji: '🎤' },
+  { value: 'streaks', label: 'Streaks', emoji: '🔥' },
+  { value: 'books', label: 'Books & Assignments', emoji: '📚' },
+  { value: 'points', label: 'Points', emoji: '⭐' },
+  { value: 'family', label: 'Parent Reviews', emoji: '💬' },
+];
@@ -0,0 +1,20 @@
+import { CreateBookData } from '../types/books';
+
+// Bundled with the app so scanning still fills in popular titles without a network
+export const OFFLINE_BOOKS: CreateBookData[] = [
+  { isbn: '9780064430173', title: 'Goodnight Moon', author: 'Margaret Wise Brown', page_count: 32, reading_level: 'Pre-K' },
+  { isbn: '9780399226908', title: 'The Very Hungry Caterpillar', author: 'Eric Carle', page_count: 26, reading_level: 'Pre-K' },
+  { isbn: '9780060254926', title: 'Where the Wild Things Are', author: 'Maurice Sendak', page_count: 48, reading_level: 'K-2' },
+  { isbn: '9780394800011', title: 'The Cat in the Hat', author: 'Dr. Seuss', page_count: 61, reading_level: 'K-2' },
+  { isbn: '9780394800165', title: 'Green Eggs and Ham', author: 'Dr. Seuss', page_count: 62, reading_level: 'K-2' },
+  { isbn: '9780679824114', title: 'Dinosaurs Before Dark', author: 'Mary Pope Osborne', page_count: 68, reading_level: 'Grades 1-3' },
+  { isbn: '9780064400558', title: "Charlotte's Web", author: 'E. B. White', page_count: 184, reading_level: 'Grades 3-5' },
+  { isbn: '9780142410318', title: 'Charlie and the Chocolate Factory', author: 'Roald Dahl', page_count: 176, reading_level: 'Grades 3-5' },
+  { isbn: '9780142410370', title: 'Matilda', author: 'Roald Dahl', page_count: 240, reading_level: 'Grades 3-5' },
+  { isbn: '9780810993136', title: 'Diary of a Wimpy Kid', author: 'Jeff Kinney', page_count: 224, reading_level: 'Grades 3-6' },
+  { isbn: '9780064404990', title: 'The Lion, the Witch and the Wardrobe', author: 'C. S. Lewis', page_count: 208, reading_level: 'Grades 3-6' },
+  { isbn: '9780590353427', title: "Harry Potter and the Sorcerer's Stone", author: 'J. K. Rowling', page_count: 309, reading_level: 'Grades 4-7' },
+  { isbn: '9780440414803', title: 'Holes', author: 'Louis Sachar', page_count: 233, reading_level: 'Grades 4-7' },
+  { isbn: '9781416936473', title: 'Hatchet', author: 'Gary Paulsen', page_count: 195, reading_level: 'Grades 5-8' },
+  { isbn: '9780375869020', title: 'Wonder', author: 'R. J. Palacio', page_count: 320, reading_level: 'Grades 4-7' },
+];
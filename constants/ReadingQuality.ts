@@ -0,0 +1,11 @@
+import { ReadingQuality } from '../types/audio';
+
+export const READING_QUALITY_OPTIONS: { value: ReadingQuality; label: string; color: string }[] = [
+  { value: 'needs_practice', label: 'Needs practice', color: '#F44336' },
+  { value: 'good', label: 'Good', color: '#FF9800' },
+  { value: 'great', label: 'Great', color: '#2196F3' },
+  { value: 'excellent', label: 'Excellent', color: '#4CAF50' },
+];
+
+export const getReadingQualityOption = (quality?: ReadingQuality) =>
+  READING_QUALITY_OPTIONS.find(option => option.value === quality);
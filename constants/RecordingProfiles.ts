@@ -0,0 +1,76 @@
+import { Audio } from 'expo-av';
+import { RecordingProfile, RecordingProfileId } from '../types/audio';
+
+const speechOptions = (sampleRate: number, numberOfChannels: number, bitRate: number): Audio.RecordingOptions => ({
+  isMeteringEnabled: true,
+  android: {
+    extension: '.m4a',
+    outputFormat: Audio.AndroidOutputFormat.MPEG_4,
+    audioEncoder: Audio.AndroidAudioEncoder.AAC,
+    sampleRate,
+    numberOfChannels,
+    bitRate,
+  },
+  ios: {
+    extension: '.m4a',
+    outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+    audioQuality: bitRate >= 128000 ? Audio.IOSAudioQuality.MAX : Audio.IOSAudioQuality.MEDIUM,
+    sampleRate,
+    numberOfChannels,
+    bitRate,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: bitRate,
+  },
+});
+
+// A voice needs far less than music: the speech profile is about 4 MB per
+// 15 minutes, against about 14 MB for high quality
+export const RECORDING_PROFILES: RecordingProfile[] = [
+  {
+    id: 'speech',
+    label: 'Speech',
+    description: 'Smallest files, clear voice. Best for long reading sessions.',
+    sample_rate: 22050,
+    channels: 1,
+    bitrate: 32000,
+    options: speechOptions(22050, 1, 32000),
+  },
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: 'Balanced size and sound.',
+    sample_rate: 44100,
+    channels: 1,
+    bitrate: 64000,
+    options: speechOptions(44100, 1, 64000),
+  },
+  {
+    id: 'high',
+    label: 'High',
+    description: 'Best sound, largest files.',
+    sample_rate: 44100,
+    channels: 2,
+    bitrate: 128000,
+    options: speechOptions(44100, 2, 128000),
+  },
+];
+
+export const DEFAULT_RECORDING_PROFILE: RecordingProfileId = 'speech';
+
+export const getRecordingProfile = (id?: RecordingProfileId | null) =>
+  RECORDING_PROFILES.find(profile => profile.id === id)
+  || RECORDING_PROFILES.find(profile => profile.id === DEFAULT_RECORDING_PROFILE)!;
+
+// Container and MIME type for a recorded file. Native recorders write AAC in
+// MPEG-4; browsers report what MediaRecorder actually produced.
+export const getAudioFormat = (mimeType?: string | null) => {
+  const type = mimeType?.split(';')[0].trim().toLowerCase();
+  if (type === 'audio/webm') return { format: 'webm', content_type: 'audio/webm' };
+  if (type === 'audio/ogg') return { format: 'ogg', content_type: 'audio/ogg' };
+  return { format: 'm4a', content_type: 'audio/mp4' };
+};
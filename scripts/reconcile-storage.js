@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+/**
+ * Reports audio files in the audio-files bucket that no recording points at,
+ * and recordings whose audio file is missing, grouped by user. With --clean
+ * the orphaned files are removed and the dangling recording rows deleted.
+ *
+ * Needs the service role key, so run it from a trusted machine or a scheduled
+ * job (e.g. a nightly cron), never from the app:
+ *
+ *   SUPABASE_SERVICE_ROLE_KEY=... npm run reconcile-storage -- [--clean] [--user <id>] [--grace-days <n>]
+ *
+ * Exits with status 1 when anything fails, so a scheduler can alert on it.
+ */
+const { createClient } = require("@supabase/supabase-js");
+
+const BUCKET = "audio-files";
+// Storage removes at most this many paths per request
+const REMOVE_BATCH_SIZE = 100;
+
+const parseArgs = (argv) => {
+  const options = { clean: false, user: null, graceDays: 7 };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--clean":
+        options.clean = true;
+        break;
+      case "--user":
+        options.user = argv[++i];
+        break;
+      case "--grace-days":
+        options.graceDays = Number(argv[++i]);
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!Number.isFinite(options.graceDays) || options.graceDays < 0) {
+    throw new Error("--grace-days must be a number of days, 0 or more");
+  }
+  return options;
+};
+
+const formatSize = (bytes) => (bytes ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : "? MB");
+
+const printReport = (rows) => {
+  const byUser = new Map();
+  rows.forEach((row) => {
+    const key = row.user_id || "(no user folder)";
+    byUser.set(key, [...(byUser.get(key) || []), row]);
+  });
+
+  byUser.forEach((userRows, userId) => {
+    console.log(`\n👤 ${userId}`);
+    userRows.forEach((row) => {
+      if (row.kind === "orphaned_file") {
+        console.log(`  🗂️  orphaned file     ${row.file_path} (${formatSize(row.file_size)}, ${row.created_at})`);
+      } else {
+        console.log(`  📄 dangling record  ${row.record_id} → ${row.file_path} (${row.created_at})`);
+      }
+    });
+  });
+
+  const files = rows.filter((row) => row.kind === "orphaned_file");
+  const records = rows.filter((row) => row.kind === "dangling_record");
+  const bytes = files.reduce((sum, row) => sum + (row.file_size || 0), 0);
+  console.log(
+    `\n📊 ${files.length} orphaned file(s), ${formatSize(bytes)}; ${records.length} dangling record(s) across ${byUser.size} user(s)`
+  );
+};
+
+const removeOrphanedFiles = async (supabase, rows) => {
+  const paths = rows.filter((row) => row.kind === "orphaned_file").map((row) => row.file_path);
+  let removed = 0;
+  let failed = 0;
+
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+    const { data, error } = await supabase.storage.from(BUCKET).remove(batch);
+    if (error) {
+      console.error("❌ Remove files error:", error.message);
+      failed += batch.length;
+    } else {
+      removed += data.length;
+    }
+  }
+
+  return { removed, failed };
+};
+
+// Analyses, transcripts and accuracy scores go with the row. Points already
+// paid for the recording stay in the ledger.
+const deleteDanglingRecords = async (supabase, rows) => {
+  const ids = rows.filter((row) => row.kind === "dangling_record").map((row) => row.record_id);
+  if (ids.length === 0) return { deleted: 0, failed: 0 };
+
+  const { data, error } = await supabase.from("audio_records").delete().in("id", ids).select("id");
+  if (error) {
+    console.error("❌ Delete records error:", error.message);
+    return { deleted: 0, failed: ids.length };
+  }
+  return { deleted: data.length, failed: 0 };
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  const url = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("Set SUPABASE_URL (or EXPO_PUBLIC_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  const supabase = createClient(url, serviceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  console.log(
+    `🔍 Reconciling ${BUCKET}${options.user ? ` for ${options.user}` : ""}, ignoring files newer than ${options.graceDays} day(s)`
+  );
+
+  const { data: rows, error } = await supabase.rpc("find_storage_orphans", {
+    student: options.user,
+    grace: `${options.graceDays} days`,
+  });
+  if (error) throw error;
+
+  if (rows.length === 0) {
+    console.log("✅ Storage and recordings match");
+    return true;
+  }
+
+  printReport(rows);
+
+  if (!options.clean) {
+    console.log("\nℹ️  Report only. Run again with --clean to remove these.");
+    return true;
+  }
+
+  const files = await removeOrphanedFiles(supabase, rows);
+  const records = await deleteDanglingRecords(supabase, rows);
+  console.log(`\n🧹 Removed ${files.removed} file(s), deleted ${records.deleted} record(s)`);
+
+  return files.failed === 0 && records.failed === 0;
+};
+
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((error) => {
+    console.error("❌ Storage reconciliation failed:", error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,80 @@
+import { alignWords, normalizeWord, scoreReading } from '../accuracy';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+describe('normalizeWord', () => {
+  it('drops case, punctuation and apostrophes', () => {
+    expect(normalizeWord('"Don\'t,')).toBe('dont');
+    expect(normalizeWord('Wilbur!')).toBe('wilbur');
+  });
+});
+
+describe('alignWords', () => {
+  it('walks the passage and transcript into matches, substitutions, skips and insertions', () => {
+    expect(alignWords(['the', 'cat', 'sat'], ['the', 'hat', 'sat'])).toEqual([
+      { type: 'match', passage: 0, spoken: 0 },
+      { type: 'substitute', passage: 1, spoken: 1 },
+      { type: 'match', passage: 2, spoken: 2 },
+    ]);
+    expect(alignWords(['the', 'big', 'cat'], ['the', 'cat'])).toEqual([
+      { type: 'match', passage: 0, spoken: 0 },
+      { type: 'skip', passage: 1 },
+      { type: 'match', passage: 2, spoken: 1 },
+    ]);
+    expect(alignWords(['the', 'cat'], ['the', 'cat', 'now'])).toEqual([
+      { type: 'match', passage: 0, spoken: 0 },
+      { type: 'match', passage: 1, spoken: 1 },
+      { type: 'insert', spoken: 2 },
+    ]);
+  });
+
+  it('prefers a substitution to a skip and an insertion that cost the same', () => {
+    expect(alignWords(['big', 'cat'], ['cat', 'now']).map(step => step.type)).toEqual(['substitute', 'substitute']);
+  });
+});
+
+describe('scoreReading', () => {
+  it('matches words regardless of case and punctuation', () => {
+    const result = scoreReading('"Don\'t go," said Fern.', 'dont go said fern');
+    expect(result).toEqual(expect.objectContaining({ accuracy: 100, passage_word_count: 4, correct_count: 4 }));
+  });
+
+  it('counts a different word as a substitution and keeps what was said', () => {
+    const result = scoreReading('The cat sat.', 'the hat sat')!;
+    expect(result.accuracy).toBe(66.7);
+    expect(result.substituted_count).toBe(1);
+    expect(result.alignment[1]).toEqual({ word: 'cat', status: 'substituted', spoken: 'hat' });
+  });
+
+  it('counts a missed word as skipped', () => {
+    const result = scoreReading('The big cat sat.', 'the cat sat')!;
+    expect(result.accuracy).toBe(75);
+    expect(result.skipped_count).toBe(1);
+    expect(result.alignment[1]).toEqual({ word: 'big', status: 'skipped' });
+  });
+
+  it('reports extra words without counting them against accuracy', () => {
+    const result = scoreReading('The cat sat.', 'the cat really sat')!;
+    expect(result.accuracy).toBe(100);
+    expect(result.inserted_count).toBe(1);
+    expect(result.repeated_count).toBe(0);
+  });
+
+  it('treats saying a word again as a repeat, not an error', () => {
+    const result = scoreReading('The cat sat.', 'the cat cat sat')!;
+    expect(result.accuracy).toBe(100);
+    expect(result.repeated_count).toBe(1);
+    expect(result.inserted_count).toBe(0);
+    expect(result.alignment[1]).toEqual({ word: 'cat', status: 'correct', repeated: true });
+  });
+
+  it('skips every word of an empty transcript', () => {
+    const result = scoreReading('The cat sat.', '')!;
+    expect(result.accuracy).toBe(0);
+    expect(result.skipped_count).toBe(3);
+  });
+
+  it('is null for a passage with no words', () => {
+    expect(scoreReading(' -- ', 'the cat sat')).toBeNull();
+  });
+});
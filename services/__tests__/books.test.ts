@@ -0,0 +1,60 @@
+import { escapeLikePattern, getPagesRead, validatePageRange } from '../books';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+describe('getPagesRead', () => {
+  it('counts both the start and end page', () => {
+    expect(getPagesRead(10, 14)).toBe(5);
+    expect(getPagesRead(7, 7)).toBe(1);
+  });
+
+  it('is zero without a complete, forward range', () => {
+    expect(getPagesRead()).toBe(0);
+    expect(getPagesRead(5, null)).toBe(0);
+    expect(getPagesRead(null, 5)).toBe(0);
+    expect(getPagesRead(9, 3)).toBe(0);
+  });
+});
+
+describe('validatePageRange', () => {
+  it('accepts no pages at all', () => {
+    expect(validatePageRange()).toBeNull();
+  });
+
+  it('accepts a range inside the book', () => {
+    expect(validatePageRange(1, 20, 200)).toBeNull();
+    expect(validatePageRange(200, 200, 200)).toBeNull();
+    expect(validatePageRange(3, 8)).toBeNull();
+  });
+
+  it('needs both ends of the range', () => {
+    expect(validatePageRange(4, undefined)).toBe('Enter both the start and end page');
+    expect(validatePageRange(undefined, 4)).toBe('Enter both the start and end page');
+  });
+
+  it('rejects pages that are not positive whole numbers', () => {
+    expect(validatePageRange(0, 4)).toBe('Pages must be whole numbers');
+    expect(validatePageRange(1.5, 4)).toBe('Pages must be whole numbers');
+    expect(validatePageRange(2, NaN)).toBe('Pages must be whole numbers');
+  });
+
+  it('rejects a backwards range', () => {
+    expect(validatePageRange(12, 9)).toBe('End page cannot be before the start page');
+  });
+
+  it('rejects pages past the end of the book', () => {
+    expect(validatePageRange(190, 210, 200)).toBe('This book only has 200 pages');
+  });
+});
+
+describe('escapeLikePattern', () => {
+  it('leaves ordinary titles alone', () => {
+    expect(escapeLikePattern("Charlotte's Web")).toBe("Charlotte's Web");
+  });
+
+  it('escapes wildcards and backslashes', () => {
+    expect(escapeLikePattern('100% Wolf')).toBe('100\\% Wolf');
+    expect(escapeLikePattern('my_book')).toBe('my\\_book');
+    expect(escapeLikePattern('C:\\Stories')).toBe('C:\\\\Stories');
+  });
+});
@@ -0,0 +1,28 @@
+import { gamificationService } from '../gamification';
+import { MIN_SPEECH_SECONDS } from '../fluency';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const { calculateRecordingPoints } = gamificationService;
+
+describe('calculateRecordingPoints', () => {
+  it('earns nothing with too little speech', () => {
+    expect(calculateRecordingPoints(0)).toEqual({ basePoints: 0, durationBonus: 0, totalPoints: 0 });
+    expect(calculateRecordingPoints(MIN_SPEECH_SECONDS - 1).totalPoints).toBe(0);
+  });
+
+  it('adds two points per started minute of speech to the base', () => {
+    expect(calculateRecordingPoints(MIN_SPEECH_SECONDS)).toEqual({ basePoints: 10, durationBonus: 2, totalPoints: 12 });
+    expect(calculateRecordingPoints(150)).toEqual({ basePoints: 10, durationBonus: 6, totalPoints: 16 });
+  });
+
+  it('caps the bonus at 20 points', () => {
+    expect(calculateRecordingPoints(20 * 60)).toEqual({ basePoints: 10, durationBonus: 20, totalPoints: 30 });
+    expect(calculateRecordingPoints(60 * 60).totalPoints).toBe(30);
+  });
+
+  it('pays an assignment its fixed reward whatever the speech', () => {
+    expect(calculateRecordingPoints(0, 25)).toEqual({ basePoints: 25, durationBonus: 0, totalPoints: 25 });
+    expect(calculateRecordingPoints(600, 0).totalPoints).toBe(0);
+  });
+});
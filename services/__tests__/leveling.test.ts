@@ -0,0 +1,107 @@
+import {
+  DEFAULT_LEVELING_CONFIG,
+  detectLevelUp,
+  getLevelForPoints,
+  getLevelInfo,
+  getLevelName,
+  getLevelThreshold,
+} from '../leveling';
+import { LevelCurve, LevelingConfig } from '../../types/leveling';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const withCurve = (curve: LevelCurve): LevelingConfig => ({ ...DEFAULT_LEVELING_CONFIG, curve });
+
+describe('getLevelThreshold', () => {
+  it('starts every curve at zero', () => {
+    expect(getLevelThreshold(1, { type: 'linear', points_per_level: 100 })).toBe(0);
+    expect(getLevelThreshold(1, { type: 'exponential', base_points: 100, growth: 2 })).toBe(0);
+    expect(getLevelThreshold(1, { type: 'table', thresholds: [0, 50] })).toBe(0);
+  });
+
+  it('adds a fixed amount per level on a linear curve', () => {
+    const curve: LevelCurve = { type: 'linear', points_per_level: 100 };
+    expect(getLevelThreshold(2, curve)).toBe(100);
+    expect(getLevelThreshold(5, curve)).toBe(400);
+  });
+
+  it('grows each step on an exponential curve', () => {
+    const curve: LevelCurve = { type: 'exponential', base_points: 100, growth: 1.5 };
+    expect(getLevelThreshold(2, curve)).toBe(100);
+    expect(getLevelThreshold(3, curve)).toBe(250);
+    expect(getLevelThreshold(4, curve)).toBe(475);
+  });
+
+  it('treats a growth of 1 as linear', () => {
+    expect(getLevelThreshold(4, { type: 'exponential', base_points: 80, growth: 1 })).toBe(240);
+  });
+
+  it('reads a table and keeps adding its last step past the end', () => {
+    const curve: LevelCurve = { type: 'table', thresholds: [0, 50, 150, 300] };
+    expect(getLevelThreshold(2, curve)).toBe(50);
+    expect(getLevelThreshold(4, curve)).toBe(300);
+    expect(getLevelThreshold(5, curve)).toBe(450);
+    expect(getLevelThreshold(6, curve)).toBe(600);
+  });
+});
+
+describe('getLevelForPoints', () => {
+  it('keeps the original 100 points per level by default', () => {
+    expect(getLevelForPoints(0)).toBe(1);
+    expect(getLevelForPoints(99)).toBe(1);
+    expect(getLevelForPoints(100)).toBe(2);
+    expect(getLevelForPoints(450)).toBe(5);
+  });
+
+  it('follows the configured curve', () => {
+    const config = withCurve({ type: 'table', thresholds: [0, 50, 150, 300] });
+    expect(getLevelForPoints(49, config)).toBe(1);
+    expect(getLevelForPoints(150, config)).toBe(3);
+    expect(getLevelForPoints(460, config)).toBe(5);
+  });
+});
+
+describe('getLevelName', () => {
+  it('uses the last name for levels past the list', () => {
+    expect(getLevelName(2)).toBe('Story Seeker');
+    expect(getLevelName(20)).toBe('Library Legend');
+  });
+
+  it('falls back to the level number without names', () => {
+    expect(getLevelName(3, { ...DEFAULT_LEVELING_CONFIG, level_names: [] })).toBe('Level 3');
+  });
+});
+
+describe('getLevelInfo', () => {
+  it('reports progress through the current level and the next perk', () => {
+    expect(getLevelInfo(150)).toEqual({
+      level: 2,
+      name: 'Story Seeker',
+      currentLevelMin: 100,
+      nextLevelMin: 200,
+      pointsToNext: 50,
+      progress: 0.5,
+      nextPerk: { level: 3, perk: 'Silver reader badge' },
+    });
+  });
+
+  it('has no next perk once every perk is reached', () => {
+    expect(getLevelInfo(5000).nextPerk).toBeUndefined();
+  });
+});
+
+describe('detectLevelUp', () => {
+  it('reports the new level and every perk passed on the way', () => {
+    expect(detectLevelUp(90, 410)).toEqual({
+      previousLevel: 1,
+      level: 5,
+      name: 'Reading Ranger',
+      perks: ['Silver reader badge', 'Gold reader badge'],
+    });
+  });
+
+  it('is null without a new level', () => {
+    expect(detectLevelUp(120, 180)).toBeNull();
+    expect(detectLevelUp(300, 250)).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { calculateStreaks, countPerfectWeeks, shiftDateKey, toLocalDateKey } from '../streaks';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+// Monday 2026-10-12 to Sunday 2026-10-18
+const week = ['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18'];
+
+describe('toLocalDateKey', () => {
+  it('uses the calendar day in the given time zone', () => {
+    const instant = new Date('2026-10-19T02:30:00Z');
+    expect(toLocalDateKey(instant, 'America/New_York')).toBe('2026-10-18');
+    expect(toLocalDateKey(instant, 'Asia/Tokyo')).toBe('2026-10-19');
+  });
+
+  it('falls back to the device calendar for an unknown time zone', () => {
+    expect(toLocalDateKey(new Date(2026, 9, 19, 12), 'Not/A_Zone')).toBe('2026-10-19');
+  });
+});
+
+describe('shiftDateKey', () => {
+  it('moves across month and year ends', () => {
+    expect(shiftDateKey('2026-03-01', -1)).toBe('2026-02-28');
+    expect(shiftDateKey('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
+
+describe('calculateStreaks', () => {
+  it('keeps a streak ending yesterday alive while today is in progress', () => {
+    expect(calculateStreaks(week.slice(3), [], '2026-10-19')).toEqual({ currentStreak: 4, longestStreak: 4 });
+  });
+
+  it('counts today once it has a reading', () => {
+    expect(calculateStreaks([...week.slice(3), '2026-10-19'], [], '2026-10-19')).toEqual({
+      currentStreak: 5,
+      longestStreak: 5,
+    });
+  });
+
+  it('resets after a missed day', () => {
+    expect(calculateStreaks(week.slice(0, 5), [], '2026-10-19')).toEqual({ currentStreak: 0, longestStreak: 5 });
+    expect(calculateStreaks(['2026-10-10', '2026-10-11', '2026-10-12', '2026-10-17', '2026-10-18'], [], '2026-10-19'))
+      .toEqual({ currentStreak: 2, longestStreak: 3 });
+  });
+
+  it('bridges a frozen day without adding it to the length', () => {
+    expect(calculateStreaks(['2026-10-15', '2026-10-16', '2026-10-18'], ['2026-10-17'], '2026-10-19')).toEqual({
+      currentStreak: 3,
+      longestStreak: 3,
+    });
+  });
+
+  it('is zero without readings', () => {
+    expect(calculateStreaks([], ['2026-10-18'], '2026-10-19')).toEqual({ currentStreak: 0, longestStreak: 0 });
+  });
+});
+
+describe('countPerfectWeeks', () => {
+  it('counts Monday-to-Sunday weeks read every day', () => {
+    expect(countPerfectWeeks(week)).toBe(1);
+    expect(countPerfectWeeks([...week, '2026-10-19', '2026-10-20'])).toBe(1);
+  });
+
+  it('ignores seven days in a row that span two weeks', () => {
+    expect(countPerfectWeeks(['2026-10-07', '2026-10-08', '2026-10-09', '2026-10-10', '2026-10-11', '2026-10-12', '2026-10-13']))
+      .toBe(0);
+  });
+
+  it('ignores a week with a missed day', () => {
+    expect(countPerfectWeeks(week.filter(day => day !== '2026-10-15'))).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import * as FileSystem from 'expo-file-system';
+import {
+  createStubTranscriptionEngine,
+  findWordAt,
+  localSpeechEngine,
+  spreadWords,
+  transcriptionService,
+} from '../transcription';
+import { AudioRecord } from '../../types/audio';
+import { TranscriptionEngine } from '../../types/transcription';
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  copyAsync: jest.fn(async () => {}),
+  deleteAsync: jest.fn(async () => {}),
+  downloadAsync: jest.fn(async () => ({})),
+}));
+jest.mock('../supabase', () => {
+  const upsert = jest.fn();
+  return { supabase: { from: jest.fn(() => ({ upsert })) }, upsert };
+});
+jest.mock('../audio', () => ({
+  audioService: {
+    getAudioFileUrl: jest.fn(),
+    getPlaybackWindow: (record: AudioRecord) => ({ start: record.trim_start || 0, end: record.trim_end || undefined }),
+  },
+}));
+
+const { upsert }: { upsert: jest.Mock } = jest.requireMock('../supabase');
+const deleteAsync = jest.mocked(FileSystem.deleteAsync);
+
+const STORY = 'Once upon a time there was a reader who loved books';
+
+const recording = (overrides: Partial<AudioRecord> = {}): AudioRecord => ({
+  id: 'record-1',
+  user_id: 'student-1',
+  title: 'Chapter one',
+  file_path: 'student-1/recording-1.m4a',
+  duration: 11,
+  trim_start: 2,
+  trim_end: 13,
+  created_at: new Date(0).toISOString(),
+  updated_at: new Date(0).toISOString(),
+  ...overrides,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  // Echo the saved row back the way .select().single() would
+  upsert.mockImplementation(row => ({
+    select: () => ({ single: async () => ({ data: { ...row, created_at: new Date(0).toISOString() }, error: null }) }),
+  }));
+  transcriptionService.setEngine(createStubTranscriptionEngine(STORY));
+});
+
+afterAll(() => {
+  transcriptionService.setEngine(localSpeechEngine);
+});
+
+describe('spreadWords', () => {
+  it('gives every word an even share of the reading', () => {
+    expect(spreadWords('the cat sat', 3)).toEqual([
+      { word: 'the', start: 0, end: 1 },
+      { word: 'cat', start: 1, end: 2 },
+      { word: 'sat', start: 2, end: 3 },
+    ]);
+  });
+
+  it('starts at the trim point so words line up with playback positions', () => {
+    const words = spreadWords('the cat sat', 3, 4.5);
+    expect(words[0]).toEqual({ word: 'the', start: 4.5, end: 5.5 });
+    expect(words[2].end).toBe(7.5);
+  });
+
+  it('falls back to a reading pace without a duration', () => {
+    expect(spreadWords('one two', undefined, 1).map(word => word.start)).toEqual([1, 1.4]);
+  });
+
+  it('is empty without words', () => {
+    expect(spreadWords('  ', 10)).toEqual([]);
+  });
+});
+
+describe('findWordAt', () => {
+  const words = spreadWords('the cat sat', 3, 4.5);
+
+  it('finds the word being spoken at a file position', () => {
+    expect(findWordAt(words, 4.5)).toBe(0);
+    expect(findWordAt(words, 5.9)).toBe(1);
+    expect(findWordAt(words, 20)).toBe(2);
+  });
+
+  it('is -1 in the trimmed silence before the reading', () => {
+    expect(findWordAt(words, 0)).toBe(-1);
+    expect(findWordAt(words, 4.4)).toBe(-1);
+  });
+});
+
+describe('transcriptionService.transcribeRecording', () => {
+  it('saves what the engine heard with words placed over the reading', async () => {
+    const transcript = await transcriptionService.transcribeRecording(recording(), 'file:///cache/transcribe-record-1.m4a');
+
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({
+      recording_id: 'record-1',
+      user_id: 'student-1',
+      engine: 'stub',
+      language: 'en-US',
+      text: STORY,
+    }));
+    expect(transcript?.words).toHaveLength(11);
+    expect(transcript?.words[0]).toEqual({ word: 'Once', start: 2, end: 3 });
+    expect(transcript?.words[10].end).toBe(13);
+  });
+
+  it('removes the temporary copy afterwards', async () => {
+    await transcriptionService.transcribeRecording(recording(), 'file:///cache/transcribe-record-1.m4a');
+
+    expect(deleteAsync).toHaveBeenCalledWith('file:///cache/transcribe-record-1.m4a', { idempotent: true });
+  });
+
+  it('does nothing when no engine is available', async () => {
+    const unavailable: TranscriptionEngine = {
+      ...createStubTranscriptionEngine(),
+      async isAvailable() {
+        return false;
+      },
+    };
+    transcriptionService.setEngine(unavailable);
+
+    expect(await transcriptionService.transcribeRecording(recording(), 'file:///cache/transcribe-record-1.m4a')).toBeNull();
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('fails when the transcript cannot be stored', async () => {
+    upsert.mockImplementation(() => ({
+      select: () => ({ single: async () => ({ data: null, error: new Error('permission denied') }) }),
+    }));
+
+    await expect(transcriptionService.transcribeRecording(recording(), 'file:///cache/transcribe-record-1.m4a'))
+      .rejects.toThrow('permission denied');
+    expect(deleteAsync).toHaveBeenCalledWith('file:///cache/transcribe-record-1.m4a', { idempotent: true });
+  });
+});
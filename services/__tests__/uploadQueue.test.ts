@@ -0,0 +1,323 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { uploadQueueService, isAlreadySaved, isSubmitCancelled } from '../uploadQueue';
+import { audioService } from '../audio';
+import { gamificationService } from '../gamification';
+import { readingSessionService } from '../readingSessions';
+import { transcriptionService } from '../transcription';
+import { Achievement } from '../../types/achievements';
+import { AudioRecord, PendingRecording } from '../../types/audio';
+import { ReadingSessionResult } from '../../types/readingSessions';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn(async () => ({ isConnected: true })),
+  addEventListener: jest.fn(() => jest.fn()),
+}));
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///documents/',
+  deleteAsync: jest.fn(async () => {}),
+}));
+jest.mock('../../constants/RecordingProfiles', () => ({
+  getAudioFormat: () => ({ format: 'm4a', content_type: 'audio/mp4' }),
+  getRecordingProfile: jest.fn(),
+}));
+jest.mock('../supabase', () => ({
+  supabase: {
+    auth: { getSession: jest.fn(async () => ({ data: { session: { user: { id: 'student-1' } } } })) },
+  },
+}));
+jest.mock('../audio', () => ({
+  audioService: { uploadAudioFile: jest.fn(), deleteAudioFile: jest.fn() },
+}));
+jest.mock('../resumableUpload', () => ({
+  ...jest.requireActual('../resumableUpload'),
+  resumableUploadService: { terminate: jest.fn() },
+}));
+jest.mock('../gamification', () => ({
+  gamificationService: { applyLevelChange: jest.fn() },
+}));
+jest.mock('../readingSessions', () => ({
+  readingSessionService: { submit: jest.fn(), getSaved: jest.fn() },
+}));
+jest.mock('../transcription', () => ({
+  transcriptionService: { transcribeInBackground: jest.fn() },
+}));
+
+const QUEUE_STORAGE_KEY = 'pending_recordings_v1';
+
+const uploadAudioFile = jest.mocked(audioService.uploadAudioFile);
+const deleteAudioFile = jest.mocked(audioService.deleteAudioFile);
+const applyLevelChange = jest.mocked(gamificationService.applyLevelChange);
+const submitSession = jest.mocked(readingSessionService.submit);
+const getSavedSession = jest.mocked(readingSessionService.getSaved);
+const transcribeInBackground = jest.mocked(transcriptionService.transcribeInBackground);
+
+const levelUp = { previousLevel: 1, level: 2, name: 'Story Seeker', perks: [] };
+
+const queued = (overrides: Partial<PendingRecording> = {}): PendingRecording => ({
+  id: 'session-1',
+  user_id: 'student-1',
+  local_uri: 'file:///documents/pending-recordings/session-1.m4a',
+  file_name: 'recording-1.m4a',
+  title: 'Chapter one',
+  duration: 90,
+  file_size: 1000,
+  points_earned: 12,
+  status: 'waiting',
+  attempts: 0,
+  next_attempt_at: new Date(0).toISOString(),
+  created_at: new Date(0).toISOString(),
+  ...overrides,
+});
+
+const savedRecord = (overrides: Partial<AudioRecord> = {}): AudioRecord => ({
+  id: 'record-1',
+  user_id: 'student-1',
+  title: 'Chapter one',
+  file_path: 'student-1/recording-1.m4a',
+  duration: 90,
+  points_earned: 12,
+  created_at: new Date(0).toISOString(),
+  updated_at: new Date(0).toISOString(),
+  ...overrides,
+});
+
+const achievement = (overrides: Partial<Achievement> = {}): Achievement => ({
+  id: 'first-reading',
+  name: 'First Reading',
+  description: 'Save your first recording',
+  icon: 'mic',
+  points_reward: 10,
+  diamonds_reward: 1,
+  requirement_type: 'total_recordings',
+  requirement_value: 1,
+  ...overrides,
+});
+
+const sessionResult = (overrides: Partial<ReadingSessionResult> = {}): ReadingSessionResult => ({
+  record: savedRecord(),
+  points_earned: 12,
+  points_before: 90,
+  points_after: 102,
+  current_streak: 3,
+  longest_streak: 5,
+  new_achievements: [achievement()],
+  ...overrides,
+});
+
+const setQueue = (items: PendingRecording[]) => AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(items));
+
+const getQueue = async (): Promise<PendingRecording[]> =>
+  JSON.parse((await AsyncStorage.getItem(QUEUE_STORAGE_KEY)) || '[]');
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  await AsyncStorage.clear();
+
+  uploadAudioFile.mockResolvedValue('student-1/recording-1.m4a');
+  deleteAudioFile.mockResolvedValue();
+  applyLevelChange.mockResolvedValue({ newPoints: 102, newLevel: 2, levelUp });
+  submitSession.mockResolvedValue(sessionResult());
+  getSavedSession.mockResolvedValue(null);
+  transcribeInBackground.mockResolvedValue();
+});
+
+describe('uploadQueueService.submit', () => {
+  it('uploads, saves the session and drops the item', async () => {
+    await setQueue([queued()]);
+
+    const result = await uploadQueueService.submit('session-1');
+
+    expect(submitSession).toHaveBeenCalledWith('session-1', expect.objectContaining({
+      file_path: 'student-1/recording-1.m4a',
+      recorded_at: new Date(0).toISOString(),
+    }));
+    expect(result).toEqual(expect.objectContaining({ pointsEarned: 12, levelUp, currentStreak: 3 }));
+    expect(result.newAchievements).toHaveLength(1);
+    expect(await getQueue()).toEqual([]);
+  });
+
+  it('skips the upload once the file is on the server', async () => {
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a' })]);
+
+    await uploadQueueService.submit('session-1');
+
+    expect(uploadAudioFile).not.toHaveBeenCalled();
+    expect(submitSession).toHaveBeenCalled();
+  });
+
+  it('keeps a failed item with backoff and the uploaded file', async () => {
+    submitSession.mockRejectedValue(new Error('Network request failed'));
+    await setQueue([queued()]);
+
+    await expect(uploadQueueService.submit('session-1')).rejects.toThrow('Network request failed');
+
+    const [item] = await getQueue();
+    expect(item).toEqual(expect.objectContaining({
+      status: 'failed',
+      attempts: 1,
+      last_error: 'Network request failed',
+      file_path: 'student-1/recording-1.m4a',
+    }));
+    expect(new Date(item.next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('uploads again when the server no longer has the file', async () => {
+    submitSession.mockRejectedValue(new Error('Recording file has not finished uploading'));
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', upload_url: 'https://upload/1', uploaded_bytes: 1000 })]);
+
+    await expect(uploadQueueService.submit('session-1')).rejects.toThrow();
+
+    const [item] = await getQueue();
+    expect(item.status).toBe('failed');
+    expect(item.file_path).toBeUndefined();
+    expect(item.upload_url).toBeUndefined();
+    expect(item.uploaded_bytes).toBeUndefined();
+  });
+
+  it('marks a paused upload as paused instead of failed', async () => {
+    uploadAudioFile.mockRejectedValue(Object.assign(new Error('Upload paused'), { paused: true }));
+    await setQueue([queued()]);
+
+    await expect(uploadQueueService.submit('session-1')).rejects.toThrow('Upload paused');
+
+    const [item] = await getQueue();
+    expect(item.status).toBe('paused');
+    expect(item.attempts).toBe(0);
+  });
+
+  it('remembers the saved record when a later step fails', async () => {
+    transcribeInBackground.mockRejectedValue(new Error('Transcription unavailable'));
+    await setQueue([queued()]);
+
+    await expect(uploadQueueService.submit('session-1')).rejects.toThrow('Transcription unavailable');
+
+    const [item] = await getQueue();
+    expect(item.record_id).toBe('record-1');
+    expect(item.status).toBe('failed');
+    await expect(uploadQueueService.cancel('session-1')).rejects.toThrow('This recording is already saved');
+  });
+
+  it("doesn't celebrate a replayed session again", async () => {
+    submitSession.mockResolvedValue(sessionResult({ replayed: true }));
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', record_id: 'record-1', status: 'failed', attempts: 1 })]);
+
+    const result = await uploadQueueService.submit('session-1');
+
+    expect(submitSession).toHaveBeenCalledWith('session-1', expect.objectContaining({ record_id: 'record-1' }));
+    expect(applyLevelChange).toHaveBeenCalledWith(90, 102);
+    expect(result.levelUp).toBeNull();
+    expect(result.newAchievements).toEqual([]);
+    expect(await getQueue()).toEqual([]);
+  });
+});
+
+describe('uploadQueueService.cancel', () => {
+  it('deletes the uploaded file and drops the item', async () => {
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a' })]);
+
+    await uploadQueueService.cancel('session-1');
+
+    expect(deleteAudioFile).toHaveBeenCalledWith('student-1/recording-1.m4a');
+    expect(await getQueue()).toEqual([]);
+  });
+
+  it('leaves the item cancelling when the rollback fails', async () => {
+    deleteAudioFile.mockRejectedValue(new Error('Network request failed'));
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a' })]);
+
+    await uploadQueueService.cancel('session-1');
+
+    const [item] = await getQueue();
+    expect(item.status).toBe('cancelling');
+  });
+
+  it('stops a save in flight before the session is submitted', async () => {
+    let finishUpload: (path: string) => void = () => {};
+    uploadAudioFile.mockImplementation(() => new Promise(resolve => { finishUpload = resolve; }));
+    await setQueue([queued()]);
+
+    const submitting = uploadQueueService.submit('session-1').catch(error => error);
+    await new Promise(resolve => setImmediate(resolve));
+    await uploadQueueService.cancel('session-1');
+    finishUpload('student-1/recording-1.m4a');
+
+    expect(isSubmitCancelled(await submitting)).toBe(true);
+    expect(submitSession).not.toHaveBeenCalled();
+    expect(deleteAudioFile).toHaveBeenCalledWith('student-1/recording-1.m4a');
+    expect(await getQueue()).toEqual([]);
+  });
+
+  it('keeps a recording the server saved before the response was lost', async () => {
+    getSavedSession.mockResolvedValue({ id: 'session-1', recording_id: 'record-1' });
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', status: 'failed', attempts: 1 })]);
+
+    const error = await uploadQueueService.cancel('session-1').catch(caught => caught);
+
+    expect(isAlreadySaved(error)).toBe(true);
+    expect(deleteAudioFile).not.toHaveBeenCalled();
+    const [item] = await getQueue();
+    expect(item).toEqual(expect.objectContaining({ status: 'waiting', record_id: 'record-1' }));
+  });
+
+  it('leaves the item cancelling when the server cannot be asked', async () => {
+    getSavedSession.mockRejectedValue(new Error('Network request failed'));
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', status: 'failed', attempts: 1 })]);
+
+    await uploadQueueService.cancel('session-1');
+
+    expect(deleteAudioFile).not.toHaveBeenCalled();
+    const [item] = await getQueue();
+    expect(item.status).toBe('cancelling');
+  });
+});
+
+describe('uploadQueueService.discard', () => {
+  it('only drops the local copy of a saved recording', async () => {
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', record_id: 'record-1', status: 'failed' })]);
+
+    await uploadQueueService.discard('session-1');
+
+    expect(deleteAudioFile).not.toHaveBeenCalled();
+    expect(await getQueue()).toEqual([]);
+  });
+
+  it("doesn't delete the file of a session saved without a response", async () => {
+    getSavedSession.mockResolvedValue({ id: 'session-1', recording_id: 'record-1' });
+    await setQueue([queued({ file_path: 'student-1/recording-1.m4a', status: 'failed', attempts: 1 })]);
+
+    await uploadQueueService.discard('session-1');
+
+    expect(deleteAudioFile).not.toHaveBeenCalled();
+    expect(await getQueue()).toEqual([]);
+  });
+});
+
+describe('uploadQueueService.processQueue', () => {
+  it('retries due items and leaves paused and backed-off ones alone', async () => {
+    await setQueue([
+      queued({ id: 'due', status: 'failed', attempts: 1 }),
+      queued({ id: 'paused', status: 'paused' }),
+      queued({ id: 'later', status: 'failed', attempts: 2, next_attempt_at: new Date(Date.now() + 60000).toISOString() }),
+    ]);
+
+    await uploadQueueService.processQueue();
+
+    expect(submitSession).toHaveBeenCalledTimes(1);
+    expect(submitSession).toHaveBeenCalledWith('due', expect.anything());
+    expect((await getQueue()).map(item => item.id)).toEqual(['paused', 'later']);
+  });
+
+  it('retries backed-off items when forced', async () => {
+    await setQueue([queued({ status: 'failed', attempts: 2, next_attempt_at: new Date(Date.now() + 60000).toISOString() })]);
+
+    await uploadQueueService.processQueue(true);
+
+    expect(submitSession).toHaveBeenCalledTimes(1);
+    expect(await getQueue()).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import { supabase } from './supabase';
+import { AudioRecord } from '../types/audio';
+import { AccuracyResult, AlignedWord, RecordingAccuracy } from '../types/accuracy';
+
+// Compare words without case, punctuation or apostrophes ("Don't," matches "dont")
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+type AlignmentStep =
+  | { type: 'match' | 'substitute'; passage: number; spoken: number }
+  | { type: 'skip'; passage: number }
+  | { type: 'insert'; spoken: number };
+
+// Word-level edit distance between the passage and what was said, walked back
+// into the cheapest list of matches, substitutions, skips and insertions
+export const alignWords = (passage: string[], spoken: string[]): AlignmentStep[] => {
+  const rows = passage.length + 1;
+  const cols = spoken.length + 1;
+  const cost = new Int32Array(rows * cols);
+
+  for (let i = 0; i < rows; i++) cost[i * cols] = i;
+  for (let j = 0; j < cols; j++) cost[j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const diagonal = cost[(i - 1) * cols + j - 1] + (passage[i - 1] === spoken[j - 1] ? 0 : 1);
+      const skip = cost[(i - 1) * cols + j] + 1;
+      const insert = cost[i * cols + j - 1] + 1;
+      cost[i * cols + j] = Math.min(diagonal, skip, insert);
+    }
+  }
+
+  const steps: AlignmentStep[] = [];
+  let i = passage.length;
+  let j = spoken.length;
+  while (i > 0 || j > 0) {
+    const current = cost[i * cols + j];
+    if (i > 0 && j > 0) {
+      const same = passage[i - 1] === spoken[j - 1];
+      if (current === cost[(i - 1) * cols + j - 1] + (same ? 0 : 1)) {
+        steps.push({ type: same ? 'match' : 'substitute', passage: i - 1, spoken: j - 1 });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && current === cost[(i - 1) * cols + j] + 1) {
+      steps.push({ type: 'skip', passage: i - 1 });
+      i--;
+    } else {
+      steps.push({ type: 'insert', spoken: j - 1 });
+      j--;
+    }
+  }
+
+  return steps.reverse();
+};
+
+// Line a transcript up with the passage it should have been. Skips and
+// substitutions count against accuracy; repeats and extra words are reported
+// but don't, since re-reading a word is usually self-correction.
+export const scoreReading = (passageText: string, transcriptText: string): AccuracyResult | null => {
+  const passageWords = passageText.split(/\s+/).filter(word => normalizeWord(word));
+  if (passageWords.length === 0) return null;
+
+  const passage = passageWords.map(normalizeWord);
+  const spokenWords = transcriptText.split(/\s+/).filter(word => normalizeWord(word));
+  const spoken = spokenWords.map(normalizeWord);
+
+  const alignment: AlignedWord[] = passageWords.map(word => ({ word, status: 'skipped' }));
+  let repeatedCount = 0;
+  let insertedCount = 0;
+  let lastRead = -1;
+
+  alignWords(passage, spoken).forEach((step) => {
+    if (step.type === 'match') {
+      alignment[step.passage].status = 'correct';
+      lastRead = step.passage;
+    } else if (step.type === 'substitute') {
+      alignment[step.passage].status = 'substituted';
+      alignment[step.passage].spoken = spokenWords[step.spoken];
+      lastRead = step.passage;
+    } else if (step.type === 'insert') {
+      // A repeat of one of the last two words read, or a false start on the next one
+      const repeatOf = [lastRead, lastRead - 1, lastRead + 1].find(
+        index => index >= 0 && index < passage.length && passage[index] === spoken[step.spoken]
+      );
+      if (repeatOf !== undefined) {
+        alignment[repeatOf].repeated = true;
+        repeatedCount += 1;
+      } else {
+        insertedCount += 1;
+      }
+    }
+  });
+
+  const count = (status: AlignedWord['status']) => alignment.filter(word => word.status === status).length;
+  const correctCount = count('correct');
+
+  return {
+    accuracy: Math.round((correctCount / passageWords.length) * 1000) / 10,
+    passage_word_count: passageWords.length,
+    correct_count: correctCount,
+    skipped_count: count('skipped'),
+    substituted_count: count('substituted'),
+    repeated_count: repeatedCount,
+    inserted_count: insertedCount,
+    alignment,
+  };
+};
+
+export const accuracyService = {
+  // Score a recording against its assignment's passage and store the result.
+  // Only the reviewing guardian can store a score, so a student can't write
+  // their own. Returns null when the passage has no words to score.
+  async scoreRecording(record: AudioRecord, passageText: string, transcriptText: string): Promise<RecordingAccuracy | null> {
+    try {
+      const result = scoreReading(passageText, transcriptText);
+      if (!result) return null;
+
+      const { data, error } = await supabase
+        .from('recording_accuracy')
+        .upsert({
+          recording_id: record.id,
+          user_id: record.user_id,
+          assignment_id: record.assignment_id,
+          ...result,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('🎯 Reading accuracy saved:', `${result.accuracy}%`);
+      return data;
+    } catch (error) {
+      console.error('❌ Score recording error:', error);
+      throw error;
+    }
+  },
+
+  // Stored scores keyed by recording id
+  async getAccuracies(recordingIds: string[]): Promise<Record<string, RecordingAccuracy>> {
+    try {
+      if (recordingIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('recording_accuracy')
+        .select('*')
+        .in('recording_id', recordingIds);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(accuracy => [accuracy.recording_id, accuracy]));
+    } catch (error) {
+      console.error('❌ Get accuracies error:', error);
+      throw error;
+    }
+  },
+};
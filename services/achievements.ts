@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import {
+  Achievement,
+  AchievementCategory,
+  AchievementEvent,
+  AchievementMetric,
+  AchievementRule,
+  AchievementWithProgress,
+} from '../types/achievements';
+
+// How far back to look when estimating a student's pace
+const PACE_WINDOW_DAYS = 14;
+
+const METRIC_CATEGORIES: Record<AchievementMetric, AchievementCategory> = {
+  recordings: 'reading',
+  reading_minutes: 'reading',
+  points: 'points',
+  current_streak: 'streaks',
+  perfect_weeks: 'streaks',
+  books_finished: 'books',
+  assignments_completed: 'books',
+  parent_ratings: 'family',
+};
+
+// Days until the rule is met if the student keeps their pace from the last
+// two weeks. Streaks grow by one a day at most, so they use that rate.
+const estimateDaysToUnlock = (rule: AchievementRule, current: number, recent: number): number | null => {
+  const remaining = rule.target - current;
+  if (remaining <= 0) return 0;
+
+  switch (rule.metric) {
+    case 'current_streak':
+      return remaining;
+    case 'perfect_weeks':
+      return remaining * 7;
+    default: {
+      const perDay = recent / PACE_WINDOW_DAYS;
+      return perDay > 0 ? Math.ceil(remaining / perDay) : null;
+    }
+  }
+};
+
+const loadAchievements = async (userId: string) => {
+  const [{ data: achievements, error }, { data: earned, error: earnedError }] = await Promise.all([
+    supabase.from('achievements').select('*').order('requirement_value', { ascending: true }),
+    supabase.from('user_achievements').select('achievement_id, earned_at').eq('user_id', userId),
+  ]);
+
+  if (error) throw error;
+  if (earnedError) throw earnedError;
+
+  const earnedMap = new Map<string, string>();
+  earned?.forEach(ua => {
+    earnedMap.set(ua.achievement_id, ua.earned_at);
+  });
+
+  return { achievements: (achievements || []) as Achievement[], earnedMap };
+};
+
+export const achievementService = {
+  // Unlock whatever the given events (all events when omitted) made reachable.
+  // Rules are measured and rewards paid on the server by check_achievements().
+  async evaluate(events?: AchievementEvent[]): Promise<Achievement[]> {
+    try {
+      const { data, error } = await supabase.rpc('check_achievements', {
+        events: events ?? null,
+      });
+
+      if (error) throw error;
+      const unlocked: Achievement[] = data || [];
+      if (unlocked.length > 0) {
+        console.log('🏆 Achievements unlocked:', unlocked.map(a => a.name));
+      }
+      return unlocked;
+    } catch (error) {
+      console.error('❌ Evaluate achievements error:', error);
+      throw error;
+    }
+  },
+
+  // Every achievement with the current value of its metric, an estimate of
+  // when it will unlock and the category it is shown under
+  async getAchievementsWithProgress(): Promise<AchievementWithProgress[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const [{ achievements, earnedMap }, { data: measured, error }] = await Promise.all([
+        loadAchievements(user.id),
+        supabase.rpc('get_achievement_progress', { pace_days: PACE_WINDOW_DAYS }),
+      ]);
+
+      if (error) throw error;
+      const progressMap = new Map<string, { current_value: number; recent_value: number }>(
+        (measured || []).map((row: { achievement: string; current_value: number; recent_value: number }) => [row.achievement, row])
+      );
+
+      return achievements.map(achievement => {
+        const rule = achievement.rule;
+        const earned = earnedMap.has(achievement.id);
+        const target = rule?.target || achievement.requirement_value || 1;
+        const values = progressMap.get(achievement.id);
+        const current = earned ? target : values?.current_value || 0;
+        const etaDays = rule && !earned ? estimateDaysToUnlock(rule, current, values?.recent_value || 0) : 0;
+
+        return {
+          ...achievement,
+          category: rule ? METRIC_CATEGORIES[rule.metric] : 'reading',
+          earned,
+          earned_at: earnedMap.get(achievement.id),
+          progress: {
+            current,
+            target,
+            ratio: earned ? 1 : Math.max(0, Math.min(current / target, 1)),
+            etaDays,
+          },
+        };
+      });
+    } catch (error) {
+      console.error('❌ Get achievement progress error:', error);
+      throw error;
+    }
+  },
+};
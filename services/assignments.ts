@@ -1,8 +1,11 @@
 import { supabase } from './supabase';
+import { bookService } from './books';
+import { AssignmentForReview, CreateAssignmentData, ReadingAssignment } from '../types/assignments';
+import { ReadingQuality } from '../types/audio';
 
 export const assignmentService = {
   // Get student assignments
-  async getStudentAssignments(filter: 'all' | 'pending' | 'completed' = 'all') {
+  async getStudentAssignments(filter: 'all' | 'pending' | 'completed' = 'all'): Promise<ReadingAssignment[]> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
@@ -29,24 +32,37 @@ export const assignmentService = {
     }
   },
 
-  // Create assignment (parent function)
-  async createAssignment(assignmentData: {
-    student_id: string;
-    title: string;
-    description?: string;
-    book_title: string;
-    target_duration?: number;
-    points_reward?: number;
-    due_date?: string;
-  }) {
+  // Get a single assignment by id
+  async getAssignment(assignmentId: string): Promise<ReadingAssignment | null> {
+    try {
+      const { data, error } = await supabase
+        .from('reading_assignments')
+        .select('*')
+        .eq('id', assignmentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Get assignment error:', error);
+      throw error;
+    }
+  },
+
+  // Create assignment (parent function). The book lands on the student's reading shelf.
+  async createAssignment(assignmentData: CreateAssignmentData): Promise<ReadingAssignment> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      const bookId = assignmentData.book_id
+        || (await bookService.findOrCreateBook({ title: assignmentData.book_title })).id;
+
       const { data, error } = await supabase
         .from('reading_assignments')
         .insert({
           ...assignmentData,
+          book_id: bookId,
           parent_id: user.id,
           points_reward: assignmentData.points_reward || 10
         })
@@ -54,6 +70,8 @@ export const assignmentService = {
         .single();
 
       if (error) throw error;
+
+      await bookService.addToLibrary(bookId, assignmentData.student_id);
       return data;
     } catch (error) {
       console.error('❌ Create assignment error:', error);
@@ -61,71 +79,90 @@ export const assignmentService = {
     }
   },
 
-  // Complete assignment
-  async completeAssignment(assignmentId: string, recordingId: string) {
+  // Assignments created by the current parent, optionally for one student
+  async getParentAssignments(studentId?: string): Promise<ReadingAssignment[]> {
     try {
-      const { data, error } = await supabase
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      let query = supabase
         .from('reading_assignments')
-        .update({ 
-          status: 'completed',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', assignmentId)
-        .select()
-        .single();
+        .select('*')
+        .eq('parent_id', user.id)
+        .order('created_at', { ascending: false });
 
-      if (error) throw error;
+      if (studentId) {
+        query = query.eq('student_id', studentId);
+      }
 
-      // Link recording to assignment
-      await supabase
-        .from('audio_records')
-        .update({ assignment_id: assignmentId })
-        .eq('id', recordingId);
+      const { data, error } = await query;
 
-      return data;
+      if (error) throw error;
+      return data || [];
     } catch (error) {
-      console.error('❌ Complete assignment error:', error);
+      console.error('❌ Get parent assignments error:', error);
       throw error;
     }
   },
 
-  // Parent review assignment
-  async reviewAssignment(assignmentId: string, rating: number, feedback?: string, quality?: string) {
+  // Completed assignments waiting for the current parent's review
+  async getReviewQueue(): Promise<AssignmentForReview[]> {
     try {
-      const { data, error } = await supabase
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: assignments, error } = await supabase
         .from('reading_assignments')
-        .update({ 
-          status: 'reviewed',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', assignmentId)
-        .select()
-        .single();
+        .select('*')
+        .eq('parent_id', user.id)
+        .eq('status', 'completed')
+        .order('updated_at', { ascending: true });
 
       if (error) throw error;
+      if (!assignments || assignments.length === 0) return [];
 
-      // Update associated recording
-      const { data: recording } = await supabase
+      const { data: recordings, error: recordingsError } = await supabase
         .from('audio_records')
-        .select('id')
-        .eq('assignment_id', assignmentId)
-        .single();
+        .select('*')
+        .in('assignment_id', assignments.map(a => a.id));
+
+      if (recordingsError) throw recordingsError;
 
-      if (recording) {
-        await supabase
-          .from('audio_records')
-          .update({
-            parent_rating: rating,
-            parent_feedback: feedback,
-            reading_quality: quality
-          })
-          .eq('id', recording.id);
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', [...new Set(assignments.map(a => a.student_id))]);
+
+      return assignments.map(assignment => ({
+        ...assignment,
+        student_name: profiles?.find(p => p.user_id === assignment.student_id)?.full_name,
+        recording: recordings?.find(r => r.assignment_id === assignment.id),
+      }));
+    } catch (error) {
+      console.error('❌ Get review queue error:', error);
+      throw error;
+    }
+  },
+
+  // Parent review assignment: marks it reviewed and stores the rating on its recording
+  async reviewAssignment(assignmentId: string, rating: number, feedback?: string, quality?: ReadingQuality) {
+    try {
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        throw new Error('Rating must be between 1 and 5 stars');
       }
 
+      const { data, error } = await supabase.rpc('review_assignment', {
+        assignment: assignmentId,
+        rating,
+        feedback: feedback || null,
+        quality: quality || null,
+      });
+
+      if (error) throw error;
       return data;
     } catch (error) {
       console.error('❌ Review assignment error:', error);
       throw error;
     }
   }
-};
\ No newline at end of file
+};
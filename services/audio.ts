@@ -1,8 +1,21 @@
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from './supabase';
-import { AudioRecord, CreateAudioRecordData, UpdateAudioRecordData } from '../types/audio';
+import { resumableUploadService } from './resumableUpload';
+import { getAudioFormat, getRecordingProfile } from '../constants/RecordingProfiles';
+import {
+  AudioRecord,
+  RecordingProfileId,
+  UpdateAudioRecordData,
+} from '../types/audio';
+import { ResumableUploadOptions } from '../types/upload';
+
+const RECORDING_PROFILE_KEY = 'recording_profile_v1';
+const PLAYBACK_POSITIONS_KEY = 'playback_positions_v1';
+
+type AudioUploadOptions = Partial<Omit<ResumableUploadOptions, 'bucket' | 'objectName' | 'fileUri'>>;
 
 export const audioService = {
   // Initialize audio session
@@ -22,12 +35,24 @@ export const audioService = {
     }
   },
 
-  // Create new recording
-  async createRecording() {
+  // The recording profile this device uses, chosen in the recorder
+  async getRecordingProfileId(): Promise<RecordingProfileId> {
+    const stored = await AsyncStorage.getItem(RECORDING_PROFILE_KEY);
+    return getRecordingProfile(stored as RecordingProfileId | null).id;
+  },
+
+  async setRecordingProfileId(profileId: RecordingProfileId) {
+    await AsyncStorage.setItem(RECORDING_PROFILE_KEY, profileId);
+  },
+
+  // Create new recording. Every profile meters the input for the level meter,
+  // quality checks and fluency analysis.
+  async createRecording(profileId?: RecordingProfileId) {
     try {
+      const profile = getRecordingProfile(profileId);
       const recording = new Audio.Recording();
-      await recording.prepareToRecordAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
-      console.log('🎤 Recording prepared');
+      await recording.prepareToRecordAsync(profile.options);
+      console.log('🎤 Recording prepared:', profile.label, `${profile.bitrate / 1000} kbps`);
       return recording;
     } catch (error) {
       console.error('❌ Recording creation error:', error);
@@ -35,137 +60,38 @@ export const audioService = {
     }
   },
 
-  // Upload audio file to Supabase Storage
-  async uploadAudioFile(uri: string, fileName: string): Promise<string> {
+  // Upload a recording to Supabase Storage in resumable chunks. The file is
+  // read from disk a chunk at a time, never loaded whole into memory.
+  async uploadAudioFile(
+    uri: string,
+    fileName: string,
+    options: AudioUploadOptions = {}
+  ): Promise<string> {
     try {
-      console.log('📤 Starting upload process...');
-      console.log('📁 Local file URI:', uri);
-      console.log('📝 Target filename:', fileName);
-      console.log('📱 Platform:', Platform.OS);
-      
+      console.log('📤 Starting upload:', fileName, 'on', Platform.OS);
+
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      console.log('👤 User authenticated:', user.id);
-
-      let blob: Blob;
-      
-      // Platform-specific file handling
-      if (Platform.OS === 'ios' || Platform.OS === 'android') {
-        console.log(`📱 ${Platform.OS} platform detected, using FileSystem`);
-        
-        try {
-          // For mobile platforms, use expo-file-system to read the file
-          const fileInfo = await FileSystem.getInfoAsync(uri);
-          console.log('📊 File info:', fileInfo);
-          
-          if (!fileInfo.exists) {
-            throw new Error(`File does not exist on ${Platform.OS}`);
-          }
-          
-          // Read file as base64
-          const base64Data = await FileSystem.readAsStringAsync(uri, {
-            encoding: FileSystem.EncodingType.Base64,
-          });
-          
-          console.log('📊 Base64 data length:', base64Data.length);
-          
-          // For mobile platforms, upload the base64 data directly
-          const filePath = `${user.id}/${fileName}`;
-          console.log('🎯 Target storage path:', filePath);
-          
-          // Convert base64 to Uint8Array for upload
-          const byteCharacters = atob(base64Data);
-          const byteNumbers = new Array(byteCharacters.length);
-          for (let i = 0; i < byteCharacters.length; i++) {
-            byteNumbers[i] = byteCharacters.charCodeAt(i);
-          }
-          const byteArray = new Uint8Array(byteNumbers);
-          
-          const { data, error } = await supabase.storage
-            .from('audio-files')
-            .upload(filePath, byteArray, {
-              cacheControl: '3600',
-              upsert: false,
-              contentType: 'audio/m4a'
-            });
-
-          if (error) {
-            console.error('❌ Supabase storage error:', error);
-            console.error('❌ Error details:', JSON.stringify(error, null, 2));
-            throw error;
-          }
-
-          console.log('✅ Upload successful!');
-          console.log('📁 Stored path:', data.path);
-          console.log('🔗 Full path:', data.fullPath);
-          
-          // Verify upload by checking if file exists
-          const { data: fileList, error: listError } = await supabase.storage
-            .from('audio-files')
-            .list(user.id);
-          
-          if (!listError) {
-            console.log('📂 Files in user folder:', fileList?.map(f => f.name));
-          }
-
-          return data.path;
-          
-        } catch (fileSystemError) {
-          console.error(`❌ ${Platform.OS} FileSystem error:`, fileSystemError);
-          throw new Error(`${Platform.OS} file processing failed: ${fileSystemError}`);
-        }
-      } else {
-        // For web, use fetch
-        console.log('🌐 Web platform detected, using fetch');
-        try {
-          const response = await fetch(uri);
-          if (!response.ok) {
-            throw new Error(`Local file fetch failed: ${response.status}`);
-          }
-          blob = await response.blob();
-          console.log('📊 Fetch blob size:', blob.size, 'bytes');
-          console.log('📋 File type:', blob.type);
-        } catch (fetchError) {
-          console.error('❌ Fetch error:', fetchError);
-          throw new Error(`Failed to process local audio file: ${fetchError}`);
-        }
-        
-        if (blob.size === 0) {
-          throw new Error('Audio file is empty');
-        }
-
-        const filePath = `${user.id}/${fileName}`;
-        console.log('🎯 Target storage path:', filePath);
-        
-        const { data, error } = await supabase.storage
-          .from('audio-files')
-          .upload(filePath, blob, {
-            cacheControl: '3600',
-            upsert: false
-          });
-
-        if (error) {
-          console.error('❌ Supabase storage error:', error);
-          console.error('❌ Error details:', JSON.stringify(error, null, 2));
-          throw error;
-        }
-
-        console.log('✅ Upload successful!');
-        console.log('📁 Stored path:', data.path);
-        console.log('🔗 Full path:', data.fullPath);
-        
-        // Verify upload by checking if file exists
-        const { data: fileList, error: listError } = await supabase.storage
-          .from('audio-files')
-          .list(user.id);
-        
-        if (!listError) {
-          console.log('📂 Files in user folder:', fileList?.map(f => f.name));
-        }
-
-        return data.path;
+      let size = options.size;
+      if (!size && Platform.OS !== 'web') {
+        const fileInfo = await FileSystem.getInfoAsync(uri);
+        if (!fileInfo.exists) throw new Error(`File does not exist on ${Platform.OS}`);
+        size = fileInfo.size;
       }
+      if (!size) throw new Error('Audio file is empty');
+
+      const filePath = await resumableUploadService.upload({
+        ...options,
+        bucket: 'audio-files',
+        objectName: `${user.id}/${fileName}`,
+        fileUri: uri,
+        size,
+        contentType: options.contentType || getAudioFormat().content_type,
+      });
+
+      console.log('✅ Upload successful:', filePath);
+      return filePath;
     } catch (error) {
       console.error('❌ Upload audio file error:', error);
       throw error;
@@ -247,57 +173,6 @@ export const audioService = {
     }
   },
 
-  // Save audio record metadata to database
-  async saveAudioRecord(data: CreateAudioRecordData): Promise<AudioRecord> {
-    try {
-      console.log('💾 Saving audio record:', data.title);
-      
-      // Get current authenticated user
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
-
-      // Include user_id in the record data
-      const recordData = {
-        user_id: user.id,
-        title: data.title,
-        description: data.description || null,
-        file_path: data.file_path,
-        file_size: data.file_size || null,
-        duration: data.duration || null,
-        points_earned: data.points_earned || 0,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-
-      console.log('📝 Inserting record with data:', recordData);
-      
-      // Remove .single() to avoid the coercion error
-      const { data: records, error } = await supabase
-        .from('audio_records')
-        .insert(recordData)
-        .select();
-
-      if (error) {
-        console.error('❌ Save record error:', error);
-        console.error('❌ Error details:', JSON.stringify(error, null, 2));
-        throw error;
-      }
-
-      if (!records || records.length === 0) {
-        throw new Error('No record was created');
-      }
-
-      const record = records[0];
-      console.log('✅ Audio record saved successfully:', record);
-      return record;
-    } catch (error) {
-      console.error('❌ Save audio record error:', error);
-      throw error;
-    }
-  },
-
   // Get user's audio records
   async getUserAudioRecords(): Promise<AudioRecord[]> {
     try {
@@ -363,6 +238,7 @@ export const audioService = {
         .from('audio-files')
         .remove([filePath]);
 
+      // The record still goes; scripts/reconcile-storage.js finds the leftover file
       if (storageError) {
         console.error('❌ Delete file error:', storageError);
       }
@@ -385,6 +261,46 @@ export const audioService = {
     }
   },
 
+  // Delete a stored audio file that has no record pointing at it
+  async deleteAudioFile(filePath: string): Promise<void> {
+    try {
+      const { error } = await supabase.storage
+        .from('audio-files')
+        .remove([filePath]);
+
+      if (error) throw error;
+      console.log('✅ Audio file deleted:', filePath);
+    } catch (error) {
+      console.error('❌ Delete audio file error:', error);
+      throw error;
+    }
+  },
+
+  // Where each recording was left off, in seconds into the file, kept on this device
+  async getPlaybackPositions(): Promise<Record<string, number>> {
+    const stored = await AsyncStorage.getItem(PLAYBACK_POSITIONS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  },
+
+  async savePlaybackPosition(recordId: string, position: number | null) {
+    try {
+      const positions = await this.getPlaybackPositions();
+      if (position === null) {
+        delete positions[recordId];
+      } else {
+        positions[recordId] = position;
+      }
+      await AsyncStorage.setItem(PLAYBACK_POSITIONS_KEY, JSON.stringify(positions));
+    } catch (error) {
+      console.error('❌ Save playback position error:', error);
+    }
+  },
+
+  // Part of the file to play in seconds: the trimmed reading, or all of it for older recordings
+  getPlaybackWindow(record: Pick<AudioRecord, 'trim_start' | 'trim_end'>) {
+    return { start: record.trim_start || 0, end: record.trim_end || undefined };
+  },
+
   // Format duration for display
   formatDuration(seconds?: number): string {
     if (!seconds) return '0:00';
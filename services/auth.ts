@@ -11,6 +11,7 @@ export const authService = {
       options: {
         data: {
           full_name: data.full_name,
+          role: data.role || 'student',
         },
       },
     });
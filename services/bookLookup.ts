@@ -0,0 +1,131 @@
+import NetInfo from '@react-native-community/netinfo';
+import { supabase } from './supabase';
+import { OFFLINE_BOOKS } from '../constants/OfflineBooks';
+import { BookLookupProvider, BookLookupResult, CreateBookData } from '../types/books';
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+const isValidIsbn13 = (digits: string) => {
+  if (!/^97[89]\d{10}$/.test(digits)) return false;
+  const sum = digits
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return sum % 10 === 0;
+};
+
+const isValidIsbn10 = (digits: string) => {
+  if (!/^\d{9}[\dX]$/.test(digits)) return false;
+  const sum = digits
+    .split('')
+    .reduce((total, digit, index) => total + (digit === 'X' ? 10 : Number(digit)) * (10 - index), 0);
+  return sum % 11 === 0;
+};
+
+// Checked ISBN-13 for a scanned or typed code; ISBN-10s are converted. Null if invalid.
+export const normalizeIsbn = (raw: string): string | null => {
+  const digits = raw.replace(/[^0-9X]/gi, '').toUpperCase();
+
+  if (digits.length === 13) return isValidIsbn13(digits) ? digits : null;
+  if (digits.length !== 10 || !isValidIsbn10(digits)) return null;
+
+  const body = `978${digits.slice(0, 9)}`;
+  const sum = body
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return `${body}${(10 - (sum % 10)) % 10}`;
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Book lookup timed out')), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+// Books someone in the app already added
+export const catalogProvider: BookLookupProvider = {
+  name: 'Library catalog',
+  requiresNetwork: true,
+  async lookup(isbn) {
+    const { data, error } = await supabase
+      .from('books')
+      .select('title, author, cover_url, page_count, reading_level, isbn')
+      .eq('isbn', isbn)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+};
+
+export const openLibraryProvider: BookLookupProvider = {
+  name: 'Open Library',
+  requiresNetwork: true,
+  async lookup(isbn) {
+    const response = await fetch(
+      `https://openlibrary.org/api/books?bibkeys=ISBN:${isbn}&format=json&jscmd=data`
+    );
+    if (!response.ok) throw new Error(`Open Library returned ${response.status}`);
+
+    const result = (await response.json())[`ISBN:${isbn}`];
+    if (!result?.title) return null;
+
+    return {
+      isbn,
+      title: result.title,
+      author: result.authors?.map((author: { name: string }) => author.name).join(', ') || undefined,
+      page_count: result.number_of_pages || undefined,
+      cover_url: result.cover?.medium || undefined,
+    };
+  },
+};
+
+export const offlineProvider: BookLookupProvider = {
+  name: 'Offline list',
+  requiresNetwork: false,
+  async lookup(isbn) {
+    return OFFLINE_BOOKS.find(book => book.isbn === isbn) || null;
+  },
+};
+
+let providers: BookLookupProvider[] = [catalogProvider, openLibraryProvider, offlineProvider];
+
+export const bookLookupService = {
+  // Replace the lookup chain, e.g. to add a school's own catalog in front
+  setProviders(nextProviders: BookLookupProvider[]) {
+    providers = nextProviders;
+  },
+
+  getProviders() {
+    return providers;
+  },
+
+  // Ask each provider in turn; network providers are skipped offline and
+  // a failing provider falls through to the next one
+  async lookup(rawIsbn: string): Promise<BookLookupResult> {
+    const isbn = normalizeIsbn(rawIsbn);
+    if (!isbn) throw new Error('That does not look like a book barcode (ISBN)');
+
+    const netState = await NetInfo.fetch();
+    const online = netState.isConnected !== false;
+
+    for (const provider of providers) {
+      if (provider.requiresNetwork && !online) continue;
+
+      try {
+        const book: CreateBookData | null = await withTimeout(provider.lookup(isbn), LOOKUP_TIMEOUT_MS);
+        if (book?.title) {
+          console.log(`📘 ISBN ${isbn} found via ${provider.name}`);
+          return { book: { ...book, isbn }, source: provider.name };
+        }
+      } catch (error) {
+        console.warn(`⚠️ ${provider.name} lookup failed:`, error);
+      }
+    }
+
+    console.log(`📘 ISBN ${isbn} not found, falling back to manual entry`);
+    return { book: { isbn, title: '' }, source: null };
+  },
+};
@@ -0,0 +1,215 @@
+import { supabase } from './supabase';
+import { Book, BookProgress, BookShelf, CreateBookData, LibraryBook } from '../types/books';
+
+const cleanBookData = (data: CreateBookData) => ({
+  title: data.title.trim(),
+  author: data.author?.trim() || null,
+  cover_url: data.cover_url?.trim() || null,
+  page_count: data.page_count || null,
+  reading_level: data.reading_level?.trim() || null,
+  isbn: data.isbn?.replace(/[^0-9X]/gi, '').toUpperCase() || null,
+});
+
+// A title matched literally by ilike: %, _ and \ would otherwise be wildcards or escapes
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Pages covered by a session, counting both the start and end page
+export const getPagesRead = (startPage?: number | null, endPage?: number | null) =>
+  startPage && endPage && endPage >= startPage ? endPage - startPage + 1 : 0;
+
+// Problem with a session's page range, or null when it is fine. Pages are optional.
+export const validatePageRange = (
+  startPage?: number,
+  endPage?: number,
+  pageCount?: number | null
+): string | null => {
+  if (startPage === undefined && endPage === undefined) return null;
+  if (startPage === undefined || endPage === undefined) return 'Enter both the start and end page';
+  if (!Number.isInteger(startPage) || !Number.isInteger(endPage) || startPage < 1 || endPage < 1) {
+    return 'Pages must be whole numbers';
+  }
+  if (endPage < startPage) return 'End page cannot be before the start page';
+  if (pageCount && endPage > pageCount) return `This book only has ${pageCount} pages`;
+  return null;
+};
+
+export const bookService = {
+  // Search the shared catalog by title or author
+  async searchBooks(query: string, limit: number = 20): Promise<Book[]> {
+    try {
+      const term = query.trim().replace(/[%,()]/g, ' ');
+      if (!term) return [];
+
+      const { data, error } = await supabase
+        .from('books')
+        .select('*')
+        .or(`title.ilike.%${term}%,author.ilike.%${term}%`)
+        .order('title')
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('❌ Search books error:', error);
+      throw error;
+    }
+  },
+
+  async getBook(bookId: string): Promise<Book | null> {
+    try {
+      const { data, error } = await supabase
+        .from('books')
+        .select('*')
+        .eq('id', bookId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Get book error:', error);
+      throw error;
+    }
+  },
+
+  // Reuse the catalog entry with the same ISBN, or else the same title, before adding one
+  async findOrCreateBook(bookData: CreateBookData): Promise<Book> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const clean = cleanBookData(bookData);
+      if (!clean.title) throw new Error('Book title is required');
+
+      let query = supabase.from('books').select('*').limit(10);
+      query = clean.isbn ? query.eq('isbn', clean.isbn) : query.ilike('title', escapeLikePattern(clean.title));
+
+      const { data: candidates, error: findError } = await query;
+      if (findError) throw findError;
+      // PostgREST also reads * as a wildcard, so only an exact title counts
+      const existing = clean.isbn
+        ? candidates?.[0]
+        : candidates?.find(book => book.title.toLowerCase() === clean.title.toLowerCase());
+      if (existing) return existing;
+
+      const { data, error } = await supabase
+        .from('books')
+        .insert({ ...clean, created_by: user.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('📘 Book added to catalog:', data.title);
+      return data;
+    } catch (error) {
+      console.error('❌ Find or create book error:', error);
+      throw error;
+    }
+  },
+
+  // Put a book on a student's "currently reading" shelf. Defaults to the current user.
+  async addToLibrary(bookId: string, studentId?: string) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('student_books')
+        .upsert(
+          {
+            student_id: studentId || user.id,
+            book_id: bookId,
+            added_by: user.id,
+          },
+          { onConflict: 'student_id,book_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Add to library error:', error);
+      throw error;
+    }
+  },
+
+  // Move a library book between the reading and finished shelves
+  async setShelf(libraryId: string, status: BookShelf) {
+    try {
+      const { error } = await supabase
+        .from('student_books')
+        .update({
+          status,
+          finished_at: status === 'finished' ? new Date().toISOString() : null,
+        })
+        .eq('id', libraryId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Set shelf error:', error);
+      throw error;
+    }
+  },
+
+  // A student's library with reading progress per book. Defaults to the current user.
+  async getLibrary(studentId?: string): Promise<LibraryBook[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const targetId = studentId || user.id;
+
+      const { data: entries, error } = await supabase
+        .from('student_books')
+        .select('*, book:books(*)')
+        .eq('student_id', targetId)
+        .order('started_at', { ascending: false });
+
+      if (error) throw error;
+      if (!entries || entries.length === 0) return [];
+
+      const { data: recordings, error: recordingsError } = await supabase
+        .from('audio_records')
+        .select('book_id, duration, start_page, end_page, created_at')
+        .eq('user_id', targetId)
+        .in('book_id', entries.map(entry => entry.book_id));
+
+      if (recordingsError) throw recordingsError;
+
+      const emptyProgress = (): BookProgress => ({
+        sessions: 0,
+        totalSeconds: 0,
+        pagesRead: 0,
+        furthestPage: 0,
+        completion: null,
+      });
+
+      const progressByBook = new Map<string, BookProgress>();
+      recordings?.forEach(recording => {
+        const progress = progressByBook.get(recording.book_id) || emptyProgress();
+        progress.sessions += 1;
+        progress.totalSeconds += recording.duration || 0;
+        progress.pagesRead += getPagesRead(recording.start_page, recording.end_page);
+        progress.furthestPage = Math.max(progress.furthestPage, recording.end_page || 0);
+        if (!progress.lastReadAt || recording.created_at > progress.lastReadAt) {
+          progress.lastReadAt = recording.created_at;
+        }
+        progressByBook.set(recording.book_id, progress);
+      });
+
+      return entries.map(entry => {
+        const progress = progressByBook.get(entry.book_id) || emptyProgress();
+        const pageCount = entry.book?.page_count;
+        return {
+          ...entry,
+          progress: {
+            ...progress,
+            completion: pageCount
+              ? (entry.status === 'finished' ? 1 : Math.min(1, progress.furthestPage / pageCount))
+              : null,
+          },
+        };
+      });
+    } catch (error) {
+      console.error('❌ Get library error:', error);
+      throw error;
+    }
+  },
+};
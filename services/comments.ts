@@ -0,0 +1,154 @@
+import * as Crypto from 'expo-crypto';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { audioService } from './audio';
+import { getAudioFormat } from '../constants/RecordingProfiles';
+import { AudioRecord } from '../types/audio';
+import { CommentThread, RecordingComment, SectionClip } from '../types/comments';
+
+const COMMENT_COLUMNS = 'id, recording_id, student_id, author_id, reply_to, position, body, clip_path, clip_duration, created_at';
+
+// Numeric columns come back from PostgREST as strings
+type CommentRow = Omit<RecordingComment, 'position' | 'clip_duration'> & {
+  position: string | number;
+  clip_duration: string | number | null;
+};
+
+const toComment = (row: CommentRow): RecordingComment => ({
+  ...row,
+  position: Number(row.position),
+  clip_duration: row.clip_duration === null ? null : Number(row.clip_duration),
+});
+
+export const commentService = {
+  // Comment threads per recording, in the order they come up during playback
+  async getComments(recordingIds: string[]): Promise<Record<string, CommentThread[]>> {
+    try {
+      if (recordingIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('recording_comments')
+        .select(COMMENT_COLUMNS)
+        .in('recording_id', recordingIds)
+        .order('position', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      const comments = (data || []).map(toComment);
+      const threads: Record<string, CommentThread[]> = {};
+      comments
+        .filter(comment => !comment.reply_to)
+        .forEach(comment => {
+          const replies = comments.filter(reply => reply.reply_to === comment.id);
+          threads[comment.recording_id] = [...(threads[comment.recording_id] || []), { ...comment, replies }];
+        });
+      return threads;
+    } catch (error) {
+      console.error('❌ Get comments error:', error);
+      throw error;
+    }
+  },
+
+  // Pin a comment to a moment in a student's recording (parent function)
+  async addComment(record: Pick<AudioRecord, 'id' | 'user_id'>, position: number, body: string): Promise<RecordingComment> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      if (!body.trim()) throw new Error('Write a comment first');
+
+      const { data, error } = await supabase
+        .from('recording_comments')
+        .insert({
+          recording_id: record.id,
+          student_id: record.user_id,
+          author_id: user.id,
+          position: Math.round(position * 100) / 100,
+          body: body.trim(),
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      console.log('💬 Comment added at', audioService.formatDuration(position));
+      return toComment(data);
+    } catch (error) {
+      console.error('❌ Add comment error:', error);
+      throw error;
+    }
+  },
+
+  // Answer a comment with text, a re-reading of that section, or both (student function)
+  async reply(comment: RecordingComment, body: string, clip?: SectionClip): Promise<RecordingComment> {
+    let clipPath: string | null = null;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      if (!body.trim() && !clip) throw new Error('Write a reply or re-record the section');
+
+      if (clip) {
+        let format = getAudioFormat();
+        let size: number | undefined;
+        if (Platform.OS === 'web') {
+          const blob = await (await fetch(clip.uri)).blob();
+          format = getAudioFormat(blob.type);
+          size = blob.size;
+        }
+        clipPath = await audioService.uploadAudioFile(
+          clip.uri,
+          `section_${Crypto.randomUUID()}.${format.format}`,
+          { size, contentType: format.content_type }
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('recording_comments')
+        .insert({
+          recording_id: comment.recording_id,
+          student_id: user.id,
+          author_id: user.id,
+          reply_to: comment.id,
+          position: comment.position,
+          body: body.trim(),
+          clip_path: clipPath,
+          clip_duration: clip ? Math.round(clip.duration * 100) / 100 : null,
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      console.log('💬 Reply added to comment:', comment.id);
+      return toComment(data);
+    } catch (error) {
+      console.error('❌ Reply to comment error:', error);
+      // Don't leave the clip behind when the reply itself failed
+      if (clipPath) {
+        audioService.deleteAudioFile(clipPath).catch(() => {});
+      }
+      throw error;
+    }
+  },
+
+  // Delete a comment; its replies go with it. Only the author's own clip is
+  // removed here, a guardian can't delete the student's files.
+  async deleteComment(comment: RecordingComment): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('recording_comments')
+        .delete()
+        .eq('id', comment.id);
+
+      if (error) throw error;
+
+      // The comment is gone either way; scripts/reconcile-storage.js finds leftover
+      // clips, including those of deleted replies
+      if (comment.clip_path) {
+        await audioService.deleteAudioFile(comment.clip_path).catch(() => {});
+      }
+      console.log('✅ Comment deleted:', comment.id);
+    } catch (error) {
+      console.error('❌ Delete comment error:', error);
+      throw error;
+    }
+  },
+};
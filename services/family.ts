@@ -0,0 +1,211 @@
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import {
+  GuardianInvite,
+  GuardianInvitePreview,
+  GuardianLink,
+  GuardianLinkWithProfile,
+} from '../types/family';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes are easy to read aloud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+const INVITE_TTL_MINUTES = 30;
+
+const generateInviteCode = () => {
+  const bytes = Crypto.getRandomBytes(INVITE_CODE_LENGTH);
+  return Array.from(bytes)
+    .map(byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length])
+    .join('');
+};
+
+export const familyService = {
+  // Create a short-lived invite code (parent function)
+  async createInviteCode(): Promise<GuardianInvite> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      // Whoever invites a child is acting as a parent
+      await supabase
+        .from('profiles')
+        .update({ role: 'parent' })
+        .eq('user_id', user.id)
+        .is('role', null);
+
+      const expiresAt = new Date(Date.now() + INVITE_TTL_MINUTES * 60 * 1000);
+
+      const { data, error } = await supabase
+        .from('guardian_invites')
+        .insert({
+          parent_id: user.id,
+          code: generateInviteCode(),
+          expires_at: expiresAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      console.log('🔗 Invite code created, expires at:', data.expires_at);
+      return data;
+    } catch (error) {
+      console.error('❌ Create invite code error:', error);
+      throw error;
+    }
+  },
+
+  // Latest unused, unexpired invite code (parent function)
+  async getActiveInvite(): Promise<GuardianInvite | null> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('guardian_invites')
+        .select('*')
+        .eq('parent_id', user.id)
+        .is('redeemed_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      console.error('❌ Get active invite error:', error);
+      throw error;
+    }
+  },
+
+  // Look up who issued a code before the student redeems it
+  async previewInviteCode(code: string): Promise<GuardianInvitePreview | null> {
+    try {
+      const { data, error } = await supabase.rpc('preview_guardian_invite', {
+        invite_code: code.trim().toUpperCase(),
+      });
+
+      if (error) throw error;
+      return data?.[0] || null;
+    } catch (error) {
+      console.error('❌ Preview invite code error:', error);
+      throw error;
+    }
+  },
+
+  // Redeem an invite code (student function), creating a pending link
+  async redeemInviteCode(code: string): Promise<GuardianLink> {
+    try {
+      const { data, error } = await supabase.rpc('redeem_guardian_invite', {
+        invite_code: code.trim().toUpperCase(),
+      });
+
+      if (error) throw error;
+      console.log('✅ Invite code redeemed, link pending confirmation');
+      return data;
+    } catch (error) {
+      console.error('❌ Redeem invite code error:', error);
+      throw error;
+    }
+  },
+
+  // Approve a pending link request (parent function)
+  async confirmLink(linkId: string): Promise<GuardianLink> {
+    try {
+      const { data, error } = await supabase.rpc('confirm_guardian_link', {
+        link_id: linkId,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Confirm link error:', error);
+      throw error;
+    }
+  },
+
+  // Decline a pending request or remove an active link (either side)
+  async revokeLink(linkId: string): Promise<GuardianLink> {
+    try {
+      const { data, error } = await supabase.rpc('revoke_guardian_link', {
+        link_id: linkId,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Revoke link error:', error);
+      throw error;
+    }
+  },
+
+  // Pending and active links for the current user, with the other side's name
+  async getLinks(): Promise<GuardianLinkWithProfile[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: links, error } = await supabase
+        .from('guardian_links')
+        .select('*')
+        .or(`parent_id.eq.${user.id},student_id.eq.${user.id}`)
+        .neq('status', 'revoked')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      if (!links || links.length === 0) return [];
+
+      const otherIds = links.map(link =>
+        link.parent_id === user.id ? link.student_id : link.parent_id
+      );
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', otherIds);
+
+      const nameMap = new Map<string, string>();
+      profiles?.forEach(profile => {
+        nameMap.set(profile.user_id, profile.full_name);
+      });
+
+      return links.map(link => ({
+        ...link,
+        full_name: nameMap.get(
+          link.parent_id === user.id ? link.student_id : link.parent_id
+        ),
+      }));
+    } catch (error) {
+      console.error('❌ Get links error:', error);
+      throw error;
+    }
+  },
+
+  // Students actively linked to the current parent, with their names
+  async getLinkedStudents(): Promise<GuardianLinkWithProfile[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const links = await this.getLinks();
+    return links.filter(link => link.status === 'active' && link.parent_id === user.id);
+  },
+
+  // User ids of students actively linked to the current parent
+  async getLinkedStudentIds(): Promise<string[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('guardian_links')
+        .select('student_id')
+        .eq('parent_id', user.id)
+        .eq('status', 'active');
+
+      if (error) throw error;
+      return data?.map(link => link.student_id) || [];
+    } catch (error) {
+      console.error('❌ Get linked students error:', error);
+      throw error;
+    }
+  },
+};
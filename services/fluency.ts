@@ -0,0 +1,161 @@
+import { supabase } from './supabase';
+import { FluencyMetrics, FluencyTrendPoint, MeteringSample, SpeechSegment, WordSource } from '../types/fluency';
+
+// Quieter than this counts as silence. Phone mics sit around -50 to -60 dB in a quiet room.
+export const SILENCE_THRESHOLD_DB = -45;
+
+// Gaps shorter than this are the breaks between words, not pauses
+export const MIN_PAUSE_SECONDS = 0.5;
+
+// Rough words per page when there is no passage text to count
+export const DEFAULT_WORDS_PER_PAGE = 150;
+
+// Less reading than this and the recording earns no free-reading points
+export const MIN_SPEECH_SECONDS = 10;
+
+// Silence kept either side of the reading when trimming, so the first and last words aren't clipped
+const TRIM_PADDING_SECONDS = 0.3;
+
+const round = (value: number, places: number = 1) => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+// Split a metering trace into alternating speech and silence segments.
+// Short silences are folded into the speech around them.
+export const segmentSpeech = (
+  samples: MeteringSample[],
+  duration: number,
+  thresholdDb: number = SILENCE_THRESHOLD_DB
+): SpeechSegment[] => {
+  if (samples.length === 0) return [];
+
+  const raw: SpeechSegment[] = [];
+  samples.forEach((sample, index) => {
+    const end = index + 1 < samples.length ? samples[index + 1].t : Math.max(duration, sample.t);
+    const speech = sample.db > thresholdDb;
+    const last = raw[raw.length - 1];
+    if (last && last.speech === speech) {
+      last.end = end;
+    } else {
+      raw.push({ start: sample.t, end, speech });
+    }
+  });
+
+  const merged: SpeechSegment[] = [];
+  raw.forEach((segment, index) => {
+    const isInnerGap = !segment.speech && index > 0 && index < raw.length - 1;
+    const speech = segment.speech || (isInnerGap && segment.end - segment.start < MIN_PAUSE_SECONDS);
+    const last = merged[merged.length - 1];
+    if (last && last.speech === speech) {
+      last.end = segment.end;
+    } else {
+      merged.push({ ...segment, speech });
+    }
+  });
+
+  return merged.map(segment => ({ ...segment, start: round(segment.start, 2), end: round(segment.end, 2) }));
+};
+
+// Where the reading starts and stops in a recording, and how much of it is speech.
+// Null when there is no metering to go on (web) so callers fall back to the full length.
+export const findSpeechBounds = (
+  samples: MeteringSample[],
+  duration: number
+): { trim_start: number; trim_end: number; speech_seconds: number } | null => {
+  if (samples.length === 0) return null;
+
+  const speech = segmentSpeech(samples, duration).filter(segment => segment.speech);
+  if (speech.length === 0) return { trim_start: 0, trim_end: round(duration, 2), speech_seconds: 0 };
+
+  return {
+    trim_start: round(Math.max(0, speech[0].start - TRIM_PADDING_SECONDS), 2),
+    trim_end: round(Math.min(duration, speech[speech.length - 1].end + TRIM_PADDING_SECONDS), 2),
+    speech_seconds: round(speech.reduce((sum, segment) => sum + segment.end - segment.start, 0)),
+  };
+};
+
+export const countWords = (text: string) => text.split(/\s+/).filter(word => /\w/.test(word)).length;
+
+// Words read in a session, from the passage itself or else from the pages covered
+export const estimateWords = (options: {
+  passageText?: string | null;
+  pagesRead?: number;
+  wordsPerPage?: number;
+}): { word_count: number; word_source: WordSource } | null => {
+  if (options.passageText?.trim()) {
+    return { word_count: countWords(options.passageText), word_source: 'passage' };
+  }
+  if (options.pagesRead && options.pagesRead > 0) {
+    return {
+      word_count: Math.round(options.pagesRead * (options.wordsPerPage || DEFAULT_WORDS_PER_PAGE)),
+      word_source: 'pages',
+    };
+  }
+  return null;
+};
+
+// Speaking vs pause time and reading pace. Silence before the first word and
+// after the last is ignored so getting ready doesn't count as a pause.
+export const analyzeFluency = (
+  samples: MeteringSample[],
+  duration: number,
+  words?: { word_count: number; word_source: WordSource } | null
+): FluencyMetrics | null => {
+  const segments = segmentSpeech(samples, duration);
+  const firstSpeech = segments.findIndex(segment => segment.speech);
+  if (firstSpeech === -1) return null;
+
+  const lastSpeech = segments.length - 1 - [...segments].reverse().findIndex(segment => segment.speech);
+  const reading = segments.slice(firstSpeech, lastSpeech + 1);
+  const pauses = reading.filter(segment => !segment.speech);
+
+  const speechSeconds = reading
+    .filter(segment => segment.speech)
+    .reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const pauseSeconds = pauses.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+  const longestPause = pauses.reduce((max, segment) => Math.max(max, segment.end - segment.start), 0);
+
+  return {
+    speech_seconds: round(speechSeconds),
+    pause_seconds: round(pauseSeconds),
+    longest_pause_seconds: round(longestPause),
+    pause_count: pauses.length,
+    word_count: words?.word_count,
+    word_source: words?.word_source,
+    words_per_minute: words && speechSeconds > 0
+      ? Math.round(words.word_count / (speechSeconds / 60))
+      : undefined,
+    segments,
+  };
+};
+
+export const fluencyService = {
+  // Analyses oldest first, for charting. Defaults to the current user.
+  async getTrend(studentId?: string, limit: number = 20): Promise<FluencyTrendPoint[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('recording_analyses')
+        .select('*, recording:audio_records(title, created_at)')
+        .eq('user_id', studentId || user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return (data || [])
+        .map(({ recording, ...analysis }) => ({
+          ...analysis,
+          recording_title: recording?.title || 'Recording',
+          recorded_at: recording?.created_at || analysis.created_at,
+        }))
+        .reverse();
+    } catch (error) {
+      console.error('❌ Get fluency trend error:', error);
+      throw error;
+    }
+  },
+};
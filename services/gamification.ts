@@ -1,6 +1,31 @@
 import { supabase } from './supabase';
+import { familyService } from './family';
+import { streakService } from './streaks';
+import { achievementService } from './achievements';
+import { levelingService, getLevelInfo, getLevelForPoints, detectLevelUp } from './leveling';
+import { getPagesRead } from './books';
+import { MIN_SPEECH_SECONDS } from './fluency';
+import { AchievementEvent } from '../types/achievements';
 
 export const gamificationService = {
+  // Points for a saved recording: assignments pay their fixed reward (a parent
+  // reviews them), free reading earns a base amount plus a capped bonus for
+  // time spent actually reading. Too little speech earns nothing.
+  calculateRecordingPoints(speechSeconds: number, assignmentReward?: number) {
+    if (assignmentReward !== undefined) {
+      return { basePoints: assignmentReward, durationBonus: 0, totalPoints: assignmentReward };
+    }
+
+    if (speechSeconds < MIN_SPEECH_SECONDS) {
+      return { basePoints: 0, durationBonus: 0, totalPoints: 0 };
+    }
+
+    const durationMinutes = Math.ceil(speechSeconds / 60);
+    const basePoints = 10;
+    const durationBonus = Math.min(durationMinutes * 2, 20); // Max 20 bonus points
+    return { basePoints, durationBonus, totalPoints: basePoints + durationBonus };
+  },
+
     // Get student progress and stats
   async getStudentProgress() {
     try {
@@ -40,9 +65,13 @@ export const gamificationService = {
             currentStreak: 0,
             longestStreak: 0,
             level: 1,
+            levelInfo: getLevelInfo(0),
             totalRecordings: 0,
             thisWeekRecordings: 0,
+            pagesThisWeek: 0,
             nextLevelPoints: 100,
+            streakFreezes: 0,
+            perfectWeeks: 0,
           };
         }
         
@@ -60,26 +89,28 @@ export const gamificationService = {
         weekStart.setDate(weekStart.getDate() - weekStart.getDay());
         weekStart.setHours(0, 0, 0, 0);
 
-        const { count: thisWeekRecordings } = await supabase
+        const { data: thisWeekRecords } = await supabase
           .from('audio_records')
-          .select('*', { count: 'exact', head: true })
+          .select('start_page, end_page')
           .eq('user_id', user.id)
           .gte('created_at', weekStart.toISOString());
 
-        // Calculate next level points needed
-        const currentLevel = profileData.level || 1;
-        const nextLevelPoints = currentLevel * 100;
-        const pointsToNext = nextLevelPoints - (profileData.points || 0);
+        // Level comes from the family's leveling curve
+        const levelInfo = getLevelInfo(profileData.points || 0, await levelingService.getStudentConfig());
 
         return {
           points: profileData.points || 0,
           diamonds: profileData.diamonds || 0,
           currentStreak: profileData.current_streak || 0,
           longestStreak: profileData.longest_streak || 0,
-          level: profileData.level || 1,
+          level: levelInfo.level,
+          levelInfo,
           totalRecordings: totalRecordings || 0,
-          thisWeekRecordings: thisWeekRecordings || 0,
-          nextLevelPoints: Math.max(0, pointsToNext),
+          thisWeekRecordings: thisWeekRecords?.length || 0,
+          pagesThisWeek: thisWeekRecords?.reduce((sum, r) => sum + getPagesRead(r.start_page, r.end_page), 0) || 0,
+          nextLevelPoints: levelInfo.pointsToNext,
+          streakFreezes: 0,
+          perfectWeeks: 0,
         };
       }
 
@@ -94,27 +125,31 @@ export const gamificationService = {
       weekStart.setDate(weekStart.getDate() - weekStart.getDay());
       weekStart.setHours(0, 0, 0, 0);
 
-      const { count: thisWeekRecordings } = await supabase
+      const { data: thisWeekRecords } = await supabase
         .from('audio_records')
-        .select('*', { count: 'exact', head: true })
+        .select('start_page, end_page')
         .eq('user_id', user.id)
         .gte('created_at', weekStart.toISOString());
 
-      // Calculate next level points needed
-      const currentLevel = profile.level || 1;
-      const nextLevelPoints = currentLevel * 100;
-      const currentLevelMin = (currentLevel - 1) * 100;
-      const pointsToNext = nextLevelPoints - (profile.points || 0);
+      // Level comes from the family's leveling curve
+      const levelInfo = getLevelInfo(profile.points || 0, await levelingService.getStudentConfig());
+
+      // The stored streak is only refreshed on a new recording, so evaluate it live
+      const streak = await streakService.getStreakSummary();
 
       return {
         points: profile.points || 0,
         diamonds: profile.diamonds || 0,
-        currentStreak: profile.current_streak || 0,
-        longestStreak: profile.longest_streak || 0,
-        level: profile.level || 1,
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        level: levelInfo.level,
+        levelInfo,
         totalRecordings: totalRecordings || 0,
-        thisWeekRecordings: thisWeekRecordings || 0,
-        nextLevelPoints: Math.max(0, pointsToNext),
+        thisWeekRecordings: thisWeekRecords?.length || 0,
+        pagesThisWeek: thisWeekRecords?.reduce((sum, r) => sum + getPagesRead(r.start_page, r.end_page), 0) || 0,
+        nextLevelPoints: levelInfo.pointsToNext,
+        streakFreezes: streak.freezesAvailable,
+        perfectWeeks: streak.perfectWeeks,
       };
     } catch (error) {
       console.error('❌ Get student progress error:', error);
@@ -152,235 +187,38 @@ export const gamificationService = {
 
   // Get all achievements with progress
   async getAllAchievements() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      // Get all achievements
-      const { data: achievements, error: achievementsError } = await supabase
-        .from('achievements')
-        .select('*')
-        .order('requirement_value', { ascending: true });
-
-      if (achievementsError) throw achievementsError;
-
-      // Get user's earned achievements
-      const { data: userAchievements, error: userError } = await supabase
-        .from('user_achievements')
-        .select('achievement_id, earned_at')
-        .eq('user_id', user.id);
-
-      if (userError) throw userError;
-
-      const earnedMap = new Map();
-      userAchievements?.forEach(ua => {
-        earnedMap.set(ua.achievement_id, ua.earned_at);
-      });
-
-      return achievements?.map(achievement => ({
-        ...achievement,
-        earned: earnedMap.has(achievement.id),
-        earned_at: earnedMap.get(achievement.id)
-      })) || [];
-    } catch (error) {
-      console.error('❌ Get all achievements error:', error);
-      throw error;
-    }
+    return achievementService.getAchievementsWithProgress();
   },
 
-    // Award points and check for new achievements
-  async awardPoints(points: number, recordingId?: string) {
+  // The balance is maintained from the ledger on the server; the level is
+  // derived here from the family's curve and cached on the profile
+  async applyLevelChange(pointsBefore: number, pointsAfter: number) {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Get current profile
-      const { data: profile, error: selectError } = await supabase
-        .from('profiles')
-        .select('points, level')
-        .eq('user_id', user.id)
-        .single();
-
-      if (selectError) {
-        console.error('Profile not found for points award:', selectError);
-        return { newPoints: points, newLevel: 1 };
-      }
-
-      const newPoints = (profile.points || 0) + points;
-      const newLevel = Math.floor(newPoints / 100) + 1;
-
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          points: newPoints,
-          level: newLevel,
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', user.id);
+      const config = await levelingService.getStudentConfig();
+      const levelInfo = getLevelInfo(pointsAfter, config);
+      const levelUp = detectLevelUp(pointsBefore, pointsAfter, config);
 
-      if (updateError) {
-        console.error('Failed to update points:', updateError);
-        return { newPoints, newLevel };
-      }
-
-      // Check for new achievements
-      await this.checkAndAwardAchievements();
-
-      return { newPoints, newLevel };
-    } catch (error) {
-      console.error('❌ Award points error:', error);
-      throw error;
-    }
-  },
-
-    // Update reading streak
-  async updateStreak() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      const today = new Date().toISOString().split('T')[0];
-      
-      // Check if already recorded today
-      const { data: existingStreak } = await supabase
-        .from('reading_streaks')
-        .select('*')
-        .eq('student_id', user.id)
-        .eq('streak_date', today)
-        .single();
-
-      if (existingStreak) {
-        // Update existing record
+      if (levelUp) {
         await supabase
-          .from('reading_streaks')
-          .update({
-            recordings_count: existingStreak.recordings_count + 1,
-            points_earned: existingStreak.points_earned + 10
-          })
-          .eq('id', existingStreak.id);
-      } else {
-        // Create new streak record
-        const { error: streakError } = await supabase
-          .from('reading_streaks')
-          .insert({
-            student_id: user.id,
-            streak_date: today,
-            recordings_count: 1,
-            points_earned: 10
-          });
-
-        if (streakError) {
-          console.error('Failed to create streak record:', streakError);
-          return;
-        }
-
-        // Update user streak
-        const { data: profile } = await supabase
           .from('profiles')
-          .select('current_streak, longest_streak')
-          .eq('user_id', user.id)
-          .single();
-
-        if (profile) {
-          const newCurrentStreak = (profile.current_streak || 0) + 1;
-          const newLongestStreak = Math.max(
-            profile.longest_streak || 0, 
-            newCurrentStreak
-          );
-
-          await supabase
-            .from('profiles')
-            .update({
-              current_streak: newCurrentStreak,
-              longest_streak: newLongestStreak,
-              last_activity: today
-            })
-            .eq('user_id', user.id);
-        }
+          .update({ level: levelInfo.level })
+          .eq('user_id', user.id);
+        console.log('🆙 Level up:', levelUp.level, levelUp.name);
       }
+
+      return { newPoints: pointsAfter, newLevel: levelInfo.level, levelUp };
     } catch (error) {
-      console.error('❌ Update streak error:', error);
+      console.error('❌ Apply level change error:', error);
       throw error;
     }
   },
 
-  // Check and award achievements
-  async checkAndAwardAchievements() {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
-
-      // Get user stats
-      const stats = await this.getStudentProgress();
-      
-      // Get all achievements user hasn't earned
-      const { data: availableAchievements, error } = await supabase
-        .from('achievements')
-        .select('*')
-        .not('id', 'in', `(
-          SELECT achievement_id 
-          FROM user_achievements 
-          WHERE user_id = '${user.id}'
-        )`);
-
-      if (error) throw error;
-
-      const newAchievements = [];
-
-      for (const achievement of availableAchievements || []) {
-        let earned = false;
-        
-        switch (achievement.requirement_type) {
-          case 'total_recordings':
-            earned = stats.totalRecordings >= achievement.requirement_value;
-            break;
-          case 'streak':
-            earned = stats.currentStreak >= achievement.requirement_value;
-            break;
-          case 'points':
-            earned = stats.points >= achievement.requirement_value;
-            break;
-          case 'perfect_week':
-            // Check if user has recorded every day for a week
-            // This would need more complex logic
-            break;
-        }
-
-        if (earned) {
-          // Award achievement
-          await supabase
-            .from('user_achievements')
-            .insert({
-              user_id: user.id,
-              achievement_id: achievement.id
-            });
-
-          // Award points and diamonds
-          if (achievement.points_reward > 0 || achievement.diamonds_reward > 0) {
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('points, diamonds')
-              .eq('id', user.id)
-              .single();
-
-            await supabase
-              .from('profiles')
-              .update({
-                points: (profile?.points || 0) + achievement.points_reward,
-                diamonds: (profile?.diamonds || 0) + achievement.diamonds_reward
-              })
-              .eq('id', user.id);
-          }
-
-          newAchievements.push(achievement);
-        }
-      }
-
-      return newAchievements;
-    } catch (error) {
-      console.error('❌ Check achievements error:', error);
-      throw error;
-    }
+  // Check and award achievements affected by the given events
+  async checkAndAwardAchievements(events?: AchievementEvent[]) {
+    return achievementService.evaluate(events);
   },
 
   // Parent functions
@@ -389,39 +227,51 @@ export const gamificationService = {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      // Students come from confirmed guardian links, so a child can have several parents
+      const { data: links, error: linksError } = await supabase
+        .from('guardian_links')
+        .select('id, student_id')
+        .eq('parent_id', user.id)
+        .eq('status', 'active');
+
+      if (linksError) throw linksError;
+      if (!links || links.length === 0) return [];
+
       const { data: students, error } = await supabase
         .from('profiles')
         .select('*')
-        .eq('parent_id', user.id);
+        .in('user_id', links.map(link => link.student_id));
 
       if (error) throw error;
 
+      // Levels on the dashboard follow this parent's family curve
+      const levelConfig = await levelingService.getFamilyConfig();
+
       // Get stats for each student
       const studentsWithStats = await Promise.all(
         (students || []).map(async (student) => {
           const { count: totalRecordings } = await supabase
             .from('audio_records')
             .select('*', { count: 'exact', head: true })
-            .eq('user_id', student.id);
+            .eq('user_id', student.user_id);
 
           const { count: pendingAssignments } = await supabase
             .from('reading_assignments')
             .select('*', { count: 'exact', head: true })
-            .eq('student_id', student.id)
+            .eq('student_id', student.user_id)
             .eq('status', 'pending');
 
-          const today = new Date().toISOString().split('T')[0];
-          const { count: todayRecordings } = await supabase
-            .from('audio_records')
-            .select('*', { count: 'exact', head: true })
-            .eq('user_id', student.id)
-            .gte('created_at', today);
+          const streak = await streakService.getStreakSummary(student.user_id);
 
           return {
             ...student,
+            level: getLevelForPoints(student.points || 0, levelConfig),
+            linkId: links.find(link => link.student_id === student.user_id)?.id,
+            currentStreak: streak.currentStreak,
+            streakFreezes: streak.freezesAvailable,
             totalRecordings: totalRecordings || 0,
             pendingAssignments: pendingAssignments || 0,
-            completedToday: (todayRecordings || 0) > 0
+            completedToday: streak.readToday
           };
         })
       );
@@ -438,22 +288,32 @@ export const gamificationService = {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
+      const studentIds = await familyService.getLinkedStudentIds();
+      if (studentIds.length === 0) return [];
+
       // Get recent recordings from students
       const { data: recentRecordings, error } = await supabase
         .from('audio_records')
-        .select(`
-          *,
-          profiles!inner(parent_id, full_name)
-        `)
-        .eq('profiles.parent_id', user.id)
+        .select('*')
+        .in('user_id', studentIds)
         .order('created_at', { ascending: false })
         .limit(10);
 
       if (error) throw error;
 
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', studentIds);
+
+      const nameMap = new Map<string, string>();
+      profiles?.forEach(profile => {
+        nameMap.set(profile.user_id, profile.full_name);
+      });
+
       return recentRecordings?.map(recording => ({
         type: 'recording',
-        title: `${recording.profiles.full_name} completed "${recording.title}"`,
+        title: `${nameMap.get(recording.user_id) || 'Student'} completed "${recording.title}"`,
         time: new Date(recording.created_at).toLocaleDateString()
       })) || [];
     } catch (error) {
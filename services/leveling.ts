@@ -0,0 +1,187 @@
+import { supabase } from './supabase';
+import { LevelCurve, LevelInfo, LevelingConfig, LevelUpEvent } from '../types/leveling';
+
+// Matches the original flat 100 points per level, so existing levels don't move
+export const DEFAULT_LEVELING_CONFIG: LevelingConfig = {
+  curve: { type: 'linear', points_per_level: 100 },
+  level_names: [
+    'Page Turner',
+    'Story Seeker',
+    'Chapter Champ',
+    'Book Explorer',
+    'Reading Ranger',
+    'Word Wizard',
+    'Tale Master',
+    'Library Legend',
+  ],
+  perks: {
+    3: 'Silver reader badge',
+    5: 'Gold reader badge',
+    10: 'Legendary reader badge',
+  },
+};
+
+const MAX_LEVEL = 999;
+
+// Minimum points needed to be at a level (level 1 starts at 0)
+export const getLevelThreshold = (level: number, curve: LevelCurve): number => {
+  if (level <= 1) return 0;
+
+  switch (curve.type) {
+    case 'exponential': {
+      // Each level costs `growth` times the previous one, starting at base_points
+      if (curve.growth === 1) return curve.base_points * (level - 1);
+      return Math.round(
+        (curve.base_points * (Math.pow(curve.growth, level - 1) - 1)) / (curve.growth - 1)
+      );
+    }
+    case 'table': {
+      const thresholds = curve.thresholds;
+      if (level - 1 < thresholds.length) return thresholds[level - 1];
+
+      // Past the end of the table, keep adding the last step
+      const last = thresholds[thresholds.length - 1] || 0;
+      const step = thresholds.length > 1 ? last - thresholds[thresholds.length - 2] : 100;
+      return last + step * (level - thresholds.length);
+    }
+    default:
+      return curve.points_per_level * (level - 1);
+  }
+};
+
+export const getLevelForPoints = (points: number, config: LevelingConfig = DEFAULT_LEVELING_CONFIG) => {
+  let level = 1;
+  while (level < MAX_LEVEL && getLevelThreshold(level + 1, config.curve) <= points) {
+    level++;
+  }
+  return level;
+};
+
+export const getLevelName = (level: number, config: LevelingConfig = DEFAULT_LEVELING_CONFIG) => {
+  const names = config.level_names;
+  if (names.length === 0) return `Level ${level}`;
+  return names[Math.min(level, names.length) - 1];
+};
+
+export const getLevelInfo = (points: number, config: LevelingConfig = DEFAULT_LEVELING_CONFIG): LevelInfo => {
+  const level = getLevelForPoints(points, config);
+  const currentLevelMin = getLevelThreshold(level, config.curve);
+  const nextLevelMin = getLevelThreshold(level + 1, config.curve);
+  const nextPerkLevel = Object.keys(config.perks)
+    .map(Number)
+    .filter(perkLevel => perkLevel > level)
+    .sort((a, b) => a - b)[0];
+
+  return {
+    level,
+    name: getLevelName(level, config),
+    currentLevelMin,
+    nextLevelMin,
+    pointsToNext: Math.max(0, nextLevelMin - points),
+    progress: Math.max(0, Math.min(1, (points - currentLevelMin) / Math.max(1, nextLevelMin - currentLevelMin))),
+    nextPerk: nextPerkLevel ? { level: nextPerkLevel, perk: config.perks[nextPerkLevel] } : undefined,
+  };
+};
+
+// Level-up caused by going from one points total to another, if any
+export const detectLevelUp = (
+  previousPoints: number,
+  newPoints: number,
+  config: LevelingConfig = DEFAULT_LEVELING_CONFIG
+): LevelUpEvent | null => {
+  const previousLevel = getLevelForPoints(previousPoints, config);
+  const level = getLevelForPoints(newPoints, config);
+  if (level <= previousLevel) return null;
+
+  const perks = Object.keys(config.perks)
+    .map(Number)
+    .filter(perkLevel => perkLevel > previousLevel && perkLevel <= level)
+    .map(perkLevel => config.perks[perkLevel]);
+
+  return { previousLevel, level, name: getLevelName(level, config), perks };
+};
+
+const mergeConfig = (override?: Partial<LevelingConfig> | null): LevelingConfig => ({
+  curve: override?.curve || DEFAULT_LEVELING_CONFIG.curve,
+  level_names: override?.level_names?.length ? override.level_names : DEFAULT_LEVELING_CONFIG.level_names,
+  perks: override?.perks || DEFAULT_LEVELING_CONFIG.perks,
+});
+
+export const levelingService = {
+  // Curve for a student: their primary guardian's family settings, else the default
+  async getStudentConfig(studentId?: string): Promise<LevelingConfig> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const targetId = studentId || user.id;
+
+      const [{ data: profile }, { data: links }] = await Promise.all([
+        supabase.from('profiles').select('parent_id').eq('user_id', targetId).maybeSingle(),
+        supabase
+          .from('guardian_links')
+          .select('parent_id')
+          .eq('student_id', targetId)
+          .eq('status', 'active'),
+      ]);
+
+      const guardianIds = links?.map(link => link.parent_id) || [];
+      if (guardianIds.length === 0) return DEFAULT_LEVELING_CONFIG;
+
+      const { data: settings, error } = await supabase
+        .from('family_level_settings')
+        .select('parent_id, config')
+        .in('parent_id', guardianIds);
+
+      if (error) throw error;
+
+      const primary =
+        settings?.find(s => s.parent_id === profile?.parent_id) || settings?.[0];
+      return mergeConfig(primary?.config);
+    } catch (error) {
+      console.error('❌ Get leveling config error:', error);
+      return DEFAULT_LEVELING_CONFIG;
+    }
+  },
+
+  // The current parent's family override (parent function)
+  async getFamilyConfig(): Promise<LevelingConfig> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('family_level_settings')
+        .select('config')
+        .eq('parent_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return mergeConfig(data?.config);
+    } catch (error) {
+      console.error('❌ Get family leveling config error:', error);
+      throw error;
+    }
+  },
+
+  // Save the family override (parent function)
+  async saveFamilyConfig(config: LevelingConfig) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('family_level_settings')
+        .upsert({
+          parent_id: user.id,
+          config,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Save family leveling config error:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+import { PointsTransaction } from '../types/points';
+
+export const pointsService = {
+  // Manual bonus or correction for a linked student (parent function)
+  async adjustPoints(studentId: string, amount: number, reason: string): Promise<PointsTransaction> {
+    try {
+      const { data, error } = await supabase.rpc('adjust_points', {
+        student: studentId,
+        points: amount,
+        note: reason.trim(),
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Adjust points error:', error);
+      throw error;
+    }
+  },
+
+  // Current balance, kept in step with the ledger on the server
+  async getBalance(): Promise<{ points: number; diamonds: number }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('points, diamonds')
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      return { points: data?.points || 0, diamonds: data?.diamonds || 0 };
+    } catch (error) {
+      console.error('❌ Get balance error:', error);
+      throw error;
+    }
+  },
+
+  // Where every point came from, newest first. Defaults to the current user.
+  async getHistory(studentId?: string, limit: number = 50): Promise<PointsTransaction[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('points_transactions')
+        .select('*')
+        .eq('user_id', studentId || user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('❌ Get points history error:', error);
+      throw error;
+    }
+  },
+};
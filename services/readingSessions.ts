@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import { getDeviceTimeZone } from './streaks';
+import { ReadingSessionResult, SavedReadingSession, SubmitReadingSessionData } from '../types/readingSessions';
+
+export const readingSessionService = {
+  // Save a finished reading with its analysis, assignment, points, streak and
+  // achievements in one server transaction. The session id makes it safe to
+  // retry: a session that already went through returns its original result.
+  async submit(sessionId: string, data: SubmitReadingSessionData): Promise<ReadingSessionResult> {
+    try {
+      const { data: result, error } = await supabase.rpc('submit_reading_session', {
+        session_id: sessionId,
+        details: { ...data, timezone: data.timezone || getDeviceTimeZone() },
+      });
+
+      if (error) throw error;
+      console.log('✅ Reading session submitted:', sessionId, `+${result.points_earned} points`);
+      return result;
+    } catch (error) {
+      console.error('❌ Submit reading session error:', error);
+      throw error;
+    }
+  },
+
+  // The committed session with this id, or null when nothing was saved. Tells a
+  // submit whose response was lost apart from one that never reached the server.
+  async getSaved(sessionId: string): Promise<SavedReadingSession | null> {
+    try {
+      const { data, error } = await supabase
+        .from('reading_sessions')
+        .select('id, recording_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Get saved reading session error:', error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { segmentSpeech, SILENCE_THRESHOLD_DB } from './fluency';
+import { AudioQualityIssue, AudioQualityReport } from '../types/audio';
+import { MeteringSample } from '../types/fluency';
+
+// Louder than this the microphone is overloaded and the sound distorts
+export const CLIPPING_DB = -1;
+
+// Speech that peaks below this is hard to hear back
+export const QUIET_SPEECH_DB = -30;
+
+// A gap this long mid-reading usually means the reader stopped or wandered off
+export const LONG_SILENCE_SECONDS = 8;
+
+// How far back the live warnings look
+const LIVE_WINDOW_SECONDS = 3;
+
+export type LiveAudioWarning = AudioQualityIssue | null;
+
+export const QUALITY_ISSUE_MESSAGES: Record<AudioQualityIssue, string> = {
+  clipping: 'Too loud! Hold the phone a little further away.',
+  too_quiet: 'We can barely hear you. Read louder or move closer.',
+  long_silence: 'We haven\'t heard reading for a while. Still there?',
+};
+
+// Same problems described after the fact, for the summary and history
+export const QUALITY_ISSUE_SUMMARIES: Record<AudioQualityIssue, string> = {
+  clipping: 'Some parts were too loud and may sound crackly.',
+  too_quiet: 'It was hard to hear. Read louder or move closer next time.',
+  long_silence: 'There were long quiet gaps in the reading.',
+};
+
+// What to tell the reader right now, judged from the last few seconds
+export const getLiveWarning = (samples: MeteringSample[]): LiveAudioWarning => {
+  if (samples.length === 0) return null;
+
+  const now = samples[samples.length - 1].t;
+  let lastSpeechAt = 0;
+  for (let index = samples.length - 1; index >= 0; index--) {
+    if (samples[index].db > SILENCE_THRESHOLD_DB) {
+      lastSpeechAt = samples[index].t;
+      break;
+    }
+  }
+  if (now - lastSpeechAt >= LONG_SILENCE_SECONDS) return 'long_silence';
+
+  const recent = samples.filter(sample => sample.t >= now - LIVE_WINDOW_SECONDS);
+  if (recent.filter(sample => sample.db >= CLIPPING_DB).length >= 3) return 'clipping';
+
+  const recentSpeech = recent.filter(sample => sample.db > SILENCE_THRESHOLD_DB);
+  const peak = Math.max(...recentSpeech.map(sample => sample.db));
+  if (recentSpeech.length >= recent.length / 2 && peak < QUIET_SPEECH_DB) return 'too_quiet';
+
+  return null;
+};
+
+// Score a whole recording. Each problem takes points off in proportion to how bad it is.
+export const assessQuality = (samples: MeteringSample[], duration: number): AudioQualityReport | null => {
+  if (samples.length === 0) return null;
+
+  const speech = samples.filter(sample => sample.db > SILENCE_THRESHOLD_DB);
+  if (speech.length === 0) return { score: 0, issues: ['too_quiet'] };
+
+  const issues: AudioQualityIssue[] = [];
+  let score = 100;
+
+  const clippedShare = speech.filter(sample => sample.db >= CLIPPING_DB).length / speech.length;
+  if (clippedShare > 0.02) {
+    issues.push('clipping');
+    score -= Math.min(40, Math.round(clippedShare * 400));
+  }
+
+  const levels = speech.map(sample => sample.db).sort((a, b) => a - b);
+  const loudLevel = levels[Math.floor(levels.length * 0.9)];
+  if (loudLevel < QUIET_SPEECH_DB) {
+    issues.push('too_quiet');
+    score -= Math.min(30, Math.round((QUIET_SPEECH_DB - loudLevel) * 3));
+  }
+
+  // Only gaps between stretches of reading; getting ready and wrapping up don't count
+  const segments = segmentSpeech(samples, duration);
+  const longGaps = segments.filter((segment, index) =>
+    !segment.speech && index > 0 && index < segments.length - 1
+    && segment.end - segment.start >= LONG_SILENCE_SECONDS
+  ).length;
+  if (longGaps > 0) {
+    issues.push('long_silence');
+    score -= Math.min(30, longGaps * 10);
+  }
+
+  return { score: Math.max(0, score), issues };
+};
@@ -0,0 +1,215 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { ResumableUploadOptions, UploadControl } from '../types/upload';
+
+// Supabase Storage's resumable (TUS) endpoint works in 6 MB chunks
+export const UPLOAD_CHUNK_BYTES = 6 * 1024 * 1024;
+
+const TUS_VERSION = '1.0.0';
+const RESUMABLE_ENDPOINT = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export const isUploadPaused = (error: any) => error?.paused === true;
+
+const pausedError = () => Object.assign(new Error('Upload paused'), { paused: true });
+
+export const createUploadControl = (): UploadControl => ({
+  paused: false,
+  async pause() {
+    this.paused = true;
+    await this.cancelCurrent?.();
+  },
+});
+
+// Header names differ in case between platforms
+const getHeader = (headers: Record<string, string>, name: string) =>
+  Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase())?.[1];
+
+// Fetched per request, since a long upload can outlive an access token
+const getAuthHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('User not authenticated');
+
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+    'Tus-Resumable': TUS_VERSION,
+  };
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata).map(([key, value]) => `${key} ${btoa(value)}`).join(',');
+
+const createSession = async (options: ResumableUploadOptions) => {
+  const response = await fetch(RESUMABLE_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...(await getAuthHeaders()),
+      'Upload-Length': String(options.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: options.bucket,
+        objectName: options.objectName,
+        contentType: options.contentType,
+        cacheControl: '3600',
+      }),
+      // File names are unique per recording, so overwriting only ever replaces
+      // a copy that finished uploading before the app could record it
+      'x-upsert': 'true',
+    },
+  });
+
+  const location = response.headers.get('Location');
+  if (response.status !== 201 || !location) {
+    throw new Error(`Could not start upload (${response.status}): ${await response.text()}`);
+  }
+  return location;
+};
+
+// Bytes the server already has, or null when the session expired and the upload must restart
+const getServerOffset = async (uploadUrl: string): Promise<number | null> => {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers: await getAuthHeaders() });
+  if ([403, 404, 410].includes(response.status)) return null;
+  if (!response.ok) throw new Error(`Could not check upload (${response.status})`);
+  return Number(response.headers.get('Upload-Offset') || 0);
+};
+
+// Native: hand the bytes to the OS upload session, which reads them from disk
+// and keeps going while the app is in the background. A chunk is copied to its
+// own file unless it is the whole recording.
+const sendChunkFromDisk = async (
+  uploadUrl: string,
+  options: ResumableUploadOptions,
+  offset: number,
+  length: number,
+  control: UploadControl
+) => {
+  const wholeFile = offset === 0 && length === options.size;
+  const chunkUri = wholeFile ? options.fileUri : `${FileSystem.cacheDirectory}upload-chunk-${Date.now()}.bin`;
+
+  try {
+    if (!wholeFile) {
+      const chunk = await FileSystem.readAsStringAsync(options.fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+      await FileSystem.writeAsStringAsync(chunkUri, chunk, { encoding: FileSystem.EncodingType.Base64 });
+    }
+
+    const task = FileSystem.createUploadTask(
+      uploadUrl,
+      chunkUri,
+      {
+        httpMethod: 'PATCH',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        sessionType: FileSystem.FileSystemSessionType.BACKGROUND,
+        headers: {
+          ...(await getAuthHeaders()),
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+      },
+      ({ totalBytesSent }) => options.onProgress?.(offset + totalBytesSent, options.size)
+    );
+    control.cancelCurrent = () => task.cancelAsync();
+
+    const result = await task.uploadAsync();
+    if (!result) throw pausedError();
+    if (result.status !== 204) {
+      throw new Error(`Upload failed (${result.status}): ${result.body}`);
+    }
+    return Number(getHeader(result.headers, 'Upload-Offset') ?? offset + length);
+  } finally {
+    control.cancelCurrent = undefined;
+    if (!wholeFile) {
+      await FileSystem.deleteAsync(chunkUri, { idempotent: true });
+    }
+  }
+};
+
+// Web: XHR rather than fetch, for upload progress and abort
+const sendChunkFromBlob = async (
+  uploadUrl: string,
+  blob: Blob,
+  options: ResumableUploadOptions,
+  offset: number,
+  length: number,
+  control: UploadControl
+) => {
+  const headers = {
+    ...(await getAuthHeaders()),
+    'Upload-Offset': String(offset),
+    'Content-Type': 'application/offset+octet-stream',
+  };
+
+  return new Promise<number>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', uploadUrl);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+    xhr.upload.onprogress = (event) => options.onProgress?.(offset + event.loaded, options.size);
+    xhr.onload = () => {
+      control.cancelCurrent = undefined;
+      if (xhr.status === 204) {
+        resolve(Number(xhr.getResponseHeader('Upload-Offset') ?? offset + length));
+      } else {
+        reject(new Error(`Upload failed (${xhr.status}): ${xhr.responseText}`));
+      }
+    };
+    xhr.onerror = () => {
+      control.cancelCurrent = undefined;
+      reject(new Error('Network error while uploading'));
+    };
+    xhr.onabort = () => {
+      control.cancelCurrent = undefined;
+      reject(pausedError());
+    };
+
+    control.cancelCurrent = () => xhr.abort();
+    xhr.send(blob.slice(offset, offset + length));
+  });
+};
+
+export const resumableUploadService = {
+  // Upload a file in chunks, continuing an earlier session when one is given.
+  // Rejects with a paused error (see isUploadPaused) when control.pause() is called.
+  async upload(options: ResumableUploadOptions): Promise<string> {
+    const control = options.control || createUploadControl();
+
+    let uploadUrl = options.uploadUrl;
+    let offset = uploadUrl ? await getServerOffset(uploadUrl) : null;
+    if (!uploadUrl || offset === null) {
+      uploadUrl = await createSession(options);
+      await options.onSessionCreated?.(uploadUrl);
+      offset = 0;
+    } else {
+      console.log('⏯️ Resuming upload at', offset, 'of', options.size, 'bytes');
+    }
+    options.onProgress?.(offset, options.size);
+
+    // Blob URLs can't be read in ranges, but slicing the blob doesn't copy it
+    const blob = Platform.OS === 'web' ? await (await fetch(options.fileUri)).blob() : null;
+
+    while (offset < options.size) {
+      if (control.paused) throw pausedError();
+
+      const length = Math.min(UPLOAD_CHUNK_BYTES, options.size - offset);
+      offset = blob
+        ? await sendChunkFromBlob(uploadUrl, blob, options, offset, length, control)
+        : await sendChunkFromDisk(uploadUrl, options, offset, length, control);
+      await options.onChunkUploaded?.(offset);
+    }
+
+    console.log('✅ Resumable upload finished:', options.objectName);
+    return options.objectName;
+  },
+
+  // Throw away an unfinished upload so the server drops the bytes it has.
+  // Sessions that already expired are gone anyway.
+  async terminate(uploadUrl: string) {
+    const response = await fetch(uploadUrl, { method: 'DELETE', headers: await getAuthHeaders() });
+    if (!response.ok && ![404, 410].includes(response.status)) {
+      throw new Error(`Could not cancel upload (${response.status})`);
+    }
+  },
+};
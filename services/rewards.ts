@@ -0,0 +1,186 @@
+import { supabase } from './supabase';
+import {
+  CreateRewardData,
+  RedemptionWithStudent,
+  Reward,
+  RewardRedemption,
+} from '../types/rewards';
+
+export const rewardService = {
+  // Rewards the current parent offers (parent function)
+  async getParentRewards(): Promise<Reward[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('rewards')
+        .select('*')
+        .eq('parent_id', user.id)
+        .eq('active', true)
+        .order('diamond_cost', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('❌ Get parent rewards error:', error);
+      throw error;
+    }
+  },
+
+  // Rewards offered by every linked guardian (student function)
+  async getShopRewards(): Promise<Reward[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      // RLS limits this to rewards from the student's active guardians
+      const { data, error } = await supabase
+        .from('rewards')
+        .select('*')
+        .neq('parent_id', user.id)
+        .eq('active', true)
+        .order('diamond_cost', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('❌ Get shop rewards error:', error);
+      throw error;
+    }
+  },
+
+  // Add a reward to the shop (parent function)
+  async createReward(rewardData: CreateRewardData): Promise<Reward> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      if (!Number.isInteger(rewardData.diamond_cost) || rewardData.diamond_cost <= 0) {
+        throw new Error('Price must be a whole number of diamonds');
+      }
+
+      const { data, error } = await supabase
+        .from('rewards')
+        .insert({
+          parent_id: user.id,
+          title: rewardData.title.trim(),
+          description: rewardData.description?.trim() || null,
+          diamond_cost: rewardData.diamond_cost,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Create reward error:', error);
+      throw error;
+    }
+  },
+
+  // Take a reward out of the shop. Past redemptions keep their snapshot.
+  async archiveReward(rewardId: string) {
+    try {
+      const { error } = await supabase
+        .from('rewards')
+        .update({ active: false })
+        .eq('id', rewardId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('❌ Archive reward error:', error);
+      throw error;
+    }
+  },
+
+  // Spend diamonds on a reward; the parent still has to approve it
+  async redeemReward(rewardId: string): Promise<RewardRedemption> {
+    try {
+      const { data, error } = await supabase.rpc('redeem_reward', {
+        reward: rewardId,
+      });
+
+      if (error) throw error;
+      console.log('🎁 Reward requested:', data.reward_title);
+      return data;
+    } catch (error) {
+      console.error('❌ Redeem reward error:', error);
+      throw error;
+    }
+  },
+
+  // The current student's reward requests, newest first
+  async getMyRedemptions(): Promise<RewardRedemption[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('reward_redemptions')
+        .select('*')
+        .eq('student_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('❌ Get redemptions error:', error);
+      throw error;
+    }
+  },
+
+  // Requests waiting for the current parent, with the student's name
+  async getPendingRedemptions(): Promise<RedemptionWithStudent[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data: redemptions, error } = await supabase
+        .from('reward_redemptions')
+        .select('*')
+        .eq('parent_id', user.id)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      if (!redemptions || redemptions.length === 0) return [];
+
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, full_name')
+        .in('user_id', redemptions.map(r => r.student_id));
+
+      const nameMap = new Map<string, string>();
+      profiles?.forEach(profile => {
+        nameMap.set(profile.user_id, profile.full_name);
+      });
+
+      return redemptions.map(redemption => ({
+        ...redemption,
+        student_name: nameMap.get(redemption.student_id),
+      }));
+    } catch (error) {
+      console.error('❌ Get pending redemptions error:', error);
+      throw error;
+    }
+  },
+
+  // Approve or reject a request; rejecting refunds the diamonds
+  async decideRedemption(redemptionId: string, approve: boolean, note?: string): Promise<RewardRedemption> {
+    try {
+      const { data, error } = await supabase.rpc('decide_redemption', {
+        redemption: redemptionId,
+        approve,
+        note: note?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Decide redemption error:', error);
+      throw error;
+    }
+  },
+};
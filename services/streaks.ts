@@ -0,0 +1,163 @@
+import { supabase } from './supabase';
+import { StreakFreeze, StreakSummary } from '../types/streaks';
+
+// Mirrors the limits enforced by purchase_streak_freeze() on the server
+export const STREAK_FREEZE_COST = 10;
+export const MAX_BANKED_FREEZES = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Calendar day (YYYY-MM-DD) an instant falls on in the given time zone
+export const toLocalDateKey = (date: Date, timeZone?: string) => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).formatToParts(date);
+    const part = (type: string) => parts.find(p => p.type === type)?.value;
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  } catch {
+    // Unknown time zone, fall back to the device calendar
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+};
+
+// Date keys are plain calendar days, so the arithmetic is done in UTC
+export const shiftDateKey = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+// Frozen days keep a streak alive but only reading days add to its length.
+// Today is still in progress, so a streak ending yesterday is not broken yet.
+export const calculateStreaks = (readingDays: string[], frozenDays: string[], today: string) => {
+  const reading = new Set(readingDays);
+  const covered = new Set([...readingDays, ...frozenDays]);
+
+  let currentStreak = 0;
+  let cursor = covered.has(today) ? today : shiftDateKey(today, -1);
+  while (covered.has(cursor)) {
+    if (reading.has(cursor)) currentStreak++;
+    cursor = shiftDateKey(cursor, -1);
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  let previous: string | undefined;
+  for (const day of [...covered].sort()) {
+    if (!previous || daysBetween(previous, day) !== 1) run = 0;
+    if (reading.has(day)) run++;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  }
+
+  return { currentStreak, longestStreak };
+};
+
+// Monday-to-Sunday weeks with a reading on all seven days. Freezes don't count.
+export const countPerfectWeeks = (readingDays: string[]) => {
+  const reading = new Set(readingDays);
+  const mondays = new Set(
+    readingDays.map(day => {
+      const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+      return shiftDateKey(day, -((weekday + 6) % 7));
+    })
+  );
+
+  let perfectWeeks = 0;
+  mondays.forEach(monday => {
+    const week = Array.from({ length: 7 }, (_, offset) => shiftDateKey(monday, offset));
+    if (week.every(day => reading.has(day))) perfectWeeks++;
+  });
+  return perfectWeeks;
+};
+
+const loadStreakDays = async (studentId: string) => {
+  const [{ data: streakRows, error: streakError }, { data: freezes, error: freezeError }] = await Promise.all([
+    supabase.from('reading_streaks').select('streak_date').eq('student_id', studentId),
+    supabase.from('streak_freezes').select('used_on').eq('student_id', studentId),
+  ]);
+
+  if (streakError) throw streakError;
+  if (freezeError) throw freezeError;
+
+  return {
+    readingDays: streakRows?.map(row => row.streak_date as string) || [],
+    frozenDays: freezes?.filter(f => f.used_on).map(f => f.used_on as string) || [],
+    freezesAvailable: freezes?.filter(f => !f.used_on).length || 0,
+  };
+};
+
+export const streakService = {
+  // Live streak for a student, evaluated in that student's time zone so a
+  // lapsed streak shows as broken even before they record again
+  async getStreakSummary(studentId?: string): Promise<StreakSummary> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const targetId = studentId || user.id;
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('longest_streak, timezone')
+        .eq('user_id', targetId)
+        .maybeSingle();
+
+      const timeZone = studentId ? profile?.timezone || undefined : getDeviceTimeZone();
+      const today = toLocalDateKey(new Date(), timeZone);
+      const { readingDays, frozenDays, freezesAvailable } = await loadStreakDays(targetId);
+      const { currentStreak, longestStreak } = calculateStreaks(readingDays, frozenDays, today);
+
+      return {
+        currentStreak,
+        longestStreak: Math.max(profile?.longest_streak || 0, longestStreak),
+        readToday: readingDays.includes(today),
+        freezesAvailable,
+        perfectWeeks: countPerfectWeeks(readingDays),
+      };
+    } catch (error) {
+      console.error('❌ Get streak summary error:', error);
+      throw error;
+    }
+  },
+
+  // Spend diamonds on a streak freeze (student function)
+  async purchaseFreeze(): Promise<StreakFreeze> {
+    try {
+      const { data, error } = await supabase.rpc('purchase_streak_freeze');
+
+      if (error) throw error;
+      console.log('🧊 Streak freeze purchased');
+      return data;
+    } catch (error) {
+      console.error('❌ Purchase streak freeze error:', error);
+      throw error;
+    }
+  },
+
+  // Give a linked student a free streak freeze (parent function)
+  async grantFreeze(studentId: string): Promise<StreakFreeze> {
+    try {
+      const { data, error } = await supabase.rpc('grant_streak_freeze', {
+        student: studentId,
+      });
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('❌ Grant streak freeze error:', error);
+      throw error;
+    }
+  },
+};
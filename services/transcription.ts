@@ -0,0 +1,218 @@
+import { requireOptionalNativeModule } from 'expo';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import type { ExpoSpeechRecognitionModule, ExpoSpeechRecognitionResult } from 'expo-speech-recognition';
+import { supabase } from './supabase';
+import { audioService } from './audio';
+import { AudioRecord } from '../types/audio';
+import {
+  RecordingTranscript,
+  TranscriptionEngine,
+  TranscriptionResult,
+  TranscriptWord,
+} from '../types/transcription';
+
+export const DEFAULT_TRANSCRIPT_LANGUAGE = 'en-US';
+
+// Rough seconds per word for placing words when an engine has no timings
+const SECONDS_PER_WORD = 0.4;
+
+// Give every word an even share of the reading. Timings are file offsets like
+// playback positions, so a trimmed reading's words start at its trim point.
+export const spreadWords = (text: string, duration?: number, start: number = 0): TranscriptWord[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const step = (duration && duration > 0 ? duration : words.length * SECONDS_PER_WORD) / words.length;
+  return words.map((word, index) => ({
+    word,
+    start: Math.round((start + index * step) * 100) / 100,
+    end: Math.round((start + (index + 1) * step) * 100) / 100,
+  }));
+};
+
+// Index of the word being spoken at a playback position, or -1 before the first word
+export const findWordAt = (words: TranscriptWord[], position: number) => {
+  for (let index = words.length - 1; index >= 0; index--) {
+    if (words[index].start <= position) return index;
+  }
+  return -1;
+};
+
+// The native speech recognizer from expo-speech-recognition. Resolved at runtime,
+// so Expo Go and builds without it report the engine as unavailable.
+const nativeSpeech = requireOptionalNativeModule<typeof ExpoSpeechRecognitionModule>('ExpoSpeechRecognition');
+
+// On-device recognizer: audio never leaves the phone and it works offline
+export const localSpeechEngine: TranscriptionEngine = {
+  name: 'on-device',
+
+  async isAvailable() {
+    if (Platform.OS === 'web' || !nativeSpeech) return false;
+    try {
+      return nativeSpeech.supportsOnDeviceRecognition();
+    } catch {
+      return false;
+    }
+  },
+
+  async transcribe(localUri, options) {
+    if (!nativeSpeech) throw new Error('On-device speech recognition is not available');
+
+    const { granted } = await nativeSpeech.requestPermissionsAsync();
+    if (!granted) throw new Error('Speech recognition permission was not granted');
+
+    return new Promise<TranscriptionResult>((resolve, reject) => {
+      const finals: ExpoSpeechRecognitionResult[] = [];
+
+      const subscriptions = [
+        nativeSpeech.addListener('result', (event) => {
+          if (event.isFinal && event.results?.[0]) finals.push(event.results[0]);
+        }),
+        nativeSpeech.addListener('error', (event) => {
+          cleanup();
+          reject(new Error(event.message || event.error || 'Speech recognition failed'));
+        }),
+        nativeSpeech.addListener('end', () => {
+          cleanup();
+          const text = finals.map(result => result.transcript.trim()).filter(Boolean).join(' ');
+          const segments = finals.flatMap(result => result.segments || []);
+          const words: TranscriptWord[] = segments.length > 0
+            ? segments.map(segment => ({
+                word: segment.segment,
+                start: segment.startTimeMillis / 1000,
+                end: segment.endTimeMillis / 1000,
+                confidence: segment.confidence,
+              }))
+            : spreadWords(text, options.duration, options.start);
+          resolve({ text, words, language: options.language });
+        }),
+      ];
+
+      const cleanup = () => subscriptions.forEach(subscription => subscription.remove());
+
+      try {
+        nativeSpeech.start({
+          lang: options.language,
+          requiresOnDeviceRecognition: true,
+          addsPunctuation: true,
+          interimResults: false,
+          continuous: true,
+          audioSource: { uri: localUri },
+        });
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  },
+};
+
+// Fixed transcript for tests and simulators without a recognizer
+export const createStubTranscriptionEngine = (
+  text: string = 'Once upon a time there was a reader who loved books'
+): TranscriptionEngine => ({
+  name: 'stub',
+  async isAvailable() {
+    return true;
+  },
+  async transcribe(_localUri, options) {
+    return { text, words: spreadWords(text, options.duration, options.start), language: options.language };
+  },
+});
+
+let engine: TranscriptionEngine = localSpeechEngine;
+
+export const transcriptionService = {
+  setEngine(nextEngine: TranscriptionEngine) {
+    engine = nextEngine;
+  },
+
+  getEngine() {
+    return engine;
+  },
+
+  async isAvailable() {
+    return engine.isAvailable();
+  },
+
+  // Transcribe a saved recording and store the result. `tempUri` is a local
+  // copy that is deleted afterwards; without one the file is downloaded.
+  async transcribeRecording(record: AudioRecord, tempUri?: string): Promise<RecordingTranscript | null> {
+    let localUri = tempUri;
+    try {
+      if (!(await engine.isAvailable())) return null;
+
+      if (!localUri) {
+        const url = await audioService.getAudioFileUrl(record.file_path);
+        localUri = `${FileSystem.cacheDirectory}transcribe-${record.id}.${record.format || 'm4a'}`;
+        await FileSystem.downloadAsync(url, localUri);
+      }
+
+      console.log(`📝 Transcribing "${record.title}" with ${engine.name} engine`);
+      const result = await engine.transcribe(localUri, {
+        language: DEFAULT_TRANSCRIPT_LANGUAGE,
+        start: audioService.getPlaybackWindow(record).start,
+        duration: record.duration,
+      });
+
+      const { data, error } = await supabase
+        .from('recording_transcripts')
+        .upsert({
+          recording_id: record.id,
+          user_id: record.user_id,
+          engine: engine.name,
+          language: result.language,
+          text: result.text,
+          words: result.words,
+        })
+        .select('recording_id, user_id, engine, language, text, words, created_at')
+        .single();
+
+      if (error) throw error;
+      console.log('✅ Transcript saved:', result.words.length, 'words');
+      return data;
+    } catch (error) {
+      console.error('❌ Transcribe recording error:', error);
+      throw error;
+    } finally {
+      if (localUri && Platform.OS !== 'web') {
+        await FileSystem.deleteAsync(localUri, { idempotent: true });
+      }
+    }
+  },
+
+  // Copy a file the caller is about to delete, then transcribe in the background
+  async transcribeInBackground(record: AudioRecord, fileUri: string) {
+    try {
+      if (Platform.OS === 'web' || !(await engine.isAvailable())) return;
+
+      const tempUri = `${FileSystem.cacheDirectory}transcribe-${record.id}.${record.format || 'm4a'}`;
+      await FileSystem.copyAsync({ from: fileUri, to: tempUri });
+
+      this.transcribeRecording(record, tempUri).catch(error => {
+        console.warn('⚠️ Background transcription failed:', error);
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not start transcription:', error);
+    }
+  },
+
+  // Transcripts keyed by recording id
+  async getTranscripts(recordingIds: string[]): Promise<Record<string, RecordingTranscript>> {
+    try {
+      if (recordingIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from('recording_transcripts')
+        .select('recording_id, user_id, engine, language, text, words, created_at')
+        .in('recording_id', recordingIds);
+
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(transcript => [transcript.recording_id, transcript]));
+    } catch (error) {
+      console.error('❌ Get transcripts error:', error);
+      throw error;
+    }
+  },
+};
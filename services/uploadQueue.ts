@@ -0,0 +1,458 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { AppState, Platform } from 'react-native';
+import { supabase } from './supabase';
+import { audioService } from './audio';
+import { createUploadControl, isUploadPaused, resumableUploadService } from './resumableUpload';
+import { gamificationService } from './gamification';
+import { readingSessionService } from './readingSessions';
+import { transcriptionService } from './transcription';
+import { getAudioFormat, getRecordingProfile } from '../constants/RecordingProfiles';
+import {
+  AudioFormatInfo,
+  EnqueueRecordingData,
+  PendingRecording,
+  RecordingSubmitResult,
+  SubmitProgress,
+  SubmitStage,
+} from '../types/audio';
+import { UploadControl } from '../types/upload';
+
+const QUEUE_STORAGE_KEY = 'pending_recordings_v1';
+const PENDING_DIRECTORY = `${FileSystem.documentDirectory}pending-recordings/`;
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+type QueueListener = (queue: PendingRecording[]) => void;
+type ProgressListener = (progress: SubmitProgress) => void;
+
+const listeners = new Set<QueueListener>();
+const progressListeners = new Set<ProgressListener>();
+const inFlight = new Set<string>();
+const uploadControls = new Map<string, UploadControl>();
+const cancelRequests = new Set<string>();
+let isProcessing = false;
+
+export const isSubmitCancelled = (error: any) => error?.cancelled === true;
+
+const cancelledError = () => Object.assign(new Error('Save cancelled'), { cancelled: true });
+
+export const isAlreadySaved = (error: any) => error?.saved === true;
+
+const alreadySavedError = () => Object.assign(new Error('This recording is already saved'), { saved: true });
+
+const readQueue = async (): Promise<PendingRecording[]> => {
+  const raw = await AsyncStorage.getItem(QUEUE_STORAGE_KEY);
+  return raw ? JSON.parse(raw) : [];
+};
+
+const writeQueue = async (queue: PendingRecording[]) => {
+  await AsyncStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+  listeners.forEach(listener => listener(queue));
+};
+
+const updateItem = async (id: string, updates: Partial<PendingRecording>) => {
+  const queue = await readQueue();
+  const updated = queue.map(item => (item.id === id ? { ...item, ...updates } : item));
+  await writeQueue(updated);
+  return updated.find(item => item.id === id);
+};
+
+const removeItem = async (item: PendingRecording) => {
+  const queue = await readQueue();
+  await writeQueue(queue.filter(q => q.id !== item.id));
+
+  if (Platform.OS !== 'web') {
+    await FileSystem.deleteAsync(item.local_uri, { idempotent: true });
+  }
+};
+
+const emitProgress = (item: PendingRecording, stage: SubmitStage, sent: number) => {
+  const progress = { id: item.id, stage, sent, total: item.file_size || 0 };
+  progressListeners.forEach(listener => listener(progress));
+};
+
+// A save in progress only stops between steps
+const checkCancelled = (id: string) => {
+  if (cancelRequests.has(id)) throw cancelledError();
+};
+
+// Undo the part of a save that reached the server. Before the reading session
+// is submitted that is only the audio file.
+const rollbackItem = async (item: PendingRecording) => {
+  if (item.file_path) {
+    await audioService.deleteAudioFile(item.file_path);
+  } else if (item.upload_url) {
+    // The upload may have finished without the queue hearing about it
+    await resumableUploadService.terminate(item.upload_url);
+    await audioService.deleteAudioFile(`${item.user_id}/${item.file_name}`);
+  }
+};
+
+// Roll back and drop a cancelled recording. If the rollback fails the item stays
+// queued as 'cancelling' and processQueue tries again. Returns true when the
+// session turned out to be saved already (an earlier submit lost its response):
+// then nothing is rolled back and the item goes back to finishing the save.
+const finishCancel = async (id: string) => {
+  const item = await updateItem(id, { status: 'cancelling' });
+  if (!item) return false;
+
+  try {
+    const saved = await readingSessionService.getSaved(item.id);
+    if (saved?.recording_id) {
+      await updateItem(id, { status: 'waiting', record_id: saved.recording_id, next_attempt_at: new Date().toISOString() });
+      console.log('💾 Cancelled recording was already saved, keeping it:', id);
+      return true;
+    }
+
+    // A saved session whose recording was since deleted has nothing left to undo
+    if (!saved) await rollbackItem(item);
+    await removeItem(item);
+    console.log('↩️ Queued recording cancelled and rolled back:', id);
+  } catch (error) {
+    console.error('❌ Roll back cancelled recording error:', error);
+  }
+  return false;
+};
+
+// Exponential backoff: 5s, 10s, 20s ... capped at 10 minutes
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+export const uploadQueueService = {
+  // Persist a finished recording on the device before any network work
+  async enqueue(data: EnqueueRecordingData): Promise<PendingRecording> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.user) throw new Error('User not authenticated');
+
+      const id = Crypto.randomUUID();
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const profile = getRecordingProfile(data.profile);
+
+      let localUri = data.uri;
+      let fileSize: number | undefined;
+      let format = getAudioFormat();
+
+      if (Platform.OS === 'web') {
+        // Blob URLs cannot be copied; they stay valid until the page reloads.
+        // The browser decides the container, so go by what it produced.
+        const response = await fetch(data.uri);
+        const blob = await response.blob();
+        fileSize = blob.size;
+        format = getAudioFormat(blob.type);
+      } else {
+        // The recorder writes to the cache directory, which the OS may purge
+        await FileSystem.makeDirectoryAsync(PENDING_DIRECTORY, { intermediates: true });
+        localUri = `${PENDING_DIRECTORY}${id}.${format.format}`;
+        await FileSystem.copyAsync({ from: data.uri, to: localUri });
+
+        const fileInfo = await FileSystem.getInfoAsync(localUri);
+        fileSize = fileInfo.exists ? fileInfo.size : undefined;
+      }
+
+      if (!fileSize) {
+        throw new Error('Recording file is empty. Please record again.');
+      }
+
+      const audioFormat: AudioFormatInfo = {
+        ...format,
+        bitrate: profile.bitrate,
+        sample_rate: profile.sample_rate,
+      };
+
+      const item: PendingRecording = {
+        id,
+        user_id: session.user.id,
+        local_uri: localUri,
+        file_name: `recording-${timestamp}.${format.format}`,
+        title: data.title,
+        description: data.description,
+        duration: data.duration,
+        file_size: fileSize,
+        points_earned: data.points_earned,
+        assignment_id: data.assignment_id,
+        book_id: data.book_id,
+        start_page: data.start_page,
+        end_page: data.end_page,
+        chapter: data.chapter,
+        trim_start: data.trim_start,
+        trim_end: data.trim_end,
+        quality: data.quality,
+        fluency: data.fluency,
+        audio_format: audioFormat,
+        status: 'waiting',
+        attempts: 0,
+        next_attempt_at: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+      };
+
+      const queue = await readQueue();
+      await writeQueue([...queue, item]);
+
+      console.log('📥 Recording queued for upload:', item.id);
+      return item;
+    } catch (error) {
+      console.error('❌ Enqueue recording error:', error);
+      throw error;
+    }
+  },
+
+  // Pending recordings for the signed-in user
+  async getPending(): Promise<PendingRecording[]> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) return [];
+
+    const queue = await readQueue();
+    return queue.filter(item => item.user_id === session.user.id);
+  },
+
+  // Upload one queued recording, then submit it as a reading session. The upload
+  // resumes from the server's offset and the session is idempotent, so a retry
+  // picks up where this left off.
+  async submit(id: string): Promise<RecordingSubmitResult> {
+    const queue = await readQueue();
+    let item = queue.find(q => q.id === id);
+    if (!item) throw new Error('Queued recording not found');
+    if (inFlight.has(id)) throw new Error('Recording is already uploading');
+    if (item.status === 'cancelling') throw new Error('Recording was cancelled');
+
+    inFlight.add(id);
+    try {
+      await updateItem(item.id, { status: 'uploading' });
+
+      if (!item.file_path) {
+        emitProgress(item, 'uploading', item.uploaded_bytes || 0);
+        const control = createUploadControl();
+        uploadControls.set(item.id, control);
+        try {
+          const filePath = await audioService.uploadAudioFile(item.local_uri, item.file_name, {
+            size: item.file_size,
+            contentType: (item.audio_format || getAudioFormat()).content_type,
+            uploadUrl: item.upload_url,
+            control,
+            onSessionCreated: async (uploadUrl) => {
+              await updateItem(id, { upload_url: uploadUrl, uploaded_bytes: 0 });
+            },
+            onChunkUploaded: async (uploadedBytes) => {
+              await updateItem(id, { uploaded_bytes: uploadedBytes });
+            },
+            onProgress: (sent) => emitProgress(item!, 'uploading', sent),
+          });
+          item = (await updateItem(item.id, { file_path: filePath }))!;
+        } finally {
+          uploadControls.delete(id);
+        }
+      }
+
+      // Past this point the save can no longer be cancelled
+      checkCancelled(id);
+      emitProgress(item, 'saving', item.file_size || 0);
+
+      // The record, analysis, assignment, points, streak and achievements are one
+      // server transaction keyed by the queue id, so a retry never saves twice
+      const session = await readingSessionService.submit(item.id, {
+        title: item.title,
+        description: item.description,
+        file_path: item.file_path!,
+        file_size: item.file_size,
+        duration: item.duration,
+        assignment_id: item.assignment_id,
+        book_id: item.book_id,
+        start_page: item.start_page,
+        end_page: item.end_page,
+        chapter: item.chapter,
+        trim_start: item.trim_start,
+        trim_end: item.trim_end,
+        quality_score: item.quality?.score,
+        quality_issues: item.quality?.issues,
+        format: item.audio_format?.format || 'm4a',
+        content_type: item.audio_format?.content_type || getAudioFormat().content_type,
+        bitrate: item.audio_format?.bitrate,
+        sample_rate: item.audio_format?.sample_rate,
+        fluency: item.fluency,
+        recorded_at: item.created_at,
+        record_id: item.record_id,
+      });
+      const { record } = session;
+      // Remember the save before anything else can fail, so a retry only replays it
+      item = (await updateItem(item.id, { record_id: record.id }))!;
+
+      // A replay still syncs the level but was already celebrated
+      const { levelUp } = await gamificationService.applyLevelChange(session.points_before, session.points_after);
+
+      // Transcribe from a copy of the local file, since the queue deletes it next
+      await transcriptionService.transcribeInBackground(record, item.local_uri);
+
+      await removeItem(item);
+      console.log('✅ Queued recording submitted:', item.id);
+
+      return {
+        record,
+        pointsEarned: session.points_earned,
+        newAchievements: session.replayed ? [] : session.new_achievements,
+        levelUp: session.replayed ? null : levelUp,
+        currentStreak: session.current_streak,
+      };
+    } catch (error: any) {
+      if (isSubmitCancelled(error) || (isUploadPaused(error) && cancelRequests.has(id))) {
+        if (await finishCancel(id)) throw alreadySavedError();
+        throw cancelledError();
+      }
+
+      // A pause is the student's choice, not a failure to back off from
+      if (isUploadPaused(error)) {
+        await updateItem(item.id, { status: 'paused' });
+        console.log('⏸️ Upload paused:', item.id);
+        throw error;
+      }
+
+      // A file that sat uploaded past the reconciliation grace period may have been
+      // cleaned up as an orphan; upload it again on the next try
+      const fileMissing = error?.message?.includes('Recording file has not finished uploading');
+
+      const attempts = item.attempts + 1;
+      await updateItem(item.id, {
+        ...(fileMissing ? { file_path: undefined, upload_url: undefined, uploaded_bytes: undefined } : {}),
+        status: 'failed',
+        attempts,
+        last_error: error?.message || String(error),
+        next_attempt_at: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+      });
+      console.error('❌ Submit queued recording error:', error);
+      throw error;
+    } finally {
+      inFlight.delete(id);
+      cancelRequests.delete(id);
+    }
+  },
+
+  // Retry every due recording for the signed-in user, one at a time
+  async processQueue(force: boolean = false) {
+    if (isProcessing) return;
+    isProcessing = true;
+
+    try {
+      const netState = await NetInfo.fetch();
+      if (netState.isConnected === false) {
+        console.log('📴 Offline, upload queue will retry later');
+        return;
+      }
+
+      const pending = await this.getPending();
+      const now = Date.now();
+
+      for (const item of pending) {
+        if (item.status === 'cancelling') {
+          await finishCancel(item.id);
+          continue;
+        }
+        if (item.status === 'paused') continue;
+        if (!force && new Date(item.next_attempt_at).getTime() > now) continue;
+
+        try {
+          await this.submit(item.id);
+        } catch {
+          // Already rescheduled with backoff by submit()
+        }
+      }
+    } catch (error) {
+      console.error('❌ Process upload queue error:', error);
+    } finally {
+      isProcessing = false;
+    }
+  },
+
+  // Stop an upload where it is. It stays queued and automatic retries skip it until resumed.
+  async pause(id: string) {
+    await uploadControls.get(id)?.pause();
+    await updateItem(id, { status: 'paused' });
+  },
+
+  // Continue a paused upload from the last chunk the server has
+  async resume(id: string): Promise<RecordingSubmitResult> {
+    await updateItem(id, { status: 'waiting' });
+    return this.submit(id);
+  },
+
+  // Withdraw a recording before its points are added, undoing whatever reached the server.
+  // A save in progress stops at its next step and submit() rejects with a cancelled error.
+  async cancel(id: string) {
+    const queue = await readQueue();
+    const item = queue.find(q => q.id === id);
+    if (!item) return;
+    if (item.record_id) throw alreadySavedError();
+
+    if (inFlight.has(id)) {
+      cancelRequests.add(id);
+      await uploadControls.get(id)?.pause();
+      return;
+    }
+
+    if (await finishCancel(id)) throw alreadySavedError();
+  },
+
+  // Drop a queued recording and its local file without finishing it. A record
+  // that is already on the server stays there; only the local copy goes.
+  async discard(id: string) {
+    const queue = await readQueue();
+    const item = queue.find(q => q.id === id);
+    if (!item) return;
+
+    if (!item.record_id) {
+      try {
+        await this.cancel(id);
+        return;
+      } catch (error) {
+        if (!isAlreadySaved(error)) throw error;
+      }
+    }
+    await removeItem(item);
+  },
+
+  subscribe(listener: QueueListener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Stage and upload bytes of saves in flight; not persisted
+  subscribeProgress(listener: ProgressListener) {
+    progressListeners.add(listener);
+    return () => {
+      progressListeners.delete(listener);
+    };
+  },
+
+  // Retry when connectivity returns, when the app comes back to the foreground
+  // (uploads stall or get cut off in the background) and periodically for backed-off items
+  startAutoSync() {
+    const netInfoUnsubscribe = NetInfo.addEventListener(state => {
+      if (state.isConnected) {
+        this.processQueue(true);
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.processQueue(true);
+      }
+    });
+
+    const interval = setInterval(() => {
+      this.processQueue();
+    }, SYNC_INTERVAL_MS);
+
+    this.processQueue();
+
+    return () => {
+      netInfoUnsubscribe();
+      appStateSubscription.remove();
+      clearInterval(interval);
+    };
+  },
+};
@@ -0,0 +1,228 @@
+-- Parent/guardian <-> student linking via short-lived invite codes.
+-- A child can be linked to several guardians; profiles.parent_id keeps
+-- pointing at the first confirmed guardian for older queries.
+
+create table if not exists public.guardian_invites (
+  id uuid primary key default gen_random_uuid(),
+  parent_id uuid not null references auth.users (id) on delete cascade,
+  code text not null unique,
+  expires_at timestamptz not null,
+  redeemed_by uuid references auth.users (id) on delete set null,
+  redeemed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.guardian_links (
+  id uuid primary key default gen_random_uuid(),
+  parent_id uuid not null references auth.users (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  invite_id uuid references public.guardian_invites (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'active', 'revoked')),
+  created_at timestamptz not null default now(),
+  confirmed_at timestamptz,
+  revoked_at timestamptz,
+  revoked_by uuid references auth.users (id) on delete set null
+);
+
+-- Only one live (pending or active) link per guardian/student pair
+create unique index if not exists guardian_links_live_pair
+  on public.guardian_links (parent_id, student_id)
+  where status <> 'revoked';
+
+alter table public.guardian_invites enable row level security;
+alter table public.guardian_links enable row level security;
+
+create policy "Parents manage their own invites"
+  on public.guardian_invites for all
+  using (auth.uid() = parent_id)
+  with check (auth.uid() = parent_id);
+
+create policy "Both sides can see their links"
+  on public.guardian_links for select
+  using (auth.uid() = parent_id or auth.uid() = student_id);
+
+-- Carry the role chosen at sign up (auth metadata) onto the new profile
+create or replace function public.set_profile_role_from_metadata()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.role is null then
+    select raw_user_meta_data ->> 'role' into new.role
+    from auth.users
+    where id = new.user_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_role_from_metadata on public.profiles;
+create trigger profiles_role_from_metadata
+  before insert on public.profiles
+  for each row execute function public.set_profile_role_from_metadata();
+
+-- Returns true when the current user is an active guardian of the student
+create or replace function public.is_guardian_of(student uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from guardian_links
+    where parent_id = auth.uid()
+      and student_id = student
+      and status = 'active'
+  );
+$$;
+
+create policy "Guardians can read linked student profiles"
+  on public.profiles for select
+  using (public.is_guardian_of(user_id));
+
+create policy "Guardians can read linked student recordings"
+  on public.audio_records for select
+  using (public.is_guardian_of(user_id));
+
+-- Lets a student see who issued a code before redeeming it
+create or replace function public.preview_guardian_invite(invite_code text)
+returns table (parent_id uuid, parent_name text, expires_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.parent_id, p.full_name, i.expires_at
+  from guardian_invites i
+  left join profiles p on p.user_id = i.parent_id
+  where i.code = upper(invite_code)
+    and i.redeemed_at is null
+    and i.expires_at > now();
+$$;
+
+create or replace function public.redeem_guardian_invite(invite_code text)
+returns guardian_links
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite guardian_invites;
+  link guardian_links;
+  caller_role text;
+begin
+  -- Only students redeem codes; a null role is a student who hasn't picked one yet
+  select role into caller_role from profiles where user_id = auth.uid();
+  if coalesce(caller_role, 'student') <> 'student' then
+    raise exception 'Only student accounts can redeem an invite code';
+  end if;
+
+  select * into invite
+  from guardian_invites
+  where code = upper(invite_code)
+  for update;
+
+  if invite.id is null then
+    raise exception 'Invite code not found';
+  end if;
+  if invite.redeemed_at is not null then
+    raise exception 'Invite code has already been used';
+  end if;
+  if invite.expires_at <= now() then
+    raise exception 'Invite code has expired';
+  end if;
+  if invite.parent_id = auth.uid() then
+    raise exception 'You cannot link to your own invite code';
+  end if;
+  if exists (
+    select 1 from guardian_links
+    where parent_id = invite.parent_id
+      and student_id = auth.uid()
+      and status <> 'revoked'
+  ) then
+    raise exception 'You are already linked to this parent';
+  end if;
+
+  insert into guardian_links (parent_id, student_id, invite_id)
+  values (invite.parent_id, auth.uid(), invite.id)
+  returning * into link;
+
+  update guardian_invites
+  set redeemed_by = auth.uid(), redeemed_at = now()
+  where id = invite.id;
+
+  update profiles
+  set role = coalesce(role, 'student')
+  where user_id = auth.uid();
+
+  return link;
+end;
+$$;
+
+create or replace function public.confirm_guardian_link(link_id uuid)
+returns guardian_links
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  link guardian_links;
+begin
+  update guardian_links
+  set status = 'active', confirmed_at = now()
+  where id = link_id
+    and parent_id = auth.uid()
+    and status = 'pending'
+  returning * into link;
+
+  if link.id is null then
+    raise exception 'Link request not found';
+  end if;
+
+  update profiles
+  set parent_id = coalesce(parent_id, link.parent_id)
+  where user_id = link.student_id;
+
+  return link;
+end;
+$$;
+
+-- Either side may revoke; a pending request revoked by the parent is a decline
+create or replace function public.revoke_guardian_link(link_id uuid)
+returns guardian_links
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  link guardian_links;
+begin
+  update guardian_links
+  set status = 'revoked', revoked_at = now(), revoked_by = auth.uid()
+  where id = link_id
+    and (parent_id = auth.uid() or student_id = auth.uid())
+    and status <> 'revoked'
+  returning * into link;
+
+  if link.id is null then
+    raise exception 'Link not found';
+  end if;
+
+  -- Point parent_id at another active guardian, or clear it
+  update profiles
+  set parent_id = (
+    select parent_id from guardian_links
+    where student_id = link.student_id and status = 'active'
+    order by confirmed_at
+    limit 1
+  )
+  where user_id = link.student_id
+    and parent_id = link.parent_id;
+
+  return link;
+end;
+$$;
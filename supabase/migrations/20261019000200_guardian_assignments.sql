@@ -0,0 +1,9 @@
+-- Let linked guardians author and follow assignments for their students
+
+create policy "Guardians create assignments for linked students"
+  on public.reading_assignments for insert
+  with check (auth.uid() = parent_id and public.is_guardian_of(student_id));
+
+create policy "Guardians read assignments they created"
+  on public.reading_assignments for select
+  using (auth.uid() = parent_id);
@@ -0,0 +1,64 @@
+-- Parent review of completed assignments
+
+alter table public.audio_records
+  add column if not exists assignment_id uuid references public.reading_assignments (id) on delete set null,
+  add column if not exists parent_rating smallint check (parent_rating between 1 and 5),
+  add column if not exists parent_feedback text,
+  add column if not exists reading_quality text
+    check (reading_quality in ('needs_practice', 'good', 'great', 'excellent')),
+  add column if not exists reviewed_at timestamptz;
+
+-- Guardians get no update rights on either table; a review only touches the
+-- assignment status and the review columns of its recording
+create or replace function public.review_assignment(
+  assignment uuid,
+  rating integer,
+  feedback text default null,
+  quality text default null
+)
+returns reading_assignments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  reviewed reading_assignments;
+begin
+  if rating is null or rating not between 1 and 5 then
+    raise exception 'Rating must be between 1 and 5 stars';
+  end if;
+
+  update reading_assignments
+  set status = 'reviewed', updated_at = now()
+  where id = assignment
+    and parent_id = auth.uid()
+    and status = 'completed'
+    and public.is_guardian_of(student_id)
+  returning * into reviewed;
+
+  if reviewed.id is null then
+    raise exception 'Assignment not found or not waiting for review';
+  end if;
+
+  update audio_records
+  set parent_rating = rating,
+      parent_feedback = nullif(trim(feedback), ''),
+      reading_quality = quality,
+      reviewed_at = now()
+  where assignment_id = assignment
+    and user_id = reviewed.student_id;
+
+  return reviewed;
+end;
+$$;
+
+-- Parents play their students' recordings, which are stored under
+-- <student id>/ in audio-files. Names outside a user folder match nobody.
+create policy "Guardians read linked student audio files"
+  on storage.objects for select
+  using (
+    bucket_id = 'audio-files'
+    and public.is_guardian_of(
+      case when split_part(name, '/', 1) ~ '^[0-9a-f-]{36}$' then split_part(name, '/', 1)::uuid end
+    )
+  );
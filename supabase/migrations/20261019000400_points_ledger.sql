@@ -0,0 +1,149 @@
+-- Append-only points ledger. profiles.points / profiles.diamonds become a
+-- cached balance maintained by trigger, so concurrent awards can no longer
+-- overwrite each other with a stale read-modify-write.
+
+create table if not exists public.points_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount integer not null default 0,
+  diamonds integer not null default 0,
+  source text not null
+    check (source in ('recording', 'assignment', 'achievement', 'adjustment')),
+  reference_id uuid,
+  idempotency_key text,
+  description text,
+  created_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+-- The same recording or achievement can only ever pay out once per user
+create unique index if not exists points_transactions_idempotency
+  on public.points_transactions (user_id, idempotency_key)
+  where idempotency_key is not null;
+
+create index if not exists points_transactions_user_created
+  on public.points_transactions (user_id, created_at desc);
+
+alter table public.points_transactions enable row level security;
+
+-- Read-only from the client; every write goes through the functions below
+create policy "Students see their own points history"
+  on public.points_transactions for select
+  using (auth.uid() = user_id);
+
+create policy "Guardians see linked student points history"
+  on public.points_transactions for select
+  using (public.is_guardian_of(user_id));
+
+-- Opening balance for points earned before the ledger existed
+insert into public.points_transactions (user_id, amount, diamonds, source, idempotency_key, description, created_by)
+select user_id, coalesce(points, 0), coalesce(diamonds, 0), 'adjustment', 'opening-balance', 'Balance before points history', null
+from public.profiles
+where coalesce(points, 0) <> 0 or coalesce(diamonds, 0) <> 0
+on conflict do nothing;
+
+-- Keep the cached balance on profiles in step with the ledger
+create or replace function public.apply_points_transaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update profiles
+  set points = coalesce(points, 0) + new.amount,
+      diamonds = coalesce(diamonds, 0) + new.diamonds,
+      level = floor(greatest(coalesce(points, 0) + new.amount, 0) / 100) + 1,
+      updated_at = now()
+  where user_id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists points_transactions_apply on public.points_transactions;
+create trigger points_transactions_apply
+  after insert on public.points_transactions
+  for each row execute function public.apply_points_transaction();
+
+-- Derived balance straight from the ledger, for auditing the cached columns
+create or replace view public.points_balances
+with (security_invoker = true) as
+  select user_id,
+         sum(amount)::integer as points,
+         sum(diamonds)::integer as diamonds,
+         count(*)::integer as transaction_count
+  from public.points_transactions
+  group by user_id;
+
+-- Record an earned achievement and its reward in one transaction. The rule
+-- is not checked here, so only rule-checking server code may call it.
+create or replace function public.claim_achievement(achievement uuid)
+returns public.points_transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  earned achievements;
+  result points_transactions;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into earned from achievements where id = achievement;
+  if earned.id is null then
+    raise exception 'Achievement not found';
+  end if;
+
+  insert into user_achievements (user_id, achievement_id)
+  select auth.uid(), earned.id
+  where not exists (
+    select 1 from user_achievements
+    where user_id = auth.uid() and achievement_id = earned.id
+  );
+
+  insert into points_transactions (user_id, amount, diamonds, source, reference_id, idempotency_key, description)
+  values (
+    auth.uid(),
+    coalesce(earned.points_reward, 0),
+    coalesce(earned.diamonds_reward, 0),
+    'achievement',
+    earned.id,
+    'achievement:' || earned.id,
+    earned.name
+  )
+  on conflict (user_id, idempotency_key) where idempotency_key is not null do nothing
+  returning * into result;
+
+  return result;
+end;
+$$;
+
+revoke execute on function public.claim_achievement(uuid) from public, anon, authenticated;
+
+-- Manual correction by a linked guardian, e.g. a bonus or a reversal
+create or replace function public.adjust_points(student uuid, points integer, note text)
+returns public.points_transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  result points_transactions;
+begin
+  if not public.is_guardian_of(student) then
+    raise exception 'Only a linked guardian can adjust points';
+  end if;
+
+  if coalesce(trim(note), '') = '' then
+    raise exception 'A reason is required for point adjustments';
+  end if;
+
+  insert into points_transactions (user_id, amount, source, description)
+  values (student, points, 'adjustment', note)
+  returning * into result;
+
+  return result;
+end;
+$$;
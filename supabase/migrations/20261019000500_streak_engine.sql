@@ -0,0 +1,223 @@
+-- Day-aware streaks. Reading days are stored as the student's local date,
+-- and a missed day can be covered by a streak freeze that the student buys
+-- with diamonds or a guardian grants.
+
+alter table public.profiles
+  add column if not exists timezone text;
+
+create table if not exists public.streak_freezes (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  source text not null check (source in ('purchase', 'parent_grant')),
+  granted_by uuid references auth.users (id) on delete set null default auth.uid(),
+  used_on date,
+  created_at timestamptz not null default now()
+);
+
+-- A day can only be frozen once
+create unique index if not exists streak_freezes_used_day
+  on public.streak_freezes (student_id, used_on)
+  where used_on is not null;
+
+alter table public.streak_freezes enable row level security;
+
+create policy "Students see their own streak freezes"
+  on public.streak_freezes for select
+  using (auth.uid() = student_id);
+
+create policy "Guardians see linked student streak freezes"
+  on public.streak_freezes for select
+  using (public.is_guardian_of(student_id));
+
+-- Diamonds spent on freezes are recorded in the points ledger
+alter table public.points_transactions
+  drop constraint if exists points_transactions_source_check;
+
+alter table public.points_transactions
+  add constraint points_transactions_source_check
+  check (source in ('recording', 'assignment', 'achievement', 'adjustment', 'purchase'));
+
+-- Buy one streak freeze. The balance check and the deduction happen under a
+-- row lock so two taps cannot spend the same diamonds twice.
+create or replace function public.purchase_streak_freeze()
+returns public.streak_freezes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  freeze_cost constant integer := 10;
+  max_banked constant integer := 2;
+  balance integer;
+  banked integer;
+  result streak_freezes;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select coalesce(diamonds, 0) into balance
+  from profiles
+  where user_id = auth.uid()
+  for update;
+
+  select count(*) into banked
+  from streak_freezes
+  where student_id = auth.uid() and used_on is null;
+
+  if banked >= max_banked then
+    raise exception 'You can only keep % streak freezes at a time', max_banked;
+  end if;
+
+  if balance < freeze_cost then
+    raise exception 'Not enough diamonds for a streak freeze';
+  end if;
+
+  insert into points_transactions (user_id, diamonds, source, description)
+  values (auth.uid(), -freeze_cost, 'purchase', 'Streak freeze');
+
+  insert into streak_freezes (student_id, source)
+  values (auth.uid(), 'purchase')
+  returning * into result;
+
+  return result;
+end;
+$$;
+
+-- Give a linked student a free streak freeze
+create or replace function public.grant_streak_freeze(student uuid)
+returns public.streak_freezes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  result streak_freezes;
+begin
+  if not public.is_guardian_of(student) then
+    raise exception 'Only a linked guardian can grant streak freezes';
+  end if;
+
+  insert into streak_freezes (student_id, source)
+  values (student, 'parent_grant')
+  returning * into result;
+
+  return result;
+end;
+$$;
+
+-- Spend banked freezes on missed days. All-or-nothing: if there are not
+-- enough freezes to bridge the whole gap, none are used and the streak resets.
+create or replace function public.apply_streak_freezes(missed_days date[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  available uuid[];
+  missed_count integer := coalesce(array_length(missed_days, 1), 0);
+  i integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if missed_count = 0 then
+    return 0;
+  end if;
+
+  select array_agg(id order by created_at) into available
+  from (
+    select id, created_at
+    from streak_freezes
+    where student_id = auth.uid() and used_on is null
+    order by created_at
+    limit missed_count
+    for update
+  ) banked;
+
+  if coalesce(array_length(available, 1), 0) < missed_count then
+    return 0;
+  end if;
+
+  for i in 1..missed_count loop
+    update streak_freezes
+    set used_on = missed_days[i]
+    where id = available[i];
+  end loop;
+
+  return missed_count;
+end;
+$$;
+
+-- Only submit_reading_session() spends freezes on missed days
+revoke execute on function public.apply_streak_freezes(date[]) from public, anon, authenticated;
+
+-- Current and longest streak from reading days and frozen days, as in
+-- calculateStreaks() in services/streaks.ts
+create or replace function public.calculate_streaks(student uuid, today date)
+returns table (current_streak integer, longest_streak integer)
+language plpgsql
+stable
+as $$
+declare
+  reading_days date[];
+  covered_days date[];
+  cursor_day date;
+begin
+  select coalesce(array_agg(streak_date), '{}') into reading_days
+  from reading_streaks
+  where student_id = student;
+
+  select reading_days || coalesce(array_agg(used_on), '{}') into covered_days
+  from streak_freezes
+  where student_id = student and used_on is not null;
+
+  -- Today is still in progress, so a streak ending yesterday is not broken yet
+  current_streak := 0;
+  cursor_day := case when today = any(covered_days) then today else today - 1 end;
+  while cursor_day = any(covered_days) loop
+    if cursor_day = any(reading_days) then
+      current_streak := current_streak + 1;
+    end if;
+    cursor_day := cursor_day - 1;
+  end loop;
+
+  -- Consecutive covered days form a run; only reading days add to its length
+  select coalesce(max(run), 0)::integer into longest_streak
+  from (
+    select count(*) filter (where is_reading) as run
+    from (
+      select is_reading, day - (row_number() over (order by day))::integer as island
+      from (
+        select day, bool_or(is_reading) as is_reading
+        from (
+          select unnest(reading_days) as day, true as is_reading
+          union all
+          select unnest(covered_days), false
+        ) days
+        group by day
+      ) covered
+    ) numbered
+    group by island
+  ) runs;
+
+  return next;
+end;
+$$;
+
+-- Today's date in the student's saved time zone
+create or replace function public.student_today(student uuid)
+returns date
+language sql
+stable
+set search_path = public
+as $$
+  select (now() at time zone coalesce(
+    (select p.timezone from profiles p
+     join pg_timezone_names z on z.name = p.timezone
+     where p.user_id = student),
+    'UTC'
+  ))::date;
+$$;
@@ -0,0 +1,252 @@
+-- Achievements are defined as data: a rule names the metric to measure, how
+-- to compare it with the target and an optional rolling window and filters.
+-- Rules are measured and unlocked only on the server, by the functions below.
+
+alter table public.achievements
+  add column if not exists rule jsonb;
+
+-- Carry the original requirement columns over to rules
+update public.achievements
+set rule = jsonb_build_object(
+  'metric', case requirement_type
+    when 'total_recordings' then 'recordings'
+    when 'streak' then 'current_streak'
+    when 'points' then 'points'
+    when 'perfect_week' then 'perfect_weeks'
+  end,
+  'comparator', 'gte',
+  'target', requirement_value
+)
+where rule is null
+  and requirement_type in ('total_recordings', 'streak', 'points', 'perfect_week');
+
+insert into public.achievements (name, description, icon, points_reward, diamonds_reward, requirement_type, requirement_value, rule)
+select v.name, v.description, v.icon, v.points_reward, v.diamonds_reward, 'rule', (v.rule ->> 'target')::integer, v.rule
+from (values
+  ('Marathon Week', 'Make 5 recordings over 10 minutes in 7 days', 'calendar-check', 100, 5,
+    '{"metric": "recordings", "comparator": "gte", "target": 5, "window_days": 7, "min_duration_seconds": 600}'::jsonb),
+  ('Hour of Reading', 'Read aloud for 60 minutes in total', 'book-open', 50, 2,
+    '{"metric": "reading_minutes", "comparator": "gte", "target": 60}'::jsonb),
+  ('Bookworm', 'Finish 3 different books', 'book', 75, 3,
+    '{"metric": "books_finished", "comparator": "gte", "target": 3}'::jsonb),
+  ('Homework Hero', 'Complete 10 reading assignments', 'trophy', 100, 5,
+    '{"metric": "assignments_completed", "comparator": "gte", "target": 10}'::jsonb),
+  ('Star Reader', 'Get a 5-star rating from a parent twice', 'star', 50, 3,
+    '{"metric": "parent_ratings", "comparator": "gte", "target": 2, "min_rating": 5}'::jsonb)
+) as v (name, description, icon, points_reward, diamonds_reward, rule)
+where not exists (
+  select 1 from public.achievements a where a.name = v.name
+);
+
+-- Value of an achievement rule's metric for a student. The one place rule
+-- metrics are measured, for unlocking and for the progress shown in the app.
+create or replace function public.measure_achievement_rule(student uuid, rule jsonb, current_streak integer)
+returns integer
+language plpgsql
+stable
+as $$
+declare
+  since timestamptz;
+  result integer;
+begin
+  if rule ? 'window_days' then
+    since := now() - make_interval(days => (rule ->> 'window_days')::integer);
+  end if;
+
+  case rule ->> 'metric'
+    when 'recordings' then
+      select count(*) into result
+      from audio_records
+      where user_id = student
+        and (since is null or created_at >= since)
+        and (rule ->> 'min_duration_seconds' is null or duration >= (rule ->> 'min_duration_seconds')::numeric);
+
+    when 'reading_minutes' then
+      select floor(coalesce(sum(duration), 0) / 60) into result
+      from audio_records
+      where user_id = student and (since is null or created_at >= since);
+
+    when 'points' then
+      if since is null then
+        select coalesce(points, 0) into result from profiles where user_id = student;
+      else
+        select coalesce(sum(amount), 0) into result
+        from points_transactions
+        where user_id = student and created_at >= since;
+      end if;
+
+    when 'current_streak' then
+      result := current_streak;
+
+    -- Monday-to-Sunday weeks with a reading on all seven days
+    when 'perfect_weeks' then
+      select count(*) into result
+      from (
+        select date_trunc('week', streak_date)
+        from reading_streaks
+        where student_id = student
+        group by 1
+        having count(distinct streak_date) = 7
+      ) weeks;
+
+    when 'assignments_completed' then
+      select count(*) into result
+      from reading_assignments
+      where student_id = student
+        and status in ('completed', 'reviewed')
+        and (since is null or updated_at >= since);
+
+    -- A book counts once whether it was finished through assignments or the shelf
+    when 'books_finished' then
+      select count(*) into result
+      from (
+        select coalesce(book_id::text, lower(trim(book_title)))
+        from reading_assignments
+        where student_id = student
+          and status in ('completed', 'reviewed')
+          and (since is null or updated_at >= since)
+        union
+        select book_id::text
+        from student_books
+        where student_id = student
+          and status = 'finished'
+          and (since is null or finished_at >= since)
+      ) books;
+
+    when 'parent_ratings' then
+      select count(*) into result
+      from audio_records
+      where user_id = student
+        and parent_rating >= coalesce((rule ->> 'min_rating')::integer, 1)
+        and (since is null or reviewed_at >= since);
+
+    else
+      result := 0;
+  end case;
+
+  return coalesce(result, 0);
+end;
+$$;
+
+-- Claim every unearned achievement of the current user whose rule on one of
+-- the given metrics is now met. Rewards can push the points total over
+-- another threshold, so points rules are checked again after a payout.
+-- Returns the unlocked achievements.
+create or replace function public.unlock_achievements(metrics text[], current_streak integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  candidate achievements;
+  measured integer;
+  target integer;
+  paid_out boolean;
+  unlocked jsonb := '[]'::jsonb;
+begin
+  loop
+    paid_out := false;
+
+    for candidate in
+      select a.*
+      from achievements a
+      where a.rule is not null
+        and a.rule ->> 'metric' = any(metrics)
+        and not exists (
+          select 1 from user_achievements ua
+          where ua.user_id = uid and ua.achievement_id = a.id
+        )
+      order by a.requirement_value
+    loop
+      measured := measure_achievement_rule(uid, candidate.rule, current_streak);
+      target := (candidate.rule ->> 'target')::integer;
+
+      if case candidate.rule ->> 'comparator'
+        when 'gt' then measured > target
+        when 'eq' then measured = target
+        else measured >= target
+      end then
+        perform claim_achievement(candidate.id);
+        unlocked := unlocked || jsonb_build_array(to_jsonb(candidate));
+        paid_out := paid_out or coalesce(candidate.points_reward, 0) > 0;
+      end if;
+    end loop;
+
+    exit when not paid_out;
+    metrics := array['points'];
+  end loop;
+
+  return unlocked;
+end;
+$$;
+
+revoke execute on function public.unlock_achievements(text[], integer) from public, anon, authenticated;
+
+-- Unlock achievements after something that happened outside a reading
+-- session, e.g. a parent's review or a book moved to the finished shelf.
+-- Events name what changed; every rule they can affect is checked here.
+create or replace function public.check_achievements(events text[] default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  metrics text[];
+  streak record;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select coalesce(array_agg(distinct affects.metric), '{}') into metrics
+  from (values
+    ('recording_saved', 'recordings'),
+    ('recording_saved', 'reading_minutes'),
+    ('recording_saved', 'points'),
+    ('recording_saved', 'current_streak'),
+    ('recording_saved', 'perfect_weeks'),
+    ('points_changed', 'points'),
+    ('streak_updated', 'current_streak'),
+    ('streak_updated', 'perfect_weeks'),
+    ('assignment_completed', 'books_finished'),
+    ('assignment_completed', 'assignments_completed'),
+    ('book_finished', 'books_finished'),
+    ('review_received', 'parent_ratings')
+  ) as affects (event, metric)
+  where events is null or affects.event = any(events);
+
+  select * into streak from calculate_streaks(uid, student_today(uid));
+  return unlock_achievements(metrics, streak.current_streak);
+end;
+$$;
+
+-- Current value of every unearned rule for the current user, and its value
+-- over the last pace_days days for estimating when it will unlock
+create or replace function public.get_achievement_progress(pace_days integer default 14)
+returns table (achievement uuid, current_value integer, recent_value integer)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  uid uuid := auth.uid();
+  streak record;
+begin
+  select * into streak from calculate_streaks(uid, student_today(uid));
+
+  return query
+  select a.id,
+         measure_achievement_rule(uid, a.rule, streak.current_streak),
+         measure_achievement_rule(uid, a.rule || jsonb_build_object('window_days', pace_days), streak.current_streak)
+  from achievements a
+  where a.rule is not null
+    and not exists (
+      select 1 from user_achievements ua
+      where ua.user_id = uid and ua.achievement_id = a.id
+    );
+end;
+$$;
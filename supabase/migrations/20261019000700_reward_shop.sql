@@ -0,0 +1,143 @@
+-- Reward shop: guardians list real-world rewards priced in diamonds, linked
+-- students redeem them and the guardian approves or rejects the request.
+-- Diamonds are held (deducted) when the request is made and refunded through
+-- the ledger if it is rejected, so pending requests can never overspend.
+
+create table if not exists public.rewards (
+  id uuid primary key default gen_random_uuid(),
+  parent_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  description text,
+  diamond_cost integer not null check (diamond_cost > 0),
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.reward_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  reward_id uuid not null references public.rewards (id) on delete cascade,
+  student_id uuid not null references auth.users (id) on delete cascade,
+  parent_id uuid not null references auth.users (id) on delete cascade,
+  reward_title text not null,
+  diamond_cost integer not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  parent_note text,
+  created_at timestamptz not null default now(),
+  decided_at timestamptz
+);
+
+create index if not exists reward_redemptions_parent_status
+  on public.reward_redemptions (parent_id, status);
+
+alter table public.rewards enable row level security;
+alter table public.reward_redemptions enable row level security;
+
+create policy "Parents manage their own rewards"
+  on public.rewards for all
+  using (auth.uid() = parent_id)
+  with check (auth.uid() = parent_id);
+
+create policy "Linked students see their guardians' rewards"
+  on public.rewards for select
+  using (
+    exists (
+      select 1 from public.guardian_links
+      where guardian_links.parent_id = rewards.parent_id
+        and guardian_links.student_id = auth.uid()
+        and guardian_links.status = 'active'
+    )
+  );
+
+-- Writes go through redeem_reward() and decide_redemption()
+create policy "Both sides see redemptions"
+  on public.reward_redemptions for select
+  using (auth.uid() = student_id or auth.uid() = parent_id);
+
+-- Spend diamonds on a reward, creating a pending request for the guardian
+create or replace function public.redeem_reward(reward uuid)
+returns public.reward_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  chosen rewards;
+  balance integer;
+  result reward_redemptions;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into chosen from rewards where id = reward and active;
+  if chosen.id is null then
+    raise exception 'This reward is no longer available';
+  end if;
+
+  if not exists (
+    select 1 from guardian_links
+    where parent_id = chosen.parent_id and student_id = auth.uid() and status = 'active'
+  ) then
+    raise exception 'This reward is not offered to you';
+  end if;
+
+  -- Lock the balance so two redemptions cannot spend the same diamonds
+  select coalesce(diamonds, 0) into balance
+  from profiles
+  where user_id = auth.uid()
+  for update;
+
+  if balance < chosen.diamond_cost then
+    raise exception 'Not enough diamonds for this reward';
+  end if;
+
+  insert into reward_redemptions (reward_id, student_id, parent_id, reward_title, diamond_cost)
+  values (chosen.id, auth.uid(), chosen.parent_id, chosen.title, chosen.diamond_cost)
+  returning * into result;
+
+  insert into points_transactions (user_id, diamonds, source, reference_id, idempotency_key, description)
+  values (auth.uid(), -chosen.diamond_cost, 'purchase', result.id, 'redemption:' || result.id, chosen.title);
+
+  return result;
+end;
+$$;
+
+-- Approve or reject a pending request. Rejections refund the held diamonds.
+create or replace function public.decide_redemption(redemption uuid, approve boolean, note text default null)
+returns public.reward_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  result reward_redemptions;
+begin
+  update reward_redemptions
+  set status = case when approve then 'approved' else 'rejected' end,
+      parent_note = note,
+      decided_at = now()
+  where id = redemption
+    and parent_id = auth.uid()
+    and status = 'pending'
+  returning * into result;
+
+  if result.id is null then
+    raise exception 'Request not found or already decided';
+  end if;
+
+  if not approve then
+    insert into points_transactions (user_id, diamonds, source, reference_id, idempotency_key, description)
+    values (
+      result.student_id,
+      result.diamond_cost,
+      'purchase',
+      result.id,
+      'redemption-refund:' || result.id,
+      'Refund: ' || result.reward_title
+    );
+  end if;
+
+  return result;
+end;
+$$;
@@ -0,0 +1,42 @@
+-- Per-family leveling curve. Levels are now derived from points by the app's
+-- leveling module, so the ledger trigger stops hard-coding 100 points a level.
+
+create table if not exists public.family_level_settings (
+  parent_id uuid primary key references auth.users (id) on delete cascade,
+  config jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.family_level_settings enable row level security;
+
+create policy "Parents manage their family leveling"
+  on public.family_level_settings for all
+  using (auth.uid() = parent_id)
+  with check (auth.uid() = parent_id);
+
+create policy "Linked students read their guardians' leveling"
+  on public.family_level_settings for select
+  using (
+    exists (
+      select 1 from public.guardian_links
+      where guardian_links.parent_id = family_level_settings.parent_id
+        and guardian_links.student_id = auth.uid()
+        and guardian_links.status = 'active'
+    )
+  );
+
+create or replace function public.apply_points_transaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update profiles
+  set points = coalesce(points, 0) + new.amount,
+      diamonds = coalesce(diamonds, 0) + new.diamonds,
+      updated_at = now()
+  where user_id = new.user_id;
+  return new;
+end;
+$$;
@@ -0,0 +1,92 @@
+-- Book catalog and per-student library. Assignments and recordings point at a
+-- book instead of only carrying a free-text title; book_title stays on
+-- assignments as the title at the time it was assigned.
+
+create table if not exists public.books (
+  id uuid primary key default gen_random_uuid(),
+  title text not null check (length(trim(title)) > 0),
+  author text,
+  cover_url text,
+  page_count integer check (page_count is null or page_count > 0),
+  reading_level text,
+  isbn text unique,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists books_title_idx on public.books (lower(title));
+
+alter table public.books enable row level security;
+
+create policy "Signed-in users read the catalog"
+  on public.books for select
+  using (auth.role() = 'authenticated');
+
+create policy "Signed-in users add books"
+  on public.books for insert
+  with check (auth.uid() = created_by);
+
+create table if not exists public.student_books (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references auth.users (id) on delete cascade,
+  book_id uuid not null references public.books (id) on delete cascade,
+  status text not null default 'reading' check (status in ('reading', 'finished')),
+  added_by uuid references auth.users (id) on delete set null,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  unique (student_id, book_id)
+);
+
+alter table public.student_books enable row level security;
+
+create policy "Students manage their library"
+  on public.student_books for all
+  using (auth.uid() = student_id)
+  with check (auth.uid() = student_id);
+
+create policy "Guardians read their students' libraries"
+  on public.student_books for select
+  using (public.is_guardian_of(student_id));
+
+create policy "Guardians add books to their students' libraries"
+  on public.student_books for insert
+  with check (auth.uid() = added_by and public.is_guardian_of(student_id));
+
+alter table public.reading_assignments
+  add column if not exists book_id uuid references public.books (id) on delete set null;
+
+alter table public.audio_records
+  add column if not exists book_id uuid references public.books (id) on delete set null;
+
+create index if not exists audio_records_book_idx on public.audio_records (user_id, book_id);
+
+-- Backfill: one catalog entry per distinct assigned title, then link
+-- assignments, their recordings and the students' libraries to it
+insert into public.books (title, created_by)
+select distinct on (lower(trim(book_title))) trim(book_title), parent_id
+from public.reading_assignments
+where book_id is null and length(trim(book_title)) > 0
+order by lower(trim(book_title)), created_at;
+
+update public.reading_assignments a
+set book_id = b.id
+from public.books b
+where a.book_id is null and lower(trim(a.book_title)) = lower(b.title);
+
+update public.audio_records r
+set book_id = a.book_id
+from public.reading_assignments a
+where r.book_id is null and r.assignment_id = a.id and a.book_id is not null;
+
+insert into public.student_books (student_id, book_id, status, added_by, started_at, finished_at)
+select
+  student_id,
+  book_id,
+  case when bool_and(status in ('completed', 'reviewed')) then 'finished' else 'reading' end,
+  (array_agg(parent_id order by created_at))[1],
+  min(created_at),
+  case when bool_and(status in ('completed', 'reviewed')) then max(updated_at) end
+from public.reading_assignments
+where book_id is not null
+group by student_id, book_id
+on conflict (student_id, book_id) do nothing;
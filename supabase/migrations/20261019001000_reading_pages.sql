@@ -0,0 +1,14 @@
+-- Where in the book each reading session started and stopped
+
+alter table public.audio_records
+  add column if not exists start_page integer,
+  add column if not exists end_page integer,
+  add column if not exists chapter text;
+
+alter table public.audio_records
+  add constraint audio_records_page_range_check
+  check (
+    (start_page is null or start_page > 0)
+    and (end_page is null or end_page > 0)
+    and (start_page is null or end_page is null or end_page >= start_page)
+  );
@@ -0,0 +1,30 @@
+-- Fluency analysis computed on the device from the recorder's level meter,
+-- one row per recording
+
+create table if not exists public.recording_analyses (
+  recording_id uuid primary key references public.audio_records (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  speech_seconds numeric not null check (speech_seconds >= 0),
+  pause_seconds numeric not null check (pause_seconds >= 0),
+  longest_pause_seconds numeric not null default 0,
+  pause_count integer not null default 0,
+  word_count integer,
+  word_source text check (word_source in ('passage', 'pages')),
+  words_per_minute numeric,
+  segments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists recording_analyses_user_idx
+  on public.recording_analyses (user_id, created_at desc);
+
+alter table public.recording_analyses enable row level security;
+
+-- Written only by submit_reading_session()
+create policy "Students read analyses of their recordings"
+  on public.recording_analyses for select
+  using (auth.uid() = user_id);
+
+create policy "Guardians read their students' analyses"
+  on public.recording_analyses for select
+  using (public.is_guardian_of(user_id));
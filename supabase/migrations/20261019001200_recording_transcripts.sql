@@ -0,0 +1,28 @@
+-- Speech-to-text transcript per recording, with word timings for playback sync
+
+create table if not exists public.recording_transcripts (
+  recording_id uuid primary key references public.audio_records (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  engine text not null,
+  language text not null default 'en-US',
+  text text not null,
+  words jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+alter table public.recording_transcripts enable row level security;
+
+create policy "Students manage transcripts of their recordings"
+  on public.recording_transcripts for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.audio_records
+      where audio_records.id = recording_id and audio_records.user_id = auth.uid()
+    )
+  );
+
+create policy "Guardians read their students' transcripts"
+  on public.recording_transcripts for select
+  using (public.is_guardian_of(user_id));
@@ -0,0 +1,55 @@
+-- Passage text on assignments, and per-recording accuracy from aligning the
+-- transcript against it
+
+alter table public.reading_assignments
+  add column if not exists passage_text text;
+
+create table if not exists public.recording_accuracy (
+  recording_id uuid primary key references public.audio_records (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  assignment_id uuid references public.reading_assignments (id) on delete set null,
+  accuracy numeric not null check (accuracy >= 0 and accuracy <= 100),
+  passage_word_count integer not null,
+  correct_count integer not null default 0,
+  skipped_count integer not null default 0,
+  substituted_count integer not null default 0,
+  repeated_count integer not null default 0,
+  inserted_count integer not null default 0,
+  alignment jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists recording_accuracy_user_idx
+  on public.recording_accuracy (user_id, created_at desc);
+
+alter table public.recording_accuracy enable row level security;
+
+create policy "Students read accuracy of their recordings"
+  on public.recording_accuracy for select
+  using (auth.uid() = user_id);
+
+create policy "Guardians read their students' accuracy"
+  on public.recording_accuracy for select
+  using (public.is_guardian_of(user_id));
+
+-- Scores are stored by the reviewing guardian, so a student can't write their own
+create policy "Guardians score their students' recordings"
+  on public.recording_accuracy for insert
+  with check (
+    public.is_guardian_of(user_id)
+    and exists (
+      select 1 from public.audio_records
+      where audio_records.id = recording_id and audio_records.user_id = recording_accuracy.user_id
+    )
+  );
+
+create policy "Guardians rescore their students' recordings"
+  on public.recording_accuracy for update
+  using (public.is_guardian_of(user_id))
+  with check (
+    public.is_guardian_of(user_id)
+    and exists (
+      select 1 from public.audio_records
+      where audio_records.id = recording_id and audio_records.user_id = recording_accuracy.user_id
+    )
+  );
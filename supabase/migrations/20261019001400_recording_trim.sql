@@ -0,0 +1,10 @@
+-- Where the reading starts and stops inside the recorded file. The file keeps
+-- the silence either side; playback skips it and duration covers only this window.
+
+alter table public.audio_records
+  add column if not exists trim_start numeric,
+  add column if not exists trim_end numeric;
+
+alter table public.audio_records
+  add constraint audio_records_trim_check
+  check (trim_start is null or trim_end is null or (trim_start >= 0 and trim_end >= trim_start));
@@ -0,0 +1,5 @@
+-- Audio quality of each recording, scored on the device from the level meter
+
+alter table public.audio_records
+  add column if not exists quality_score smallint check (quality_score between 0 and 100),
+  add column if not exists quality_issues text[] not null default '{}';
@@ -0,0 +1,7 @@
+-- How each recording was encoded, from the recording profile the student used
+
+alter table public.audio_records
+  add column if not exists format text,
+  add column if not exists content_type text,
+  add column if not exists bitrate integer check (bitrate > 0),
+  add column if not exists sample_rate integer check (sample_rate > 0);
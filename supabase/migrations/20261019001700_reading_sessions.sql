@@ -0,0 +1,272 @@
+-- Submitting a reading session in one transaction: the recording row, its
+-- fluency analysis, assignment completion, points, streak and achievements
+-- either all land or none do. The client generates the session id when the
+-- recording is queued, so a retry after a lost response replays the stored
+-- result instead of saving a second time.
+
+create table if not exists public.reading_sessions (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  recording_id uuid references public.audio_records (id) on delete set null,
+  result jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.reading_sessions enable row level security;
+
+-- Written only by submit_reading_session()
+create policy "Students see their own reading sessions"
+  on public.reading_sessions for select
+  using (auth.uid() = user_id);
+
+create or replace function public.submit_reading_session(session_id uuid, details jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- MIN_SPEECH_SECONDS in services/fluency.ts
+  min_speech_seconds constant numeric := 10;
+  -- Half the lowest profile bitrate (speech, 32 kbps), so no real recording is
+  -- smaller than this for its length
+  min_bytes_per_second constant numeric := 2000;
+  -- Offline recordings keep the day they were made for as long as the storage
+  -- reconciler keeps their uploads
+  max_backdate constant interval := interval '7 days';
+  uid uuid := auth.uid();
+  previous reading_sessions;
+  assignment reading_assignments;
+  saved_record audio_records;
+  object_path text := details ->> 'file_path';
+  object_size numeric;
+  recording_seconds numeric;
+  speech_time numeric;
+  read_at timestamptz := coalesce((details ->> 'recorded_at')::timestamptz, now());
+  award integer;
+  already_paid boolean := false;
+  balance_before integer;
+  balance_after integer;
+  time_zone text := coalesce(details ->> 'timezone', 'UTC');
+  reading_day date;
+  last_covered date;
+  streak record;
+  metrics text[] := array['recordings', 'reading_minutes', 'points', 'current_streak', 'perfect_weeks'];
+  unlocked jsonb;
+  result jsonb;
+begin
+  if uid is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- A retry racing the first attempt waits here, then replays its result
+  perform pg_advisory_xact_lock(hashtext('reading_session:' || session_id::text));
+
+  select * into previous from reading_sessions where id = session_id;
+  if found then
+    if previous.user_id <> uid then
+      raise exception 'Reading session belongs to another user';
+    end if;
+    -- Flagged so the app doesn't celebrate the same level-up or achievements twice
+    return previous.result || jsonb_build_object('replayed', true);
+  end if;
+
+  if coalesce(trim(details ->> 'title'), '') = '' then
+    raise exception 'Title is required';
+  end if;
+
+  if object_path is null or split_part(object_path, '/', 1) <> uid::text then
+    raise exception 'Recording file must be in your own folder';
+  end if;
+
+  select (metadata ->> 'size')::numeric into object_size
+  from storage.objects
+  where bucket_id = 'audio-files' and name = object_path;
+
+  if not found then
+    raise exception 'Recording file has not finished uploading';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = time_zone) then
+    time_zone := 'UTC';
+  end if;
+
+  -- The speech time is measured on the device, so it is held to what the
+  -- uploaded file can actually contain
+  recording_seconds := greatest(coalesce((details ->> 'duration')::numeric, 0), 0);
+  if object_size is not null then
+    recording_seconds := least(recording_seconds, object_size / min_bytes_per_second);
+  end if;
+  speech_time := least(
+    greatest(coalesce((details -> 'fluency' ->> 'speech_seconds')::numeric, recording_seconds), 0),
+    recording_seconds
+  );
+
+  -- A future or long-past date can't move the reading onto another streak day
+  if read_at > now() or read_at < now() - max_backdate then
+    read_at := now();
+  end if;
+  reading_day := (read_at at time zone time_zone)::date;
+
+  -- Assignments pay their fixed reward once; free reading earns what
+  -- calculateRecordingPoints() gives for its speech time
+  award := case
+    when speech_time < min_speech_seconds then 0
+    else 10 + least(ceil(speech_time / 60)::integer * 2, 20)
+  end;
+  if details ->> 'assignment_id' is not null then
+    select * into assignment
+    from reading_assignments
+    where id = (details ->> 'assignment_id')::uuid and student_id = uid
+    for update;
+
+    if assignment.id is null then
+      raise exception 'Assignment not found';
+    end if;
+
+    if assignment.status = 'pending' then
+      award := coalesce(assignment.points_reward, 0);
+      update reading_assignments
+      set status = 'completed', updated_at = now()
+      where id = assignment.id;
+      metrics := metrics || array['books_finished', 'assignments_completed'];
+    end if;
+  end if;
+
+  -- Recordings queued by the older step-by-step save may already have a row
+  if details ->> 'record_id' is not null then
+    select * into saved_record
+    from audio_records
+    where id = (details ->> 'record_id')::uuid and user_id = uid;
+
+    already_paid := exists (
+      select 1 from points_transactions
+      where user_id = uid and idempotency_key = 'recording:' || saved_record.id
+    );
+  end if;
+
+  if saved_record.id is null then
+    insert into audio_records (
+      user_id, title, description, file_path, file_size, duration, points_earned,
+      assignment_id, book_id, start_page, end_page, chapter, trim_start, trim_end,
+      quality_score, quality_issues, format, content_type, bitrate, sample_rate
+    )
+    values (
+      uid,
+      trim(details ->> 'title'),
+      nullif(trim(details ->> 'description'), ''),
+      object_path,
+      (details ->> 'file_size')::bigint,
+      recording_seconds,
+      award,
+      assignment.id,
+      (details ->> 'book_id')::uuid,
+      (details ->> 'start_page')::integer,
+      (details ->> 'end_page')::integer,
+      nullif(trim(details ->> 'chapter'), ''),
+      (details ->> 'trim_start')::numeric,
+      (details ->> 'trim_end')::numeric,
+      (details ->> 'quality_score')::integer,
+      array(select jsonb_array_elements_text(coalesce(details -> 'quality_issues', '[]'::jsonb))),
+      details ->> 'format',
+      details ->> 'content_type',
+      (details ->> 'bitrate')::integer,
+      (details ->> 'sample_rate')::integer
+    )
+    returning * into saved_record;
+  end if;
+
+  if jsonb_typeof(details -> 'fluency') = 'object' then
+    insert into recording_analyses (
+      recording_id, user_id, speech_seconds, pause_seconds, longest_pause_seconds,
+      pause_count, word_count, word_source, words_per_minute, segments
+    )
+    select saved_record.id, uid, speech_time, f.pause_seconds, coalesce(f.longest_pause_seconds, 0),
+           coalesce(f.pause_count, 0), f.word_count, f.word_source, f.words_per_minute, coalesce(f.segments, '[]'::jsonb)
+    from jsonb_to_record(details -> 'fluency') as f (
+      speech_seconds numeric,
+      pause_seconds numeric,
+      longest_pause_seconds numeric,
+      pause_count integer,
+      word_count integer,
+      word_source text,
+      words_per_minute numeric,
+      segments jsonb
+    )
+    on conflict (recording_id) do nothing;
+  end if;
+
+  select coalesce(points, 0) into balance_before
+  from profiles
+  where user_id = uid
+  for update;
+
+  if not already_paid then
+    insert into points_transactions (user_id, amount, source, reference_id, idempotency_key, description)
+    values (
+      uid,
+      award,
+      case when assignment.id is not null then 'assignment' else 'recording' end,
+      saved_record.id,
+      'recording:' || saved_record.id,
+      case when assignment.id is not null then 'Finished an assignment' else 'Reading recording' end
+    )
+    on conflict (user_id, idempotency_key) where idempotency_key is not null do nothing;
+
+    -- Log the reading on the student's local day, spending banked freezes on any
+    -- gap. A recording with too little speech to earn anything doesn't count.
+    if award > 0 or speech_time >= min_speech_seconds then
+      if exists (select 1 from reading_streaks where student_id = uid and streak_date = reading_day) then
+        update reading_streaks
+        set recordings_count = recordings_count + 1,
+            points_earned = points_earned + award
+        where student_id = uid and streak_date = reading_day;
+      else
+        select max(day) into last_covered
+        from (
+          select streak_date as day from reading_streaks where student_id = uid and streak_date < reading_day
+          union all
+          select used_on from streak_freezes where student_id = uid and used_on < reading_day
+        ) covered;
+
+        insert into reading_streaks (student_id, streak_date, recordings_count, points_earned)
+        values (uid, reading_day, 1, award);
+
+        if reading_day - last_covered > 1 then
+          perform apply_streak_freezes(array(
+            select generate_series(last_covered + 1, reading_day - 1, interval '1 day')::date
+          ));
+        end if;
+      end if;
+    end if;
+  end if;
+
+  select * into streak from calculate_streaks(uid, (now() at time zone time_zone)::date);
+
+  update profiles
+  set current_streak = streak.current_streak,
+      longest_streak = greatest(coalesce(longest_streak, 0), streak.longest_streak),
+      last_activity = (select max(streak_date) from reading_streaks where student_id = uid),
+      timezone = time_zone
+  where user_id = uid;
+
+  unlocked := unlock_achievements(metrics, streak.current_streak);
+
+  select coalesce(points, 0) into balance_after from profiles where user_id = uid;
+
+  result := jsonb_build_object(
+    'record', to_jsonb(saved_record),
+    'points_earned', case when already_paid then 0 else award end,
+    'points_before', coalesce(balance_before, 0),
+    'points_after', coalesce(balance_after, 0),
+    'current_streak', streak.current_streak,
+    'longest_streak', streak.longest_streak,
+    'new_achievements', unlocked
+  );
+
+  insert into reading_sessions (id, user_id, recording_id, result)
+  values (session_id, uid, saved_record.id, result);
+
+  return result;
+end;
+$$;
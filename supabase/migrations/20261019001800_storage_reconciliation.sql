@@ -0,0 +1,59 @@
+-- Finds audio files and recording rows that have lost their other half:
+-- files in the audio-files bucket that no recording points at (a save that
+-- never finished, or a record deleted while the file removal failed) and
+-- recordings whose file is gone. scripts/reconcile-storage.js reports them and
+-- can clean them up; files have to be removed through the Storage API.
+
+create or replace function public.find_storage_orphans(
+  student uuid default null,
+  grace interval default interval '7 days'
+)
+returns table (
+  kind text,
+  user_id uuid,
+  file_path text,
+  record_id uuid,
+  file_size bigint,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- Uploads go to <user id>/<file name>. Files younger than the grace period
+  -- may belong to a save still waiting in an upload queue.
+  select 'orphaned_file',
+         case when split_part(o.name, '/', 1) ~ '^[0-9a-f-]{36}$' then split_part(o.name, '/', 1)::uuid end,
+         o.name,
+         null::uuid,
+         (o.metadata ->> 'size')::bigint,
+         o.created_at
+  from storage.objects o
+  where o.bucket_id = 'audio-files'
+    and (student is null or split_part(o.name, '/', 1) = student::text)
+    and o.created_at < now() - grace
+    and not exists (
+      select 1 from audio_records r where r.file_path = o.name
+    )
+
+  union all
+
+  select 'dangling_record',
+         r.user_id,
+         r.file_path,
+         r.id,
+         r.file_size::bigint,
+         r.created_at
+  from audio_records r
+  where (student is null or r.user_id = student)
+    and not exists (
+      select 1 from storage.objects o
+      where o.bucket_id = 'audio-files' and o.name = r.file_path
+    )
+
+  order by 2, 6;
+$$;
+
+-- Maintenance only: run with the service role key
+revoke execute on function public.find_storage_orphans(uuid, interval) from public, anon, authenticated;
@@ -0,0 +1,111 @@
+-- Comments guardians pin to a moment in a recording, and the student's
+-- replies. A reply can carry a clip re-reading just the commented section.
+
+create table if not exists public.recording_comments (
+  id uuid primary key default gen_random_uuid(),
+  recording_id uuid not null references public.audio_records (id) on delete cascade,
+  -- Owner of the recording, kept here so the policies need no join
+  student_id uuid not null references auth.users (id) on delete cascade,
+  author_id uuid not null references auth.users (id) on delete cascade,
+  reply_to uuid references public.recording_comments (id) on delete cascade,
+  -- Seconds into the file; a reply sits at its comment's position
+  position numeric(8,2) not null check (position >= 0),
+  body text not null default '',
+  clip_path text,
+  clip_duration numeric(8,2),
+  created_at timestamptz not null default now(),
+  check (length(trim(body)) > 0 or clip_path is not null)
+);
+
+create index if not exists recording_comments_recording_idx
+  on public.recording_comments (recording_id, position);
+
+alter table public.recording_comments enable row level security;
+
+create policy "Students and guardians read comments on a recording"
+  on public.recording_comments for select
+  using (auth.uid() = student_id or public.is_guardian_of(student_id));
+
+create policy "Guardians comment on their students' recordings"
+  on public.recording_comments for insert
+  with check (
+    auth.uid() = author_id
+    and reply_to is null
+    and clip_path is null
+    and public.is_guardian_of(student_id)
+    and exists (
+      select 1 from public.audio_records
+      where audio_records.id = recording_id and audio_records.user_id = student_id
+    )
+  );
+
+create policy "Students reply to comments on their recordings"
+  on public.recording_comments for insert
+  with check (
+    auth.uid() = author_id
+    and auth.uid() = student_id
+    and (clip_path is null or split_part(clip_path, '/', 1) = auth.uid()::text)
+    and exists (
+      select 1 from public.recording_comments comment
+      where comment.id = reply_to
+        and comment.recording_id = recording_comments.recording_id
+        and comment.reply_to is null
+    )
+  );
+
+create policy "Authors delete their own comments"
+  on public.recording_comments for delete
+  using (auth.uid() = author_id);
+
+-- Section clips live in the audio-files bucket too, so they are not orphans
+create or replace function public.find_storage_orphans(
+  student uuid default null,
+  grace interval default interval '7 days'
+)
+returns table (
+  kind text,
+  user_id uuid,
+  file_path text,
+  record_id uuid,
+  file_size bigint,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select 'orphaned_file',
+         case when split_part(o.name, '/', 1) ~ '^[0-9a-f-]{36}$' then split_part(o.name, '/', 1)::uuid end,
+         o.name,
+         null::uuid,
+         (o.metadata ->> 'size')::bigint,
+         o.created_at
+  from storage.objects o
+  where o.bucket_id = 'audio-files'
+    and (student is null or split_part(o.name, '/', 1) = student::text)
+    and o.created_at < now() - grace
+    and not exists (
+      select 1 from audio_records r where r.file_path = o.name
+    )
+    and not exists (
+      select 1 from recording_comments c where c.clip_path = o.name
+    )
+
+  union all
+
+  select 'dangling_record',
+         r.user_id,
+         r.file_path,
+         r.id,
+         r.file_size::bigint,
+         r.created_at
+  from audio_records r
+  where (student is null or r.user_id = student)
+    and not exists (
+      select 1 from storage.objects o
+      where o.bucket_id = 'audio-files' and o.name = r.file_path
+    )
+
+  order by 2, 6;
+$$;
@@ -0,0 +1,181 @@
+-- submit_reading_session(): replays, assignment payouts, server-side points
+-- and the streak day. Runs against a local database with every migration
+-- applied: supabase test db
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(14);
+
+-- A student, their linked parent, a pending assignment and uploaded recordings.
+-- Files are sized like 64 kbps audio, 8000 bytes a second.
+insert into auth.users (id, email)
+values
+  ('11111111-1111-1111-1111-111111111111', 'student@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'parent@example.com');
+
+insert into public.profiles (user_id, full_name, points, diamonds, current_streak, longest_streak, level)
+values ('11111111-1111-1111-1111-111111111111', 'Student', 0, 0, 0, 0, 1);
+
+insert into public.reading_assignments (id, student_id, parent_id, title, book_title, points_reward, status)
+values (
+  '33333333-3333-3333-3333-333333333333',
+  '11111111-1111-1111-1111-111111111111',
+  '22222222-2222-2222-2222-222222222222',
+  'Chapter one',
+  'Charlotte''s Web',
+  25,
+  'pending'
+);
+
+insert into storage.buckets (id, name)
+values ('audio-files', 'audio-files')
+on conflict (id) do nothing;
+
+insert into storage.objects (bucket_id, name, metadata)
+values
+  ('audio-files', '11111111-1111-1111-1111-111111111111/free.m4a', '{"size": 800000}'),
+  ('audio-files', '11111111-1111-1111-1111-111111111111/assignment.m4a', '{"size": 800000}'),
+  ('audio-files', '11111111-1111-1111-1111-111111111111/short-file.m4a', '{"size": 40000}'),
+  ('audio-files', '11111111-1111-1111-1111-111111111111/yesterday.m4a', '{"size": 800000}'),
+  ('audio-files', '11111111-1111-1111-1111-111111111111/last-month.m4a', '{"size": 800000}');
+
+set local role authenticated;
+set local request.jwt.claims = '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}';
+
+-- Free reading is paid for its speech time, whatever points the app asks for
+select is(
+  (public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000001', '{
+    "title": "Free reading",
+    "file_path": "11111111-1111-1111-1111-111111111111/free.m4a",
+    "duration": 100,
+    "points_earned": 500,
+    "timezone": "UTC",
+    "fluency": {"speech_seconds": 95, "pause_seconds": 5}
+  }') ->> 'points_earned')::integer,
+  14,
+  'free reading earns 10 points plus 2 per started minute of speech'
+);
+
+select is(
+  (select current_streak from public.profiles where user_id = auth.uid()),
+  1,
+  'the first reading starts a streak'
+);
+
+-- A retry after a lost response replays the stored result
+select is(
+  public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000001', '{
+    "title": "Free reading",
+    "file_path": "11111111-1111-1111-1111-111111111111/free.m4a",
+    "duration": 100,
+    "timezone": "UTC"
+  }') ->> 'replayed',
+  'true',
+  'a second submit of the same session is a replay'
+);
+
+select is(
+  (select count(*)::integer from public.audio_records where user_id = auth.uid()),
+  1,
+  'a replay saves no second recording'
+);
+
+select is(
+  (select count(*)::integer from public.points_transactions where user_id = auth.uid() and source = 'recording'),
+  1,
+  'a replay pays nothing again'
+);
+
+-- An assignment pays its own reward once
+select is(
+  (public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000002', '{
+    "title": "Chapter one",
+    "file_path": "11111111-1111-1111-1111-111111111111/assignment.m4a",
+    "duration": 60,
+    "points_earned": 500,
+    "assignment_id": "33333333-3333-3333-3333-333333333333",
+    "timezone": "UTC",
+    "fluency": {"speech_seconds": 50, "pause_seconds": 10}
+  }') ->> 'points_earned')::integer,
+  25,
+  'a pending assignment pays its points reward'
+);
+
+select is(
+  (select status from public.reading_assignments where id = '33333333-3333-3333-3333-333333333333'),
+  'completed',
+  'the assignment is completed'
+);
+
+select is(
+  (select recordings_count from public.reading_streaks
+   where student_id = auth.uid() and streak_date = (now() at time zone 'UTC')::date),
+  2,
+  'a second reading on the same day adds to that day'
+);
+
+-- Speech time can't be longer than the uploaded file: 40000 bytes is at most 20s
+select is(
+  (public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000003', '{
+    "title": "Short file",
+    "file_path": "11111111-1111-1111-1111-111111111111/short-file.m4a",
+    "duration": 1200,
+    "timezone": "UTC",
+    "recorded_at": "2100-01-01T00:00:00Z",
+    "fluency": {"speech_seconds": 1200, "pause_seconds": 0}
+  }') ->> 'points_earned')::integer,
+  12,
+  'speech time is capped by the size of the uploaded file'
+);
+
+select is(
+  (select max(streak_date) from public.reading_streaks where student_id = auth.uid()),
+  (now() at time zone 'UTC')::date,
+  'a reading dated in the future counts today'
+);
+
+-- A queued reading from yesterday keeps its day and extends the streak
+select is(
+  (public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000004', jsonb_build_object(
+    'title', 'Yesterday',
+    'file_path', '11111111-1111-1111-1111-111111111111/yesterday.m4a',
+    'duration', 90,
+    'timezone', 'UTC',
+    'recorded_at', now() - interval '1 day',
+    'fluency', jsonb_build_object('speech_seconds', 80, 'pause_seconds', 10)
+  )) ->> 'current_streak')::integer,
+  2,
+  'a reading recorded yesterday extends the streak'
+);
+
+select is(
+  (select count(*)::integer from public.reading_streaks where student_id = auth.uid()),
+  2,
+  'readings are logged on two days'
+);
+
+-- Too long ago for a queued upload: counted today instead of filling an old gap
+select is(
+  (public.submit_reading_session('aaaaaaaa-0000-0000-0000-000000000005', jsonb_build_object(
+    'title', 'Last month',
+    'file_path', '11111111-1111-1111-1111-111111111111/last-month.m4a',
+    'duration', 90,
+    'timezone', 'UTC',
+    'recorded_at', now() - interval '30 days',
+    'fluency', jsonb_build_object('speech_seconds', 80, 'pause_seconds', 10)
+  )) ->> 'longest_streak')::integer,
+  2,
+  'a reading dated before the grace period counts today'
+);
+
+select is(
+  (select count(*)::integer from public.reading_streaks where student_id = auth.uid()),
+  2,
+  'no day is logged a month ago'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,32 @@
+export type AlignmentStatus = 'correct' | 'skipped' | 'substituted';
+
+// One word of the passage and how the reader handled it
+export interface AlignedWord {
+  // As written in the passage, punctuation included
+  word: string;
+  status: AlignmentStatus;
+  // What was said instead, for substitutions
+  spoken?: string;
+  // The reader went back and said this word again
+  repeated?: boolean;
+}
+
+export interface AccuracyResult {
+  // Percent of passage words read correctly
+  accuracy: number;
+  passage_word_count: number;
+  correct_count: number;
+  skipped_count: number;
+  substituted_count: number;
+  repeated_count: number;
+  // Extra spoken words that aren't in the passage or a repeat
+  inserted_count: number;
+  alignment: AlignedWord[];
+}
+
+export interface RecordingAccuracy extends AccuracyResult {
+  recording_id: string;
+  user_id: string;
+  assignment_id?: string;
+  created_at: string;
+}
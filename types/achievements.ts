@@ -0,0 +1,61 @@
+export type AchievementMetric =
+  | 'recordings'
+  | 'reading_minutes'
+  | 'points'
+  | 'current_streak'
+  | 'perfect_weeks'
+  | 'books_finished'
+  | 'assignments_completed'
+  | 'parent_ratings';
+
+export type AchievementCategory = 'reading' | 'streaks' | 'points' | 'books' | 'family';
+
+export type AchievementComparator = 'gte' | 'gt' | 'eq';
+
+// Events that can move an achievement metric forward
+export type AchievementEvent =
+  | 'recording_saved'
+  | 'points_changed'
+  | 'streak_updated'
+  | 'assignment_completed'
+  | 'book_finished'
+  | 'review_received';
+
+// Declarative unlock condition stored on the achievement row, e.g.
+// { metric: 'recordings', comparator: 'gte', target: 5, window_days: 7, min_duration_seconds: 600 }
+export interface AchievementRule {
+  metric: AchievementMetric;
+  comparator: AchievementComparator;
+  target: number;
+  window_days?: number;
+  min_duration_seconds?: number;
+  min_rating?: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  points_reward: number;
+  diamonds_reward: number;
+  requirement_type: string;
+  requirement_value: number;
+  rule?: AchievementRule | null;
+  created_at?: string;
+}
+
+export interface AchievementProgress {
+  current: number;
+  target: number;
+  ratio: number;
+  // Days until unlock at the recent pace; null when there is no recent activity
+  etaDays: number | null;
+}
+
+export interface AchievementWithProgress extends Achievement {
+  category: AchievementCategory;
+  earned: boolean;
+  earned_at?: string;
+  progress: AchievementProgress;
+}
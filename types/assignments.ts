@@ -0,0 +1,38 @@
+import { AudioRecord } from './audio';
+
+export type AssignmentStatus = 'pending' | 'completed' | 'reviewed';
+
+export interface ReadingAssignment {
+  id: string;
+  student_id: string;
+  parent_id: string;
+  title: string;
+  description?: string;
+  book_title: string;
+  book_id?: string;
+  // Exact text to read, used to score accuracy against the transcript
+  passage_text?: string;
+  target_duration?: number;
+  points_reward: number;
+  due_date?: string;
+  status: AssignmentStatus;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface CreateAssignmentData {
+  student_id: string;
+  title: string;
+  description?: string;
+  book_title: string;
+  book_id?: string;
+  passage_text?: string;
+  target_duration?: number;
+  points_reward?: number;
+  due_date?: string;
+}
+
+export interface AssignmentForReview extends ReadingAssignment {
+  student_name?: string;
+  recording?: AudioRecord;
+}
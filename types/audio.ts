@@ -1,3 +1,39 @@
+import { Audio } from 'expo-av';
+import { LevelUpEvent } from './leveling';
+import { FluencyMetrics } from './fluency';
+
+export type ReadingQuality = 'needs_practice' | 'good' | 'great' | 'excellent';
+
+export type RecordingProfileId = 'speech' | 'standard' | 'high';
+
+export interface RecordingProfile {
+  id: RecordingProfileId;
+  label: string;
+  description: string;
+  sample_rate: number;
+  channels: number;
+  // Bits per second
+  bitrate: number;
+  options: Audio.RecordingOptions;
+}
+
+// How a recording was encoded, kept with the record
+export interface AudioFormatInfo {
+  format: string;
+  content_type: string;
+  bitrate?: number;
+  sample_rate?: number;
+}
+
+// Problems with how a recording sounds, as opposed to how it was read
+export type AudioQualityIssue = 'clipping' | 'too_quiet' | 'long_silence';
+
+export interface AudioQualityReport {
+  // 0-100, where 100 is clean and clearly audible
+  score: number;
+  issues: AudioQualityIssue[];
+}
+
 export interface AudioRecord {
   id: string;
   user_id: string;
@@ -6,6 +42,25 @@ export interface AudioRecord {
   file_path: string;
   file_size?: number;
   duration?: number;
+  points_earned?: number;
+  assignment_id?: string;
+  book_id?: string;
+  start_page?: number;
+  end_page?: number;
+  chapter?: string;
+  // Seconds into the file where the reading starts and stops; silence outside is skipped
+  trim_start?: number;
+  trim_end?: number;
+  quality_score?: number;
+  quality_issues?: AudioQualityIssue[];
+  format?: string;
+  content_type?: string;
+  bitrate?: number;
+  sample_rate?: number;
+  parent_rating?: number;
+  parent_feedback?: string;
+  reading_quality?: ReadingQuality;
+  reviewed_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -30,9 +85,101 @@ export interface CreateAudioRecordData {
   file_path: string;
   file_size?: number;
   duration?: number;
+  points_earned?: number;
+  assignment_id?: string;
+  book_id?: string;
+  start_page?: number;
+  end_page?: number;
+  chapter?: string;
+  trim_start?: number;
+  trim_end?: number;
+  quality_score?: number;
+  quality_issues?: AudioQualityIssue[];
+  format?: string;
+  content_type?: string;
+  bitrate?: number;
+  sample_rate?: number;
 }
 
 export interface UpdateAudioRecordData {
   title?: string;
   description?: string;
-}
\ No newline at end of file
+}
+// 'cancelling' means the student cancelled and whatever reached the server still has to be undone
+export type PendingRecordingStatus = 'waiting' | 'uploading' | 'paused' | 'failed' | 'cancelling';
+
+// A recording saved on the device that has not fully reached the server yet.
+// upload_url / file_path track how far the upload got, so a retry resumes instead
+// of uploading twice; the id doubles as the reading session id on the server.
+export interface PendingRecording {
+  id: string;
+  user_id: string;
+  local_uri: string;
+  file_name: string;
+  title: string;
+  description?: string;
+  duration: number;
+  file_size?: number;
+  points_earned: number;
+  assignment_id?: string;
+  book_id?: string;
+  start_page?: number;
+  end_page?: number;
+  chapter?: string;
+  trim_start?: number;
+  trim_end?: number;
+  quality?: AudioQualityReport;
+  fluency?: FluencyMetrics;
+  // Missing on recordings queued before profiles existed; those are m4a
+  audio_format?: AudioFormatInfo;
+  status: PendingRecordingStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+  // Resumable upload session on the server and how much of the file it has
+  upload_url?: string;
+  uploaded_bytes?: number;
+  file_path?: string;
+  // Set once the record is saved, so the recording can no longer be cancelled.
+  // Recordings queued before reading sessions saved it in a separate step; the
+  // session adopts it.
+  record_id?: string;
+  created_at: string;
+}
+
+export interface EnqueueRecordingData {
+  uri: string;
+  title: string;
+  description?: string;
+  duration: number;
+  points_earned: number;
+  assignment_id?: string;
+  book_id?: string;
+  start_page?: number;
+  end_page?: number;
+  chapter?: string;
+  trim_start?: number;
+  trim_end?: number;
+  quality?: AudioQualityReport;
+  fluency?: FluencyMetrics;
+  profile?: RecordingProfileId;
+}
+
+// Steps of pushing a queued recording to the server, in order
+export type SubmitStage = 'uploading' | 'saving';
+
+// sent / total are upload bytes; they stay at the file size once the upload is done
+export interface SubmitProgress {
+  id: string;
+  stage: SubmitStage;
+  sent: number;
+  total: number;
+}
+
+export interface RecordingSubmitResult {
+  record: AudioRecord;
+  pointsEarned: number;
+  newAchievements: any[];
+  levelUp?: LevelUpEvent | null;
+  currentStreak: number;
+}
@@ -1,3 +1,5 @@
+export type UserRole = 'student' | 'parent';
+
 export interface User {
   id: string;
   email: string;
@@ -5,7 +7,7 @@ export interface User {
   full_name?: string;
   avatar_url?: string;
   bio?: string;
-  role?: string;
+  role?: UserRole;
   parent_id?: string;
   points?: number;
   diamonds?: number;
@@ -32,6 +34,7 @@ export interface SignUpData {
   email: string;
   password: string;
   full_name: string;
+  role?: UserRole;
 }
 
 export interface ProfileUpdateData {
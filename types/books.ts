@@ -0,0 +1,59 @@
+export type BookShelf = 'reading' | 'finished';
+
+export interface Book {
+  id: string;
+  title: string;
+  author?: string;
+  cover_url?: string;
+  page_count?: number;
+  reading_level?: string;
+  isbn?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface CreateBookData {
+  title: string;
+  author?: string;
+  cover_url?: string;
+  page_count?: number;
+  reading_level?: string;
+  isbn?: string;
+}
+
+// Totals across every recording linked to a book
+export interface BookProgress {
+  sessions: number;
+  totalSeconds: number;
+  pagesRead: number;
+  // Highest end page recorded so far
+  furthestPage: number;
+  // 0-1 through the book, when its page count is known
+  completion: number | null;
+  lastReadAt?: string;
+}
+
+export interface LibraryBook {
+  id: string;
+  student_id: string;
+  book_id: string;
+  status: BookShelf;
+  added_by?: string;
+  started_at: string;
+  finished_at?: string;
+  book: Book;
+  progress: BookProgress;
+}
+
+// A source of book details for a scanned ISBN. Returns null when it has no match.
+export interface BookLookupProvider {
+  name: string;
+  requiresNetwork: boolean;
+  lookup(isbn: string): Promise<CreateBookData | null>;
+}
+
+export interface BookLookupResult {
+  book: CreateBookData;
+  // Name of the provider that matched, or null when nothing did
+  source: string | null;
+}
@@ -0,0 +1,28 @@
+export interface RecordingComment {
+  id: string;
+  recording_id: string;
+  // Owner of the recording
+  student_id: string;
+  author_id: string;
+  // Set on a student's reply to a guardian's comment
+  reply_to: string | null;
+  // Seconds into the recording file
+  position: number;
+  body: string;
+  // Re-reading of just the commented section, stored in audio-files
+  clip_path: string | null;
+  clip_duration: number | null;
+  created_at: string;
+}
+
+// A guardian's comment with the student's replies, oldest first
+export interface CommentThread extends RecordingComment {
+  replies: RecordingComment[];
+}
+
+// A finished section re-recording waiting to go out with a reply
+export interface SectionClip {
+  uri: string;
+  // Seconds
+  duration: number;
+}
@@ -0,0 +1,34 @@
+export type GuardianLinkStatus = 'pending' | 'active' | 'revoked';
+
+export interface GuardianInvite {
+  id: string;
+  parent_id: string;
+  code: string;
+  expires_at: string;
+  redeemed_by?: string;
+  redeemed_at?: string;
+  created_at: string;
+}
+
+export interface GuardianInvitePreview {
+  parent_id: string;
+  parent_name?: string;
+  expires_at: string;
+}
+
+export interface GuardianLink {
+  id: string;
+  parent_id: string;
+  student_id: string;
+  invite_id?: string;
+  status: GuardianLinkStatus;
+  created_at: string;
+  confirmed_at?: string;
+  revoked_at?: string;
+  revoked_by?: string;
+}
+
+export interface GuardianLinkWithProfile extends GuardianLink {
+  // Profile of the other side of the link (student for parents, parent for students)
+  full_name?: string;
+}
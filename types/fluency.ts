@@ -0,0 +1,37 @@
+// One reading of the recorder's level meter
+export interface MeteringSample {
+  // Seconds since the recording started
+  t: number;
+  // Loudness in dBFS, from -160 (silence) to 0
+  db: number;
+}
+
+export interface SpeechSegment {
+  start: number;
+  end: number;
+  speech: boolean;
+}
+
+export type WordSource = 'passage' | 'pages';
+
+export interface FluencyMetrics {
+  speech_seconds: number;
+  pause_seconds: number;
+  longest_pause_seconds: number;
+  pause_count: number;
+  word_count?: number;
+  word_source?: WordSource;
+  words_per_minute?: number;
+  segments: SpeechSegment[];
+}
+
+export interface RecordingAnalysis extends FluencyMetrics {
+  recording_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface FluencyTrendPoint extends RecordingAnalysis {
+  recording_title: string;
+  recorded_at: string;
+}
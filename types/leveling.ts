@@ -0,0 +1,29 @@
+export type LevelCurve =
+  | { type: 'linear'; points_per_level: number }
+  | { type: 'exponential'; base_points: number; growth: number }
+  | { type: 'table'; thresholds: number[] };
+
+export interface LevelingConfig {
+  curve: LevelCurve;
+  // Display names by level, starting at level 1
+  level_names: string[];
+  // Perk unlocked on reaching a level, keyed by level number
+  perks: Record<number, string>;
+}
+
+export interface LevelInfo {
+  level: number;
+  name: string;
+  currentLevelMin: number;
+  nextLevelMin: number;
+  pointsToNext: number;
+  progress: number;
+  nextPerk?: { level: number; perk: string };
+}
+
+export interface LevelUpEvent {
+  previousLevel: number;
+  level: number;
+  name: string;
+  perks: string[];
+}
@@ -0,0 +1,14 @@
+export type PointsSource = 'recording' | 'assignment' | 'achievement' | 'adjustment' | 'purchase';
+
+export interface PointsTransaction {
+  id: string;
+  user_id: string;
+  amount: number;
+  diamonds: number;
+  source: PointsSource;
+  reference_id?: string;
+  idempotency_key?: string;
+  description?: string;
+  created_by?: string;
+  created_at: string;
+}
@@ -0,0 +1,34 @@
+import { Achievement } from './achievements';
+import { AudioRecord, CreateAudioRecordData } from './audio';
+import { FluencyMetrics } from './fluency';
+
+// Everything submit_reading_session() needs to save one finished reading.
+// Points are worked out on the server: assignments pay their own reward and
+// free reading is paid for its speech time.
+export interface SubmitReadingSessionData extends Omit<CreateAudioRecordData, 'points_earned'> {
+  duration: number;
+  fluency?: FluencyMetrics;
+  // When the reading happened; the streak counts it on this day in the student's time zone
+  recorded_at: string;
+  timezone?: string;
+  // Row already created by the older step-by-step save, adopted instead of inserting another
+  record_id?: string;
+}
+
+export interface ReadingSessionResult {
+  record: AudioRecord;
+  points_earned: number;
+  points_before: number;
+  points_after: number;
+  current_streak: number;
+  longest_streak: number;
+  new_achievements: Achievement[];
+  // Set when the session was already saved and this is its stored result
+  replayed?: boolean;
+}
+
+// A session the server has committed; recording_id is null once that recording was deleted
+export interface SavedReadingSession {
+  id: string;
+  recording_id: string | null;
+}
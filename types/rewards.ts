@@ -0,0 +1,34 @@
+export type RedemptionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Reward {
+  id: string;
+  parent_id: string;
+  title: string;
+  description?: string;
+  diamond_cost: number;
+  active: boolean;
+  created_at: string;
+}
+
+export interface CreateRewardData {
+  title: string;
+  description?: string;
+  diamond_cost: number;
+}
+
+export interface RewardRedemption {
+  id: string;
+  reward_id: string;
+  student_id: string;
+  parent_id: string;
+  reward_title: string;
+  diamond_cost: number;
+  status: RedemptionStatus;
+  parent_note?: string;
+  created_at: string;
+  decided_at?: string;
+}
+
+export interface RedemptionWithStudent extends RewardRedemption {
+  student_name?: string;
+}
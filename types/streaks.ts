@@ -0,0 +1,18 @@
+export type StreakFreezeSource = 'purchase' | 'parent_grant';
+
+export interface StreakFreeze {
+  id: string;
+  student_id: string;
+  source: StreakFreezeSource;
+  granted_by?: string;
+  used_on?: string;
+  created_at: string;
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  readToday: boolean;
+  freezesAvailable: number;
+  perfectWeeks: number;
+}
@@ -0,0 +1,35 @@
+export interface TranscriptWord {
+  word: string;
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  words: TranscriptWord[];
+  language: string;
+}
+
+export interface TranscriptionOptions {
+  language: string;
+  // Where the reading starts in the file and how long it runs in seconds, used to
+  // place words when the engine gives no timings
+  start?: number;
+  duration?: number;
+}
+
+// A speech-to-text backend. Engines are swapped with transcriptionService.setEngine.
+export interface TranscriptionEngine {
+  name: string;
+  isAvailable(): Promise<boolean>;
+  transcribe(localUri: string, options: TranscriptionOptions): Promise<TranscriptionResult>;
+}
+
+export interface RecordingTranscript extends TranscriptionResult {
+  recording_id: string;
+  user_id: string;
+  engine: string;
+  created_at: string;
+}
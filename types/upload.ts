@@ -0,0 +1,22 @@
+// Lets a caller pause a resumable upload between or in the middle of chunks
+export interface UploadControl {
+  paused: boolean;
+  pause(): Promise<void>;
+  // Stops the request in flight; set by the uploader while a chunk is sending
+  cancelCurrent?: () => void | Promise<void>;
+}
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  // Path inside the bucket
+  objectName: string;
+  fileUri: string;
+  size: number;
+  contentType: string;
+  // Session from an earlier attempt; the upload continues from wherever the server got to
+  uploadUrl?: string;
+  control?: UploadControl;
+  onSessionCreated?: (uploadUrl: string) => void | Promise<void>;
+  onChunkUploaded?: (uploadedBytes: number) => void | Promise<void>;
+  onProgress?: (sent: number, total: number) => void;
+}